@@ -22,7 +22,16 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////
 
-import { IWorkoutsToIcalAppConfig } from "./src/WorkoutsToIcalApp";
+import { IWorkoutsToIcalAppConfig, IWorkoutsToIcalUser } from "./src/WorkoutsToIcalApp";
+import { WorkoutTypeRule, defaultWorkoutTypes } from "./src/WorkoutTypes";
+import { defaultBodyTemplate } from "./src/BodyTemplate";
+import { UnitSystem } from "./src/Units";
+import { HealthMetricRule, defaultHealthMetrics } from "./src/DailyMetricsEvent";
+import { StreakGoal } from "./src/Streaks";
+import { HeartRateZones } from "./src/HeartRateZones";
+import { PersonalRecordsConfig } from "./src/PersonalRecords";
+import { SummaryPeriod } from "./src/Summaries";
+import { CalendarProfile } from "./src/CalendarProfiles";
 
 ////////////////////////////////////////////////////////////////////////////////
 // Config
@@ -31,6 +40,92 @@ export default class Config implements IWorkoutsToIcalAppConfig {
     // Calendar name, shown by some calendar clients
     calendarName: string = "My Workouts";
 
+    // Rules mapping Health Auto Export workout names to calendar event titles.
+    // Rules are checked in order and the first match wins. A rule can also match
+    // on isIndoor, and a rule named "*" matches any workout; "{name}" in a title
+    // is replaced by the workout name. Workouts that match no rule are stored
+    // but not shown on the calendar. A rule may set its own bodyTemplate.
+    workoutTypes: WorkoutTypeRule[] = [
+        ...defaultWorkoutTypes,
+        // { name: "Traditional Strength Training", title: "Strength", bodyTemplate: "{duration}\n{activeEnergy} calories\nHR: {avgHeartRate} - {maxHeartRate} bpm\n" },
+        // { name: "Pool Swim", title: "Swim", bodyTemplate: "{duration}\n{distance} {distanceUnit}\nStrokes: {totalSwimmingStrokeCount}\n" },
+        // { name: "*", title: "Workout - {name}" }
+    ];
+
+    // Template for calendar event bodies of workout types without their own
+    // bodyTemplate. Placeholders are {duration}, {pace} or any WorkoutData field
+    // such as {activeEnergy} or {elevation.ascent}, see src/BodyTemplate.ts.
+    bodyTemplate: string = defaultBodyTemplate;
+
+    // Units shown on the calendar, "imperial" (miles, ft, degF) or "metric" (km, 
+    // m, degC). Posted data is converted from whatever units it was exported in.
+    unitSystem: UnitSystem = "imperial";
+
+    // Show workouts at the time they happened instead of as all-day events
+    timedEvents: boolean = false;
+
+    // Show all workouts of a day as one all-day event, e.g. "Cardio - walk + 
+    // run" with a section for each workout and the day's totals. Ignored when
+    // timedEvents is set.
+    collapseSameDayWorkouts: boolean = false;
+
+    // Your IANA timezone, e.g. "America/Chicago". The calendar carries this 
+    // timezone and workouts are placed on days and times in it. If null, each 
+    // workout is placed using the UTC offset it was recorded with.
+    timezone: string | null = null;
+
+    // Health Auto Export metrics summarized on the daily health metrics 
+    // calendar (/healthCalendar), in order. Each rule names a metric, the field
+    // of its data points to show (qty if not set) and a label with "{value}".
+    // See src/DailyMetricsEvent.ts for formats.
+    healthMetrics: HealthMetricRule[] = [
+        ...defaultHealthMetrics,
+        // { name: "weight_body_mass", label: "{value} lb" },
+        // { name: "active_energy", label: "{value} kcal", format: "count", aggregate: "sum" }
+    ];
+
+    // Heart rate zones. When set, event bodies show the time spent in each 
+    // zone and the 1 minute heart rate recovery, e.g. "Z2 22:10 · Z3 8:04 · 
+    // HRR 28". Give the lower bound (bpm) of each zone, or a max heart rate 
+    // (or age, for 220 - age) to use zones at 50/60/70/80/90% of it.
+    heartRateZones: HeartRateZones | null = null;
+    // heartRateZones: HeartRateZones | null = { bpm: [ 100, 120, 140, 160, 175 ] };
+    // heartRateZones: HeartRateZones | null = { maxHeartRate: 190 };
+    // heartRateZones: HeartRateZones | null = { age: 40, percentages: [ 50, 60, 70, 80, 90 ] };
+
+    // Personal records per workout type: longest distance, most active energy,
+    // longest duration, biggest ascent and fastest pace over each of 
+    // paceDistances (miles or km, as unitSystem). Workouts that beat a record
+    // get "🏆" in their title and the record in their body. All records are 
+    // served as JSON at /api/records.
+    personalRecords: PersonalRecordsConfig | null = null;
+    // personalRecords: PersonalRecordsConfig | null = { paceDistances: [ 1, 3.1, 6.2, 13.1 ] };
+
+    // Goal for workout streaks. When set, the calendar shows the current and
+    // record streaks and milestones (e.g. "Day 30 of streak!"), and the current
+    // streak is served as JSON at /streak?{querystringSecretKey}=... A period 
+    // (day or ISO week) meets the goal when its workouts total at least 
+    // minWorkouts, minDuration minutes and minActiveEnergy kcal.
+    streakGoal: StreakGoal | null = null;
+    // streakGoal: StreakGoal | null = { period: "day", minWorkouts: 1, minDuration: 30, minActiveEnergy: 0, milestones: [ 7, 30, 100, 365 ] };
+    // streakGoal: StreakGoal | null = { period: "week", minWorkouts: 3, minDuration: 0, minActiveEnergy: 900, milestones: [ 4, 12, 52 ] };
+
+    // Add a summary event on the last day of each "week" (ISO week) and/or 
+    // "month" with totals, a breakdown by workout type and a comparison with the
+    // period before. Empty for no summary events.
+    summaryPeriods: SummaryPeriod[] = [];
+    // summaryPeriods: SummaryPeriod[] = [ "week", "month" ];
+
+    // Named calendars, each served at /calendars/{name}.ics?{querystringSecretKey}=
+    // {its querystringSecretVal}. A calendar shows the workouts of a user that
+    // match its filter (see src/WorkoutFilter.ts) and can set its own name, 
+    // color, workoutTypes, bodyTemplate, timedEvents and collapseSameDayWorkouts.
+    calendars: CalendarProfile[] = [
+        // { name: "Running", querystringSecretVal: "running-secret-value", color: "#ff2d55", filter: { types: [ "run", "treadmill" ] }, timedEvents: true },
+        // { name: "Gym", querystringSecretVal: "gym-secret-value", filter: { types: [ "Traditional Strength Training" ] }, workoutTypes: [ { name: "*", title: "Gym - {name}" } ] },
+        // { name: "Everything", querystringSecretVal: "everything-secret-value", workoutTypes: [ ...defaultWorkoutTypes, { name: "*", title: "{name}" } ], collapseSameDayWorkouts: true }
+    ];
+
     // Database filename
     dbFilename: string = "workouts.db";
 
@@ -42,6 +137,13 @@ export default class Config implements IWorkoutsToIcalAppConfig {
     querystringSecretKey: string = "secret";
     querystringSecretVal: string = "some-secret-value";
 
+    // Additional users, each with their own workouts and calendar. The values 
+    // above are for the default user. Users are told apart by their secret 
+    // values, which must be different for each user.
+    users: IWorkoutsToIcalUser[] = [
+        // { name: "alex", headerSecretVal: "another-secret-value", querystringSecretVal: "another-secret-value", calendarName: "Alex's Workouts" }
+    ];
+
     // Port for this app server
     port: number = 8085;
 
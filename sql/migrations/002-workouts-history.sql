@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS workouts_history (
+    workout_rowid INTEGER,
+    value TEXT,
+    hash TEXT,
+    replaced TEXT
+);
+
+CREATE INDEX IF NOT EXISTS workouts_history_workout_rowid
+on workouts_history(workout_rowid);
@@ -0,0 +1,18 @@
+-- Identifies a workout: the Auto Export id if it has one, else start|end|name
+-- (keep in sync with getWorkoutIdentity())
+ALTER TABLE workouts ADD COLUMN identity TEXT AS ( COALESCE( 'id:' || json_extract(value, '$.id'), json_extract(value, '$.start') || '|' || json_extract(value, '$.end') || '|' || json_extract(value, '$.name') ) );
+
+-- Older versions could store a workout more than once (e.g. when it was posted
+-- twice at the same time), keep the latest row and move the others to history
+INSERT INTO workouts_history (workout_rowid, value, hash, replaced)
+SELECT latest.rowid, workouts.value, NULL, strftime('%Y-%m-%dT%H:%M:%fZ', 'now')
+FROM workouts JOIN ( SELECT identity, MAX(rowid) AS rowid FROM workouts WHERE identity IS NOT NULL GROUP BY identity ) AS latest
+ON latest.identity = workouts.identity AND latest.rowid != workouts.rowid
+ORDER BY workouts.rowid;
+
+DELETE FROM workouts
+WHERE identity IS NOT NULL
+AND rowid NOT IN ( SELECT MAX(rowid) FROM workouts WHERE identity IS NOT NULL GROUP BY identity );
+
+CREATE UNIQUE INDEX IF NOT EXISTS workouts_identity
+on workouts(identity);
@@ -0,0 +1,7 @@
+-- Workouts belong to a user, existing workouts belong to the default user
+ALTER TABLE workouts ADD COLUMN user TEXT NOT NULL DEFAULT 'default';
+
+DROP INDEX IF EXISTS workouts_identity;
+
+CREATE UNIQUE INDEX IF NOT EXISTS workouts_user_identity
+on workouts(user, identity);
@@ -0,0 +1,24 @@
+-- Health metric data points (e.g. step_count, resting_heart_rate), one per 
+-- user, metric name and date. value is the data point as posted, which has 
+-- qty or metric specific fields (e.g. Min/Avg/Max, asleep/inBed).
+CREATE TABLE IF NOT EXISTS metrics (
+    user TEXT NOT NULL,
+    name TEXT NOT NULL,
+    date TEXT NOT NULL,
+    units TEXT,
+    value TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS metrics_user_name_date
+on metrics(user, name, date);
+
+-- Logged symptoms, one per user, symptom name and start
+CREATE TABLE IF NOT EXISTS symptoms (
+    user TEXT NOT NULL,
+    name TEXT NOT NULL,
+    start TEXT NOT NULL,
+    value TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS symptoms_user_name_start
+on symptoms(user, name, start);
@@ -0,0 +1,9 @@
+-- Heart rate analysis of each workout (see HeartRateZones.ts), recalculated 
+-- when the workout changes and when the app starts. zone_seconds is a JSON 
+-- array of the seconds spent in each configured zone, recovery is the 1 
+-- minute heart rate recovery in bpm (null if it could not be calculated).
+CREATE TABLE IF NOT EXISTS workout_heart_rate (
+    workout_rowid INTEGER PRIMARY KEY,
+    zone_seconds TEXT,
+    recovery REAL
+);
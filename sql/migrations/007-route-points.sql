@@ -0,0 +1,20 @@
+-- Route location samples of each workout (see Routes.ts), in the order they
+-- were recorded. Replaced when the workout changes. Points without a lat and 
+-- lon are not stored.
+CREATE TABLE IF NOT EXISTS route_points (
+    workout_rowid INTEGER NOT NULL,
+    idx INTEGER NOT NULL,
+    lat REAL NOT NULL,
+    lon REAL NOT NULL,
+    altitude REAL,
+    timestamp TEXT,
+    PRIMARY KEY (workout_rowid, idx)
+);
+
+-- Routes of workouts stored before route points were
+INSERT INTO route_points (workout_rowid, idx, lat, lon, altitude, timestamp)
+SELECT workouts.rowid, point.key, json_extract(point.value, '$.lat'), json_extract(point.value, '$.lon'), json_extract(point.value, '$.altitude'), json_extract(point.value, '$.timestamp')
+FROM workouts, json_each(workouts.value, '$.route') AS point
+WHERE json_type(workouts.value, '$.route') = 'array'
+AND json_type(point.value, '$.lat') IN ('integer', 'real')
+AND json_type(point.value, '$.lon') IN ('integer', 'real');
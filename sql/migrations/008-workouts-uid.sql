@@ -0,0 +1,7 @@
+-- Id of each workout in calendar event UIDs and URLs, a sha1 of its identity 
+-- (see getWorkoutUid()). SQLite has no sha1, so DataFile sets it when storing
+-- a workout and for rows without one when the db is opened.
+ALTER TABLE workouts ADD COLUMN uid TEXT;
+
+CREATE INDEX IF NOT EXISTS workouts_user_uid
+on workouts(user, uid);
@@ -0,0 +1,149 @@
+////////////////////////////////////////////////////////////////////////////////
+// BodyTemplate.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+
+import { renderBodyTemplate, validateBodyTemplate } from './BodyTemplate';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for BodyTemplate
+////////////////////////////////////////////////////////////////////////////////
+test( "BodyTemplate tests", async ( t ) => {
+    let sampleData = JSON.stringify({
+        name: "Hiking",
+        start: "2021-09-26 20:00:00 -0500",
+        end: "2021-09-26 21:15:30 -0500",
+        activeEnergy: {
+            qty: 300.4
+        },
+        stepCadence: {
+            qty: 30
+        },
+        distance: {
+            qty: 2.345
+        },
+        speed: {
+            qty: 2
+        },
+        avgHeartRate: {
+            qty: 120
+        },
+        maxHeartRate: {
+            qty: 140
+        },
+        elevation: {
+            ascent: 512.3,
+            descent: 498
+        }
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // renderBodyTemplate() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "renderBodyTemplate() tests", async ( t ) => {
+        await t.test( "{duration} should render as hh:mm:ss", ( t ) => {
+            let body = renderBodyTemplate( "{duration}", JSON.parse( sampleData ) );
+            assert.strictEqual( body, "01:15:30" );
+        });
+
+        await t.test( "{pace} should render as mm:ss per unit distance", ( t ) => {
+            let body = renderBodyTemplate( "{pace}", JSON.parse( sampleData ) );
+            assert.strictEqual( body, "30:00" );
+        });
+
+        await t.test( "quantities should render their qty with default precision", ( t ) => {
+            let body = renderBodyTemplate( "{activeEnergy} / {distance}", JSON.parse( sampleData ) );
+            assert.strictEqual( body, "300 / 2.35" );
+        });
+
+        await t.test( "nested fields and explicit precision should render", ( t ) => {
+            let body = renderBodyTemplate( "{elevation.ascent:1}", JSON.parse( sampleData ) );
+            assert.strictEqual( body, "512.3" );
+        });
+
+        await t.test( "missing optional fields should render as \"-\"", ( t ) => {
+            let body = renderBodyTemplate( "{totalSwimmingStrokeCount}", JSON.parse( sampleData ) );
+            assert.strictEqual( body, "-" );
+        });
+
+        await t.test( "metric unit system should convert quantities and labels", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            workoutData.distance.units = "mi";
+            workoutData.speed.units = "mi/hr";
+
+            let body = renderBodyTemplate( "{distance} {distanceUnit}, {pace} {paceUnit}", workoutData, "metric" );
+            assert.strictEqual( body, "3.77 km, 18:38 /km" );
+        });
+
+        await t.test( "imperial unit system should convert metric quantities", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            workoutData.distance = { qty: 5, units: "km" };
+            workoutData.elevation.units = "m";
+
+            let body = renderBodyTemplate( "{distance} {distanceUnit}, {elevation.ascent} {elevationUnit}", workoutData, "imperial" );
+            assert.strictEqual( body, "3.11 miles, 1681 ft" );
+        });
+
+        await t.test( "unknown placeholders should be left as-is", ( t ) => {
+            let body = renderBodyTemplate( "{animals}", JSON.parse( sampleData ) );
+            assert.strictEqual( body, "{animals}" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // validateBodyTemplate() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "validateBodyTemplate() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "unknown field should be invalid", ( t ) => {
+            assert.strictEqual( validateBodyTemplate( "{duration} {animals}" ).length, 1 );
+        });
+
+        await t.test( "unknown nested field should be invalid", ( t ) => {
+            assert.strictEqual( validateBodyTemplate( "{elevation.animals}" ).length, 1 );
+        });
+
+        await t.test( "object without a value should be invalid", ( t ) => {
+            assert.strictEqual( validateBodyTemplate( "{elevation}" ).length, 1 );
+        });
+
+        await t.test( "arrays should be invalid", ( t ) => {
+            assert.deepStrictEqual( validateBodyTemplate( "{route} {heartRateData}" ), [ 
+                "placeholder \"{route}\" is not a value", 
+                "placeholder \"{heartRateData}\" is not a value" 
+            ]);
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "known fields and calculated values should be valid", ( t ) => {
+            let errors = validateBodyTemplate( "{duration} {pace} {name} {isIndoor} {activeEnergy} {elevation.ascent:1} {totalSwimmingStrokeCount}" );
+            assert.deepStrictEqual( errors, [] );
+        });
+    });
+});
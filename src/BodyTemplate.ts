@@ -0,0 +1,183 @@
+////////////////////////////////////////////////////////////////////////////////
+// BodyTemplate.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import dayjs from 'dayjs';
+import dayjsduration from 'dayjs/plugin/duration';
+dayjs.extend( dayjsduration );
+
+import WorkoutData, { workoutDataSchema } from './WorkoutData';
+import { UnitSystem, getUnitLabel, getWorkoutValue } from './Units';
+
+////////////////////////////////////////////////////////////////////////////////
+// Body templates
+//
+// Calendar event bodies are rendered from templates with {placeholder}s. A 
+// placeholder is either a calculated value ({duration}, {pace}) or the path of
+// a field in WorkoutData ({activeEnergy}, {elevation.ascent}); quantities show
+// their qty converted to the configured unit system, and {distanceUnit}, 
+// {paceUnit}, {speedUnit}, {elevationUnit}, {temperatureUnit} give the matching
+// labels. Numbers are rounded to whole numbers unless a precision is given, 
+// e.g. {speed:1}. Fields missing from a workout are shown as "-".
+////////////////////////////////////////////////////////////////////////////////
+export const defaultBodyTemplate = 
+    "{duration}\n" +
+    "{activeEnergy} calories\n" +
+    "{distance} {distanceUnit}\n" +
+    "\n" +
+    "Pace: {pace} {paceUnit}\n" +
+    "HR: {avgHeartRate} - {maxHeartRate} bpm\n";
+
+export const cadenceBodyTemplate = 
+    "{duration}\n" +
+    "{activeEnergy} calories\n" +
+    "\n" +
+    "Cadence: {stepCadence} spm\n" +
+    "HR: {avgHeartRate} - {maxHeartRate} bpm\n";
+
+export const elevationBodyTemplate = 
+    "{duration}\n" +
+    "{activeEnergy} calories\n" +
+    "{distance} {distanceUnit}\n" +
+    "\n" +
+    "Pace: {pace} {paceUnit}\n" +
+    "Elevation: {elevation.ascent} {elevationUnit}\n" +
+    "HR: {avgHeartRate} - {maxHeartRate} bpm\n";
+
+// Values calculated from more than one field
+const calculatedPlaceholders: { [name: string]: ( aWorkout: WorkoutData, aUnitSystem: UnitSystem ) => string } = {
+    // Duration as [hh:]mm:ss
+    duration: ( aWorkout ) => getDurationString( dayjs.duration( dayjs( aWorkout.end ).diff( aWorkout.start ) ) ),
+
+    // Pace per mile or km as [hh:]mm:ss
+    pace: ( aWorkout, aUnitSystem ) => {
+        let speed = getWorkoutValue( aWorkout, "speed", aUnitSystem );
+        if( !( speed > 0 ) ) {
+            return "-";
+        }
+        return getDurationString( dayjs.duration( 1 / speed * 60 * 60 * 1000 ) );
+    },
+
+    distanceUnit: ( aWorkout, aUnitSystem ) => getUnitLabel( "distance", aUnitSystem ),
+    paceUnit: ( aWorkout, aUnitSystem ) => aUnitSystem === "metric" ? "/km" : "/mi",
+    speedUnit: ( aWorkout, aUnitSystem ) => getUnitLabel( "speed", aUnitSystem ),
+    elevationUnit: ( aWorkout, aUnitSystem ) => getUnitLabel( "elevation.ascent", aUnitSystem ),
+    temperatureUnit: ( aWorkout, aUnitSystem ) => getUnitLabel( "temperature", aUnitSystem )
+};
+
+// Precision used for fields when the placeholder does not give one
+const defaultPrecision: { [name: string]: number } = {
+    distance: 2,
+    speed: 2
+};
+
+const placeholderRegex = /\{([A-Za-z.]+)(?::(\d+))?\}/g;
+
+////////////////////////////////////////////////////////////////////////////////
+// Render aTemplate for aWorkout, showing quantities in aUnitSystem
+////////////////////////////////////////////////////////////////////////////////
+export function renderBodyTemplate( aTemplate: string, aWorkout: WorkoutData, aUnitSystem: UnitSystem = "imperial" ): string {
+    return aTemplate.replace( placeholderRegex, ( aMatch: string, aName: string, aPrecision?: string ) => {
+        if( aName in calculatedPlaceholders ) {
+            return calculatedPlaceholders[aName]( aWorkout, aUnitSystem );
+        }
+
+        if( getFieldSchema( aName ) === null ) {
+            return aMatch;
+        }
+
+        let value = getWorkoutValue( aWorkout, aName, aUnitSystem );
+
+        if( typeof value === "number" ) {
+            let precision = aPrecision !== undefined ? Number( aPrecision ) : ( defaultPrecision[aName] ?? 0 );
+            return value.toFixed( precision );
+        } else if( value === undefined || value === null ) {
+            return "-";
+        }
+
+        return String( value );
+    });
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Check the placeholders in aTemplate against the fields WorkoutData knows 
+// about, returns a list of problems (empty if aTemplate is valid)
+////////////////////////////////////////////////////////////////////////////////
+export function validateBodyTemplate( aTemplate: string ): string[] {
+    let ret: string[] = [];
+
+    aTemplate.replace( placeholderRegex, ( aMatch: string, aName: string ) => {
+        if( !( aName in calculatedPlaceholders ) ) {
+            let fieldSchema = getFieldSchema( aName );
+            if( fieldSchema === null ) {
+                ret.push( "unknown placeholder \"" + aMatch + "\"" );
+            } else if( !isValueSchema( fieldSchema ) ) {
+                ret.push( "placeholder \"" + aMatch + "\" is not a value" );
+            }
+        }
+        return aMatch;
+    });
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the schema for the WorkoutData field at the given dotted aPath, returns
+// null if WorkoutData has no such field
+////////////////////////////////////////////////////////////////////////////////
+function getFieldSchema( aPath: string ): any {
+    let schema: any = workoutDataSchema;
+    for( let key of aPath.split( "." ) ) {
+        if( schema.type !== "object" || !schema.properties || !( key in schema.properties ) ) {
+            return null;
+        }
+        schema = schema.properties[key];
+    }
+    return schema;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Whether the WorkoutData field with aSchema renders as a single value: a 
+// string, number or boolean, or a quantity with a qty. Arrays and other 
+// objects (e.g. route, elevation) do not.
+////////////////////////////////////////////////////////////////////////////////
+function isValueSchema( aSchema: any ): boolean {
+    if( aSchema.type === "object" ) {
+        return "qty" in ( aSchema.properties ?? {} );
+    }
+
+    return [ "string", "number", "boolean" ].indexOf( aSchema.type ) !== -1;
+}
+
+////////////////////////////////////////////////////////////////////////////
+// Get the string representation of aDuration as [hh:]mm:ss
+////////////////////////////////////////////////////////////////////////////
+function getDurationString( aDuration: dayjsduration.Duration ): string {
+    let durationStr = "";
+    if( aDuration.hours() >= 1 ) {
+        durationStr = aDuration.format( "HH:mm:ss" );
+    } else {
+        durationStr = aDuration.format( "mm:ss" );
+    }
+    return durationStr;
+}
@@ -0,0 +1,126 @@
+////////////////////////////////////////////////////////////////////////////////
+// CalendarEvents.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import dayjs from 'dayjs';
+import dayjsutc from 'dayjs/plugin/utc';
+import dayjstimezone from 'dayjs/plugin/timezone';
+dayjs.extend( dayjsutc );
+dayjs.extend( dayjstimezone );
+
+import { ICalCalendar, ICalDateTimeValue, ICalEvent, ICalEventData } from 'ical-generator';
+
+////////////////////////////////////////////////////////////////////////////////
+// CalendarEventData - data for an event with a stable id, so that it can be 
+// found and updated in place
+////////////////////////////////////////////////////////////////////////////////
+export type CalendarEventData = ICalEventData & { 
+    id: string,
+    start: ICalDateTimeValue,
+    summary: string
+};
+
+////////////////////////////////////////////////////////////////////////////////
+// Custom property recording which kind of derived event (e.g. "streak") an 
+// event is, so that replaceCalendarEvents() can find the events it added before
+////////////////////////////////////////////////////////////////////////////////
+const eventKindProperty = "X-WORKOUTS-TO-ICAL-KIND";
+
+////////////////////////////////////////////////////////////////////////////////
+// Create an event in aCalendar from aEventData, or update the event with the
+// same id if aCalendar already has one. Updated events get a new SEQUENCE and
+// LAST-MODIFIED so calendar clients replace their copy, the ones in 
+// aEventData if set (e.g. from the stored history of a workout so that they 
+// survive restarts).
+////////////////////////////////////////////////////////////////////////////////
+export function upsertCalendarEvent( aCalendar: ICalCalendar, aEventData: CalendarEventData ): ICalEvent {
+    let existing = aCalendar.events().find( aEvent => aEvent.id() === aEventData.id );
+    if( existing === undefined ) {
+        return aCalendar.createEvent( aEventData );
+    }
+
+    // Clear end first, setting start after end swaps them
+    existing.end( null );
+    existing.start( aEventData.start );
+    existing.end( aEventData.end ?? null );
+    existing.allDay( aEventData.allDay ?? false );
+    existing.floating( aEventData.floating ?? false );
+    existing.timezone( aEventData.timezone ?? null );
+    existing.summary( aEventData.summary );
+    existing.description( aEventData.description ?? null );
+    existing.location( aEventData.location ?? null );
+    if( aEventData.sequence !== undefined ) {
+        existing.sequence( aEventData.sequence );
+        existing.lastModified( aEventData.lastModified ?? null );
+    } else {
+        existing.sequence( existing.sequence() + 1 );
+        existing.lastModified( new Date() );
+    }
+
+    return existing;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Remove the event with aId from aCalendar, if it has one
+////////////////////////////////////////////////////////////////////////////////
+export function removeCalendarEvent( aCalendar: ICalCalendar, aId: string ) {
+    keepCalendarEvents( aCalendar, aEvent => aEvent.id() !== aId );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Make the events of aKind in aCalendar match aEventData: events of aKind that
+// are not in aEventData are removed, the others are created or updated.
+////////////////////////////////////////////////////////////////////////////////
+export function replaceCalendarEvents( aCalendar: ICalCalendar, aKind: string, aEventData: CalendarEventData[] ) {
+    let ids = aEventData.map( aData => aData.id );
+    keepCalendarEvents( aCalendar, aEvent => {
+        let isKind = aEvent.x().some( aProperty => aProperty.key === eventKindProperty && aProperty.value === aKind );
+        return !isKind || ids.indexOf( aEvent.id() ) !== -1;
+    });
+
+    aEventData.forEach( aData => upsertCalendarEvent( aCalendar, aData ).x( [ [ eventKindProperty, aKind ] ] ) );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Remove the events of aCalendar that aKeep returns false for
+////////////////////////////////////////////////////////////////////////////////
+function keepCalendarEvents( aCalendar: ICalCalendar, aKeep: ( aEvent: ICalEvent ) => boolean ) {
+    let kept = aCalendar.events().filter( aKeep );
+
+    // ical-generator cannot remove single events, so put back the ones to keep
+    if( kept.length !== aCalendar.length() ) {
+        aCalendar.clear();
+        kept.forEach( aEvent => aCalendar.createEvent( aEvent ) );
+    }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the start of an all-day event in aCalendar on aDay ("YYYY-MM-DD"). 
+// All-day events are dates in the calendar's timezone (UTC if it has none), so
+// this is midnight of aDay in that timezone.
+////////////////////////////////////////////////////////////////////////////////
+export function getAllDayEventStart( aCalendar: ICalCalendar, aDay: string ): dayjs.Dayjs {
+    let calendarTimezone = aCalendar.timezone();
+
+    return calendarTimezone ? dayjs.tz( aDay, calendarTimezone ) : dayjs.utc( aDay );
+}
@@ -0,0 +1,107 @@
+////////////////////////////////////////////////////////////////////////////////
+// CalendarProfiles.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+
+import { defaultCalendarWorkoutEventConfig } from './CalendarWorkoutEvent';
+import { getCalendarProfileConfig, getCalendarProfileData, validateCalendarProfiles } from './CalendarProfiles';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for CalendarProfiles
+////////////////////////////////////////////////////////////////////////////////
+test( "CalendarProfiles tests", async ( t ) => {
+    let config = { ...defaultCalendarWorkoutEventConfig, timezone: "America/Chicago" };
+    let profile = { 
+        name: "Running", 
+        querystringSecretVal: "running-secret", 
+        color: "#ff2d55", 
+        workoutTypes: [ { name: "*", title: "Run - {name}" } ], 
+        timedEvents: true 
+    };
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getCalendarProfileConfig() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getCalendarProfileConfig() tests", async ( t ) => {
+        await t.test( "profile settings should override the config", ( t ) => {
+            let profileConfig = getCalendarProfileConfig( profile, config );
+            assert.strictEqual( profileConfig.workoutTypes, profile.workoutTypes );
+            assert.strictEqual( profileConfig.timedEvents, true );
+        });
+
+        await t.test( "settings the profile does not set should come from the config", ( t ) => {
+            let profileConfig = getCalendarProfileConfig( profile, config );
+            assert.strictEqual( profileConfig.bodyTemplate, config.bodyTemplate );
+            assert.strictEqual( profileConfig.timezone, "America/Chicago" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getCalendarProfileData() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getCalendarProfileData() tests", async ( t ) => {
+        await t.test( "should have the profile's name and color", ( t ) => {
+            assert.deepStrictEqual( getCalendarProfileData( profile, config ), {
+                name: "Running",
+                timezone: "America/Chicago",
+                x: [ [ "X-APPLE-CALENDAR-COLOR", "#ff2d55" ] ]
+            });
+        });
+
+        await t.test( "calendarName should be used as the name if set", ( t ) => {
+            assert.strictEqual( getCalendarProfileData( { ...profile, calendarName: "My Runs" }, config ).name, "My Runs" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // validateCalendarProfiles() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "validateCalendarProfiles() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "duplicate and invalid names should be reported", ( t ) => {
+            let errors = validateCalendarProfiles( [ profile, profile, { ...profile, name: "my runs" } ], [ "default" ], config );
+            assert.strictEqual( errors.length, 2 );
+        });
+
+        await t.test( "unknown users and missing secrets should be reported", ( t ) => {
+            let errors = validateCalendarProfiles( [ { ...profile, user: "nobody", querystringSecretVal: "" } ], [ "default" ], config );
+            assert.strictEqual( errors.length, 2 );
+        });
+
+        await t.test( "invalid body templates should be reported", ( t ) => {
+            let errors = validateCalendarProfiles( [ { ...profile, bodyTemplate: "{notAField}" } ], [ "default" ], config );
+            assert.strictEqual( errors.length, 1 );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "valid profiles should have no problems", ( t ) => {
+            assert.deepStrictEqual( validateCalendarProfiles( [ profile, { ...profile, name: "Gym" } ], [ "default" ], config ), [] );
+        });
+    });
+});
@@ -0,0 +1,129 @@
+////////////////////////////////////////////////////////////////////////////////
+// CalendarProfiles.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import { ICalCalendarData } from 'ical-generator';
+
+import CalendarWorkoutEvent, { ICalendarWorkoutEventConfig } from './CalendarWorkoutEvent';
+import { WorkoutFilter } from './WorkoutFilter';
+import { WorkoutTypeRule } from './WorkoutTypes';
+
+////////////////////////////////////////////////////////////////////////////////
+// CalendarProfile - a named calendar of some of a user's workouts, with its own
+// event naming and secret
+////////////////////////////////////////////////////////////////////////////////
+export interface CalendarProfile {
+    // Name in the URL, the calendar is served at /calendars/{name}.ics
+    name: string,
+
+    // Value of the querystringSecretKey param that is checked before serving 
+    // this calendar
+    querystringSecretVal: string,
+
+    // User whose workouts are on the calendar, the default user if not set
+    user?: string,
+
+    // Calendar name shown by calendar clients, name if not set
+    calendarName?: string,
+
+    // Calendar color (e.g. "#ff2d55"), shown by clients that support it
+    color?: string,
+
+    // Workouts to show, all workouts if not set
+    filter?: WorkoutFilter,
+
+    // Event naming: workout type rules and body template to use instead of the
+    // top level ones
+    workoutTypes?: WorkoutTypeRule[],
+    bodyTemplate?: string,
+
+    // All-day vs timed events and collapsing of same-day workouts, instead of
+    // the top level settings
+    timedEvents?: boolean,
+    collapseSameDayWorkouts?: boolean
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the event config of aProfile: aConfig with the settings aProfile 
+// overrides
+////////////////////////////////////////////////////////////////////////////////
+export function getCalendarProfileConfig( aProfile: CalendarProfile, aConfig: ICalendarWorkoutEventConfig ): ICalendarWorkoutEventConfig {
+    return {
+        ...aConfig,
+        workoutTypes: aProfile.workoutTypes ?? aConfig.workoutTypes,
+        bodyTemplate: aProfile.bodyTemplate ?? aConfig.bodyTemplate,
+        timedEvents: aProfile.timedEvents ?? aConfig.timedEvents,
+        collapseSameDayWorkouts: aProfile.collapseSameDayWorkouts ?? aConfig.collapseSameDayWorkouts
+    };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the ical-generator data (name, timezone, color) of the calendar of 
+// aProfile
+////////////////////////////////////////////////////////////////////////////////
+export function getCalendarProfileData( aProfile: CalendarProfile, aConfig: ICalendarWorkoutEventConfig ): ICalCalendarData {
+    let ret: ICalCalendarData = {
+        name: aProfile.calendarName ?? aProfile.name,
+        timezone: aConfig.timezone
+    };
+
+    if( aProfile.color !== undefined ) {
+        ret.x = [ [ "X-APPLE-CALENDAR-COLOR", aProfile.color ] ];
+    }
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Check aProfiles for problems, with aUserNames the names of the configured 
+// users. Returns a list of problems (empty if aProfiles are valid).
+////////////////////////////////////////////////////////////////////////////////
+export function validateCalendarProfiles( aProfiles: CalendarProfile[], aUserNames: string[], aConfig: ICalendarWorkoutEventConfig ): string[] {
+    let ret: string[] = [];
+    let names: string[] = [];
+
+    aProfiles.forEach( aProfile => {
+        let prefix = "calendars \"" + aProfile.name + "\": ";
+
+        if( !/^[A-Za-z0-9_-]+$/.test( aProfile.name ) ) {
+            ret.push( prefix + "name must only have letters, numbers, - and _" );
+        } else if( names.indexOf( aProfile.name ) !== -1 ) {
+            ret.push( prefix + "has the same name as another calendar" );
+        }
+        names.push( aProfile.name );
+
+        if( !aProfile.querystringSecretVal ) {
+            ret.push( prefix + "has no querystringSecretVal" );
+        }
+
+        if( aProfile.user !== undefined && aUserNames.indexOf( aProfile.user ) === -1 ) {
+            ret.push( prefix + "unknown user \"" + aProfile.user + "\"" );
+        }
+
+        if( aProfile.workoutTypes !== undefined || aProfile.bodyTemplate !== undefined ) {
+            CalendarWorkoutEvent.validateConfig( getCalendarProfileConfig( aProfile, aConfig ) ).forEach( aError => ret.push( prefix + aError ) );
+        }
+    });
+
+    return ret;
+}
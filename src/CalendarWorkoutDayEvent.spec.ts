@@ -0,0 +1,136 @@
+////////////////////////////////////////////////////////////////////////////////
+// CalendarWorkoutDayEvent.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+
+import ical from 'ical-generator';
+
+import CalendarWorkoutEvent, { defaultCalendarWorkoutEventConfig } from './CalendarWorkoutEvent';
+import CalendarWorkoutDayEvent from './CalendarWorkoutDayEvent';
+
+////////////////////////////////////////////////////////////////////////////////
+// Create the CalendarWorkoutEvent of a workout named aName starting at aStart
+////////////////////////////////////////////////////////////////////////////////
+function createEvent( aName: string, aStart: string ): CalendarWorkoutEvent {
+    let event = CalendarWorkoutEvent.createFromWorkoutData({
+        name: aName,
+        start: aStart + " -0500",
+        end: aStart.replace( / (\d\d):/, ( aMatch, aHour ) => " " + String( Number( aHour ) + 1 ).padStart( 2, "0" ) + ":" ) + " -0500",
+        activeEnergy: { qty: 100 },
+        stepCadence: { qty: 30 },
+        distance: { qty: 1 },
+        speed: { qty: 4 },
+        avgHeartRate: { qty: 120 },
+        maxHeartRate: { qty: 140 }
+    }, defaultCalendarWorkoutEventConfig );
+
+    if( event === null ) {
+        throw new Error( "could not create event" );
+    }
+
+    return event;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for CalendarWorkoutDayEvent
+////////////////////////////////////////////////////////////////////////////////
+test( "CalendarWorkoutDayEvent tests", async ( t ) => {
+    let events = [
+        createEvent( "Walking", "2024-03-02 08:00:00" ),
+        createEvent( "Walking", "2024-03-01 07:30:00" ),
+        createEvent( "Running", "2024-03-01 06:45:00" ),
+        createEvent( "Walking", "2024-03-01 06:00:00" ),
+        createEvent( "Hiking", "2024-03-03 09:00:00" ),
+        createEvent( "Walking", "2024-03-03 12:00:00" )
+    ];
+    let dayEvents = CalendarWorkoutDayEvent.createFromEvents( events, "imperial", "default" );
+
+    ////////////////////////////////////////////////////////////////////////////
+    // createFromEvents() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "createFromEvents() tests", async ( t ) => {
+        await t.test( "should create one event per day in order", ( t ) => {
+            assert.deepStrictEqual( dayEvents.map( aEvent => aEvent.getDay() ), [ "2024-03-01", "2024-03-02", "2024-03-03" ] );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getId() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getId() tests", async ( t ) => {
+        await t.test( "should differ between calendars for the same day", ( t ) => {
+            let otherDayEvents = CalendarWorkoutDayEvent.createFromEvents( events, "imperial", "alex" );
+            assert.strictEqual( otherDayEvents[0].getDay(), dayEvents[0].getDay() );
+            assert.notStrictEqual( otherDayEvents[0].getId(), dayEvents[0].getId() );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getName() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getName() tests", async ( t ) => {
+        await t.test( "should list distinct workout types in order with their common prefix", ( t ) => {
+            assert.strictEqual( dayEvents[0].getName(), "Cardio - walk + run" );
+        });
+
+        await t.test( "should be the workout's name for a single workout", ( t ) => {
+            assert.strictEqual( dayEvents[1].getName(), "Cardio - walk" );
+        });
+
+        await t.test( "should join full names without a common prefix", ( t ) => {
+            assert.strictEqual( dayEvents[2].getName(), "Hiking + Cardio - walk" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getBody() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getBody() tests", async ( t ) => {
+        await t.test( "should have a section per workout and the day's totals", ( t ) => {
+            let body = dayEvents[0].getBody();
+            assert.strictEqual( body.split( "Cardio - " ).length - 1, 3 );
+            assert.ok( body.indexOf( events[3].getBody() ) !== -1 );
+            assert.match( body, /Total: 3 workouts · 3h00m · 3\.00 miles · 300 calories\n$/ );
+        });
+
+        await t.test( "should not have totals for a single workout", ( t ) => {
+            assert.strictEqual( dayEvents[1].getBody(), "Cardio - walk\n" + events[0].getBody() );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // addToCalendar() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "addToCalendar() tests", async ( t ) => {
+        await t.test( "should replace the event of the same day", ( t ) => {
+            let calendar = ical();
+            dayEvents[0].addToCalendar( calendar );
+            CalendarWorkoutDayEvent.createFromEvents( events.slice( 1, 3 ), "imperial", "default" )[0].addToCalendar( calendar );
+            assert.strictEqual( calendar.length(), 1 );
+            assert.strictEqual( calendar.events()[0].summary(), "Cardio - run + walk" );
+            assert.strictEqual( calendar.events()[0].sequence(), 1 );
+        });
+    });
+});
@@ -0,0 +1,142 @@
+////////////////////////////////////////////////////////////////////////////////
+// CalendarWorkoutDayEvent.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import crypto from 'crypto';
+
+import dayjs from 'dayjs';
+
+import { ICalCalendar } from 'ical-generator';
+
+import CalendarWorkoutEvent from './CalendarWorkoutEvent';
+import { getAllDayEventStart, upsertCalendarEvent } from './CalendarEvents';
+import { calcTotals, formatTotals } from './Summaries';
+import { UnitSystem } from './Units';
+
+////////////////////////////////////////////////////////////////////////////////
+// CalendarWorkoutDayEvent - represents all workouts of one day, shown as a 
+// single all-day event on a calendar
+////////////////////////////////////////////////////////////////////////////////
+export default class CalendarWorkoutDayEvent {
+
+    // Day of the event, YYYY-MM-DD
+    private day: string;
+
+    // Events of the day's workouts, in order of start
+    private events: CalendarWorkoutEvent[];
+
+    // Unit system the totals are shown in
+    private unitSystem: UnitSystem;
+
+    // Id of the calendar the event is for (e.g. the user name), part of its UID
+    private calendarId: string;
+
+    ////////////////////////////////////////////////////////////////////////////
+    // constructor - use CalendarWorkoutDayEvent.createFromEvents
+    ////////////////////////////////////////////////////////////////////////////
+    private constructor( aDay: string, aEvents: CalendarWorkoutEvent[], aUnitSystem: UnitSystem, aCalendarId: string ) {
+        this.day = aDay;
+        this.events = aEvents;
+        this.unitSystem = aUnitSystem;
+        this.calendarId = aCalendarId;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Group aEvents by day into a CalendarWorkoutDayEvent for each day, ordered
+    // by day, for the calendar with aCalendarId
+    ////////////////////////////////////////////////////////////////////////////
+    public static createFromEvents( aEvents: CalendarWorkoutEvent[], aUnitSystem: UnitSystem, aCalendarId: string ): CalendarWorkoutDayEvent[] {
+        let days: { [day: string]: CalendarWorkoutEvent[] } = {};
+        aEvents.forEach( aEvent => {
+            days[aEvent.getDay()] = ( days[aEvent.getDay()] ?? [] ).concat( [ aEvent ] );
+        });
+
+        return Object.keys( days ).sort().map( aDay => {
+            let events = days[aDay].sort( ( aA, aB ) => dayjs( aA.getWorkout().start ).diff( aB.getWorkout().start ) );
+            return new CalendarWorkoutDayEvent( aDay, events, aUnitSystem, aCalendarId );
+        });
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the calendar event UID for this CalendarWorkoutDayEvent, stable for
+    // the same day of the same calendar so that clients see updates as 
+    // workouts are added
+    ////////////////////////////////////////////////////////////////////////////
+    public getId(): string {
+        return crypto.createHash( "sha1" ).update( "day|" + this.calendarId + "|" + this.day ).digest( "hex" );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the day (YYYY-MM-DD) of this CalendarWorkoutDayEvent
+    ////////////////////////////////////////////////////////////////////////////
+    public getDay(): string {
+        return this.day;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the calendar event name: the distinct names of the day's workouts in
+    // order, sharing their common "Category - " prefix (e.g. "Cardio - walk + 
+    // run")
+    ////////////////////////////////////////////////////////////////////////////
+    public getName(): string {
+        let names = this.events
+            .map( aEvent => aEvent.getName() )
+            .filter( ( aName, aIndex, aNames ) => aNames.indexOf( aName ) === aIndex );
+
+        let separator = " - ";
+        let prefix = names[0].split( separator )[0] + separator;
+        if( names.length > 1 && names.every( aName => aName.indexOf( prefix ) === 0 && aName.length > prefix.length ) ) {
+            return prefix + names.map( aName => aName.substring( prefix.length ) ).join( " + " );
+        }
+
+        return names.join( " + " );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the calendar event body: a section for each workout with its name 
+    // and body, then the day's totals
+    ////////////////////////////////////////////////////////////////////////////
+    public getBody(): string {
+        let ret = this.events.map( aEvent => aEvent.getName() + "\n" + aEvent.getBody() ).join( "\n" );
+
+        if( this.events.length > 1 ) {
+            ret += "\nTotal: " + formatTotals( calcTotals( this.events.map( aEvent => aEvent.getWorkout() ), this.unitSystem ), this.unitSystem ) + "\n";
+        }
+
+        return ret;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Add this CalendarWorkoutDayEvent to aCalendar as an all-day event, 
+    // replacing the event previously added for the same day
+    ////////////////////////////////////////////////////////////////////////////
+    public addToCalendar( aCalendar: ICalCalendar ) {
+        upsertCalendarEvent( aCalendar, {
+            id: this.getId(),
+            start: getAllDayEventStart( aCalendar, this.day ),
+            allDay: true,
+            summary: this.getName(),
+            description: this.getBody()
+        });
+    }
+}
@@ -24,8 +24,9 @@
 
 import test from "node:test";
 import assert from "node:assert";
+import * as fs from "fs";
 
-import CalendarWorkoutEvent from './CalendarWorkoutEvent';
+import CalendarWorkoutEvent, { defaultCalendarWorkoutEventConfig } from './CalendarWorkoutEvent';
 
 import ical from 'ical-generator';
 
@@ -154,12 +155,12 @@ test( "CalendarWorkoutEvent tests", async ( t ) => {
             assert.strictEqual( cwe, null );
         });
 
-        await t.test( "CalendarWorkoutEvent from data with no stepCadence should be null", ( t ) => {
+        await t.test( "CalendarWorkoutEvent from data with no stepCadence should not be null", ( t ) => {
             let workoutData = JSON.parse( sampleData );
             delete workoutData.stepCadence;
     
             let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
-            assert.strictEqual( cwe, null );
+            assert.notStrictEqual( cwe, null );
         });
 
         await t.test( "CalendarWorkoutEvent from data with no stepCadence.qty should be null", ( t ) => {
@@ -170,12 +171,12 @@ test( "CalendarWorkoutEvent tests", async ( t ) => {
             assert.strictEqual( cwe, null );
         });
 
-        await t.test( "CalendarWorkoutEvent from data with no distance should be null", ( t ) => {
+        await t.test( "CalendarWorkoutEvent from data with no distance should not be null", ( t ) => {
             let workoutData = JSON.parse( sampleData );
             delete workoutData.distance;
     
             let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
-            assert.strictEqual( cwe, null );
+            assert.notStrictEqual( cwe, null );
         });
 
         await t.test( "CalendarWorkoutEvent from data with no distance.qty should be null", ( t ) => {
@@ -186,12 +187,12 @@ test( "CalendarWorkoutEvent tests", async ( t ) => {
             assert.strictEqual( cwe, null );
         });
 
-        await t.test( "CalendarWorkoutEvent from data with no speed should be null", ( t ) => {
+        await t.test( "CalendarWorkoutEvent from data with no speed should not be null", ( t ) => {
             let workoutData = JSON.parse( sampleData );
             delete workoutData.speed;
     
             let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
-            assert.strictEqual( cwe, null );
+            assert.notStrictEqual( cwe, null );
         });
 
         await t.test( "CalendarWorkoutEvent from data with no speed.qty should be null", ( t ) => {
@@ -233,6 +234,22 @@ test( "CalendarWorkoutEvent tests", async ( t ) => {
             let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
             assert.strictEqual( cwe, null );
         });
+
+        await t.test( "CalendarWorkoutEvent from data with invalid route should be null", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            workoutData.route = [ { lat: "41.87", lon: -87.62 } ];
+    
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
+            assert.strictEqual( cwe, null );
+        });
+
+        await t.test( "CalendarWorkoutEvent from data with route points missing lat or lon should not be null", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            workoutData.route = [ { lat: 41.87 }, { lat: 41.87, lon: -87.62 } ];
+    
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
+            assert.notStrictEqual( cwe, null );
+        });
     });
 
     ////////////////////////////////////////////////////////////////////////////
@@ -350,6 +367,14 @@ test( "CalendarWorkoutEvent tests", async ( t ) => {
                 assert.match( assertNonNull( cwe ).getBody(), /miles/ );
             });
     
+            await t.test( "Non-Elliptical body should contain \"km\" with metric units", ( t ) => {
+                let workoutData = JSON.parse( sampleData );
+                workoutData.name = "Outdoor Run";
+        
+                let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, unitSystem: "metric" } );
+                assert.match( assertNonNull( cwe ).getBody(), /1\.61 km/ );
+            });
+    
             await t.test( "Hiking should be named \"Hiking\"", ( t ) => {
                 let workoutData = JSON.parse( sampleData );
                 workoutData.name = "Hiking";
@@ -357,14 +382,169 @@ test( "CalendarWorkoutEvent tests", async ( t ) => {
                 let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
                 assert.strictEqual( assertNonNull( cwe ).getName(), "Hiking" );
             });
+
+            await t.test( "body should show heart rate zones and recovery when configured", ( t ) => {
+                let workoutData = JSON.parse( sampleData );
+                workoutData.heartRateData = [ 
+                    { date: "2021-09-26 20:00:00 -0500", qty: 125 }, 
+                    { date: "2021-09-26 20:00:30 -0500", qty: 145 }, 
+                    { date: "2021-09-26 20:01:00 -0500", qty: 150 } 
+                ];
+                workoutData.heartRateRecovery = [ { date: "2021-09-26 20:16:00 -0500", qty: 122 } ];
+
+                let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, heartRateZones: { bpm: [ 100, 120, 140 ] } } );
+                assert.match( assertNonNull( cwe ).getBody(), /\nZ2 0:30 · Z3 1:30 · HRR 28\n$/ );
+                assert.doesNotMatch( assertNonNull( CalendarWorkoutEvent.createFromWorkoutData( workoutData ) ).getBody(), /HRR/ );
+            });
+
+            await t.test( "workout that set personal records should be marked in title and body", ( t ) => {
+                let workoutData = JSON.parse( sampleData );
+                let record = { type: "Cardio - walk", record: "distance", label: "Longest distance", value: 1, text: "1.00 miles", workoutId: "", start: workoutData.start, previous: 0.5 };
+
+                let cwe = assertNonNull( CalendarWorkoutEvent.createFromWorkoutData( workoutData, defaultCalendarWorkoutEventConfig, [ record ] ) );
+                assert.strictEqual( cwe.getName(), "🏆 Cardio - walk" );
+                assert.match( cwe.getBody(), /\n🏆 Longest distance: 1\.00 miles\n$/ );
+            });
+
+            await t.test( "body should link to the workout page when configured", ( t ) => {
+                let workoutData = JSON.parse( sampleData );
+                let link = { baseUrl: "https://example.com/workouts-to-ical/", secret: "secret" };
+
+                let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, workoutPageLink: link } );
+                assert.match( assertNonNull( cwe ).getBody(), /\nFull workout: https:\/\/example\.com\/workouts-to-ical\/workouts\/[0-9a-f]{40}\?token=[0-9a-f]{32}\n$/ );
+                assert.doesNotMatch( assertNonNull( CalendarWorkoutEvent.createFromWorkoutData( workoutData ) ).getBody(), /Full workout/ );
+            });
         });
     });    
 
+    ////////////////////////////////////////////////////////////////////////////
+    // getId() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getId()", async ( t ) => {
+        await t.test( "same workout should always get the same id", ( t ) => {
+            let first = CalendarWorkoutEvent.createFromWorkoutData( JSON.parse( sampleData ) );
+            let second = CalendarWorkoutEvent.createFromWorkoutData( JSON.parse( sampleData ) );
+            assert.strictEqual( assertNonNull( first ).getId(), assertNonNull( second ).getId() );
+        });
+
+        await t.test( "workouts with different starts should get different ids", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            let first = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
+            workoutData.start = "2021-09-27 20:00:00 -0500";
+            let second = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
+            assert.notStrictEqual( assertNonNull( first ).getId(), assertNonNull( second ).getId() );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Tests for workout type rules given in config
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "workout type rules", async ( t ) => {
+        await t.test( "Workout matching no configured rule should be null", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            workoutData.name = "Yoga";
+
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, workoutTypes: [
+                { name: "Walking", title: "Walk" }
+            ]});
+            assert.strictEqual( cwe, null );
+        });
+
+        await t.test( "First matching rule should be used", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            workoutData.name = "Yoga";
+
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, workoutTypes: [
+                { name: "Yoga", title: "Stretch" },
+                { name: "*", title: "Other" }
+            ]});
+            assert.strictEqual( assertNonNull( cwe ).getName(), "Stretch" );
+        });
+
+        await t.test( "Rule with isIndoor should only match workouts with that isIndoor", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            workoutData.name = "Cycling";
+            let workoutTypes = [
+                { name: "Cycling", isIndoor: true, title: "Spin" },
+                { name: "Cycling", title: "Ride" }
+            ];
+
+            workoutData.isIndoor = true;
+            let indoorCwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, workoutTypes: workoutTypes } );
+            assert.strictEqual( assertNonNull( indoorCwe ).getName(), "Spin" );
+
+            delete workoutData.isIndoor;
+            let outdoorCwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, workoutTypes: workoutTypes } );
+            assert.strictEqual( assertNonNull( outdoorCwe ).getName(), "Ride" );
+        });
+
+        await t.test( "Wildcard rule should match any workout and substitute {name}", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            workoutData.name = "Swimming";
+
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, workoutTypes: [
+                { name: "*", title: "Workout - {name}" }
+            ]});
+            assert.strictEqual( assertNonNull( cwe ).getName(), "Workout - Swimming" );
+        });
+
+        await t.test( "Workout without distance, speed or cadence should match a wildcard rule", ( t ) => {
+            let workoutData = JSON.parse( fs.readFileSync( "test-data/workoutStrength.json", 'utf8' ) ).workouts[0];
+
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, workoutTypes: [
+                { name: "*", title: "Workout - {name}" }
+            ]});
+            assert.strictEqual( assertNonNull( cwe ).getName(), "Workout - Traditional Strength Training" );
+            assert.strictEqual( assertNonNull( cwe ).getBody(), "42:31\n212 calories\n- miles\n\nPace: - /mi\nHR: 121 - 141 bpm\n" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Tests for body templates given in config
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "body templates", async ( t ) => {
+        await t.test( "Rule bodyTemplate should be used for matching workouts", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { 
+                ...defaultCalendarWorkoutEventConfig,
+                workoutTypes: [ { name: "*", title: "Workout", bodyTemplate: "HR {avgHeartRate}" } ],
+                bodyTemplate: "{duration}"
+            });
+            assert.strictEqual( assertNonNull( cwe ).getBody(), "HR 120" );
+        });
+
+        await t.test( "Config bodyTemplate should be used for rules without a bodyTemplate", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { 
+                ...defaultCalendarWorkoutEventConfig,
+                workoutTypes: [ { name: "*", title: "Workout" } ],
+                bodyTemplate: "{duration}"
+            });
+            assert.strictEqual( assertNonNull( cwe ).getBody(), "15:00" );
+        });
+
+        await t.test( "validateConfig() should report invalid templates", ( t ) => {
+            let errors = CalendarWorkoutEvent.validateConfig({ 
+                ...defaultCalendarWorkoutEventConfig,
+                workoutTypes: [ { name: "*", title: "Workout", bodyTemplate: "{animals}" } ],
+                bodyTemplate: "{plants}"
+            });
+            assert.strictEqual( errors.length, 2 );
+        });
+
+        await t.test( "validateConfig() should accept the default config", ( t ) => {
+            let errors = CalendarWorkoutEvent.validateConfig( defaultCalendarWorkoutEventConfig );
+            assert.deepStrictEqual( errors, [] );
+        });
+    });
+
     ////////////////////////////////////////////////////////////////////////////
     // addToCalendar() tests
     ////////////////////////////////////////////////////////////////////////////
-    t.test( "addToCalendar()", ( t ) => {
-        t.test( "CalendarWorkoutEvent should add one event to the given ical", ( t ) => {
+    await t.test( "addToCalendar()", async ( t ) => {
+        await t.test( "CalendarWorkoutEvent should add one event to the given ical", ( t ) => {
             let workoutData = JSON.parse( sampleData );
             let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
 
@@ -372,5 +552,132 @@ test( "CalendarWorkoutEvent tests", async ( t ) => {
             assertNonNull( cwe ).addToCalendar( calendar );
             assert.strictEqual( calendar.length(), 1 );
         });
+
+        await t.test( "adding the same workout again should update its event in place", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            let calendar = ical();
+            assertNonNull( CalendarWorkoutEvent.createFromWorkoutData( workoutData ) ).addToCalendar( calendar );
+
+            workoutData.activeEnergy.qty = 150;
+            let cwe = assertNonNull( CalendarWorkoutEvent.createFromWorkoutData( workoutData ) );
+            cwe.addToCalendar( calendar );
+
+            assert.strictEqual( calendar.length(), 1 );
+            assert.strictEqual( calendar.events()[0].id(), cwe.getId() );
+            assert.strictEqual( calendar.events()[0].description()?.plain, cwe.getBody() );
+            assert.strictEqual( calendar.events()[0].sequence(), 1 );
+            assert.notStrictEqual( calendar.events()[0].lastModified(), null );
+        });
+
+        await t.test( "event of a workout with a stored revision should have its SEQUENCE and LAST-MODIFIED", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            let lastModified = new Date( "2024-03-01T10:00:00.000Z" );
+            let calendar = ical();
+            assertNonNull( CalendarWorkoutEvent.createFromWorkoutData( workoutData, undefined, [], { sequence: 2, lastModified } ) ).addToCalendar( calendar );
+            assertNonNull( CalendarWorkoutEvent.createFromWorkoutData( workoutData, undefined, [], { sequence: 2, lastModified } ) ).addToCalendar( calendar );
+
+            assert.strictEqual( calendar.length(), 1 );
+            assert.strictEqual( calendar.events()[0].sequence(), 2 );
+            assert.deepStrictEqual( calendar.events()[0].lastModified(), lastModified );
+            assert.match( calendar.toString(), /SEQUENCE:2/ );
+            assert.match( calendar.toString(), /LAST-MODIFIED:20240301T100000Z/ );
+        });
+
+        await t.test( "event should have no location without a route", ( t ) => {
+            let calendar = ical();
+            assertNonNull( CalendarWorkoutEvent.createFromWorkoutData( JSON.parse( sampleData ) ) ).addToCalendar( calendar );
+            assert.strictEqual( calendar.events()[0].location(), null );
+            assert.doesNotMatch( calendar.toString(), /GEO:/ );
+        });
+
+        await t.test( "event location should be the start of the route", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            workoutData.route = [ { lat: 41.878114, lon: -87.629798 }, { lat: 41.879, lon: -87.63 } ];
+
+            let calendar = ical();
+            assertNonNull( CalendarWorkoutEvent.createFromWorkoutData( workoutData ) ).addToCalendar( calendar );
+            assert.deepStrictEqual( calendar.events()[0].location(), { title: "41.87811, -87.62980", geo: { lat: 41.878114, lon: -87.629798 } } );
+            assert.match( calendar.toString(), /GEO:41.878114;-87.629798/ );
+
+            // The location should be removed when an update drops the route
+            delete workoutData.route;
+            assertNonNull( CalendarWorkoutEvent.createFromWorkoutData( workoutData ) ).addToCalendar( calendar );
+            assert.strictEqual( calendar.events()[0].location(), null );
+        });
+
+        await t.test( "all-day CalendarWorkoutEvent should be an all-day event", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData );
+
+            let calendar = ical();
+            assertNonNull( cwe ).addToCalendar( calendar );
+            assert.strictEqual( calendar.events()[0].allDay(), true );
+        });
+
+        await t.test( "timed CalendarWorkoutEvent should start and end at the local time of the workout", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, timedEvents: true } );
+
+            let calendar = ical();
+            assertNonNull( cwe ).addToCalendar( calendar );
+            let ics = calendar.toString();
+            assert.match( ics, /DTSTART:20210926T200000\r\n/ );
+            assert.match( ics, /DTEND:20210926T201500\r\n/ );
+        });
+
+        await t.test( "timed CalendarWorkoutEvent with a timezone should be in that timezone", ( t ) => {
+            let workoutData = JSON.parse( sampleData );
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, timedEvents: true, timezone: "America/New_York" } );
+
+            let calendar = ical({ timezone: "America/New_York" });
+            assertNonNull( cwe ).addToCalendar( calendar );
+            assert.match( calendar.toString(), /DTSTART;TZID=America\/New_York:20210926T210000\r\n/ );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Tests for the day all-day events are placed on
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "all-day event day", async ( t ) => {
+        let serverTimezone = process.env.TZ;
+
+        // Run each test with a server timezone far from the workout's offset
+        t.beforeEach( () => { process.env.TZ = "Asia/Tokyo"; } );
+        t.afterEach( () => {
+            if( serverTimezone === undefined ) {
+                delete process.env.TZ;
+            } else {
+                process.env.TZ = serverTimezone;
+            }
+        });
+
+        function getEventDate( aStart: string, aConfigTimezone: string | null ) {
+            let workoutData = JSON.parse( sampleData );
+            workoutData.start = aStart;
+            let cwe = CalendarWorkoutEvent.createFromWorkoutData( workoutData, { ...defaultCalendarWorkoutEventConfig, timezone: aConfigTimezone } );
+
+            let calendar = ical({ timezone: aConfigTimezone });
+            assertNonNull( cwe ).addToCalendar( calendar );
+            return /DTSTART;VALUE=DATE:(\d+)/.exec( calendar.toString() )?.[1];
+        }
+
+        await t.test( "late evening workout should be on the day of its recorded offset", ( t ) => {
+            assert.strictEqual( getEventDate( "2023-06-06 23:50:00 -0500", null ), "20230606" );
+        });
+
+        await t.test( "just after midnight workout should be on the day of its recorded offset", ( t ) => {
+            assert.strictEqual( getEventDate( "2023-06-07 00:10:00 -0500", null ), "20230607" );
+        });
+
+        await t.test( "workout should be on the day of the configured timezone", ( t ) => {
+            assert.strictEqual( getEventDate( "2023-06-06 23:50:00 -0500", "Asia/Tokyo" ), "20230607" );
+            assert.strictEqual( getEventDate( "2023-06-06 23:50:00 -0500", "America/Chicago" ), "20230606" );
+            assert.strictEqual( getEventDate( "2023-06-07 00:10:00 -0400", "America/Chicago" ), "20230606" );
+        });
+
+        await t.test( "validateConfig() should report an unknown timezone", ( t ) => {
+            let errors = CalendarWorkoutEvent.validateConfig( { ...defaultCalendarWorkoutEventConfig, timezone: "Mars/Olympus_Mons" } );
+            assert.strictEqual( errors.length, 1 );
+        });
     });
 });
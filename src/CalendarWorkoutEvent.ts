@@ -23,14 +23,75 @@
 ////////////////////////////////////////////////////////////////////////////////
 
 import dayjs from 'dayjs';
-import dayjsduration from 'dayjs/plugin/duration';
 import dayjsutc from 'dayjs/plugin/utc';
-dayjs.extend( dayjsduration );
+import dayjstimezone from 'dayjs/plugin/timezone';
 dayjs.extend( dayjsutc );
+dayjs.extend( dayjstimezone );
 
-import { ICalCalendar } from 'ical-generator';
+import { ICalCalendar, ICalLocation } from 'ical-generator';
 
-import WorkoutData, { isWorkoutData } from './WorkoutData';
+import WorkoutData, { getWorkoutDay, getWorkoutUid, isWorkoutData, parseWorkoutTimestamp } from './WorkoutData';
+import { CalendarEventData, getAllDayEventStart, upsertCalendarEvent } from './CalendarEvents';
+import { defaultBodyTemplate, renderBodyTemplate, validateBodyTemplate } from './BodyTemplate';
+import { UnitSystem } from './Units';
+import { WorkoutPageLink, getWorkoutPageUrl } from './WorkoutPage';
+import { HeartRateZones, calcHeartRateAnalysis, formatHeartRateAnalysis } from './HeartRateZones';
+import { PersonalRecord, PersonalRecordsConfig, calcPersonalRecords, formatPersonalRecord } from './PersonalRecords';
+import { getRoutePoints } from './Routes';
+import { WorkoutTypeRule, defaultWorkoutTypes, findWorkoutTypeRule, getWorkoutTypeTitle } from './WorkoutTypes';
+import { WorkoutRevision } from './DataFile';
+
+////////////////////////////////////////////////////////////////////////////////
+// ICalendarWorkoutEventConfig
+////////////////////////////////////////////////////////////////////////////////
+export interface ICalendarWorkoutEventConfig {
+    // Rules mapping Auto Export workout names to calendar event titles, first
+    // matching rule wins. Workouts that match no rule are not put on a calendar.
+    workoutTypes: WorkoutTypeRule[],
+
+    // Template for event bodies, used for workout types without a bodyTemplate
+    bodyTemplate: string,
+
+    // Unit system quantities are shown in, whatever units the data was posted in
+    unitSystem: UnitSystem,
+
+    // Create timed events at the time of the workout instead of all-day events
+    timedEvents: boolean,
+
+    // IANA timezone of the user (e.g. "America/Chicago") used to place events,
+    // if null the UTC offset recorded with each workout is used
+    timezone: string | null,
+
+    // Show all workouts of a day as one all-day event (ignored for timed 
+    // events), see CalendarWorkoutDayEvent
+    collapseSameDayWorkouts: boolean,
+
+    // Heart rate zones to show the time in, with heart rate recovery, in event
+    // bodies (e.g. "Z2 22:10 · Z3 8:04 · HRR 28"); nothing is shown if null
+    heartRateZones: HeartRateZones | null,
+
+    // Personal records to track; workouts that set one get "🏆" in their title
+    // and the record in their body. No records are tracked if null.
+    personalRecords: PersonalRecordsConfig | null,
+
+    // Link each event to the detail page of its workout (set per user by 
+    // WorkoutsToIcalApp), no link if missing or null
+    workoutPageLink?: WorkoutPageLink | null
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// defaultCalendarWorkoutEventConfig
+////////////////////////////////////////////////////////////////////////////////
+export const defaultCalendarWorkoutEventConfig: ICalendarWorkoutEventConfig = {
+    workoutTypes: defaultWorkoutTypes,
+    bodyTemplate: defaultBodyTemplate,
+    unitSystem: "imperial",
+    timedEvents: false,
+    timezone: null,
+    collapseSameDayWorkouts: false,
+    heartRateZones: null,
+    personalRecords: null
+};
 
 ////////////////////////////////////////////////////////////////////////////////
 // CalendarWorkoutEvent - represents a workout to be shown on a calendar
@@ -38,43 +99,59 @@ import WorkoutData, { isWorkoutData } from './WorkoutData';
 export default class CalendarWorkoutEvent {
 
     // Underlying workout data
+    private workout: WorkoutData;
+    private id: string;
     private start: string;
+    private end: string;
     private name: string;
     private body: string;
-
-    // Workout names that we want to push to a calendar
-    private static allowedWorkoutNames = {
-        "Walking": true,
-        "Running": true,
-        "Elliptical": true,
-        "Hiking": true,
-        "Indoor Walk": true,
-        "Outdoor Walk": true,
-        "Outdoor Run": true,
-        "Indoor Run": true
-    }
+    private timed: boolean;
+    private timezone: string | null;
+    private location: ICalLocation | null;
+    private revision: WorkoutRevision | null;
 
     ////////////////////////////////////////////////////////////////////////////
     // constructor - use CalendarWorkoutEvent.createFromWorkoutData
     ////////////////////////////////////////////////////////////////////////////
     private constructor(
-        aWorkout: any
+        aWorkout: any,
+        aRule: WorkoutTypeRule,
+        aConfig: ICalendarWorkoutEventConfig,
+        aRecords: PersonalRecord[],
+        aRevision: WorkoutRevision | null
     ) {
-        this.name = CalendarWorkoutEvent.calcName( aWorkout );
-        this.body = CalendarWorkoutEvent.calcBody( aWorkout );
+        this.workout = aWorkout;
+        this.id = CalendarWorkoutEvent.calcId( aWorkout );
+        this.name = CalendarWorkoutEvent.calcName( aWorkout, aRule, aRecords );
+        this.body = CalendarWorkoutEvent.calcBody( aWorkout, aRule, aConfig, aRecords );
         this.start = aWorkout.start;
+        this.end = aWorkout.end;
+        this.timed = aConfig.timedEvents;
+        this.timezone = aConfig.timezone;
+        this.location = CalendarWorkoutEvent.calcLocation( aWorkout );
+        this.revision = aRevision;
     }
 
     ////////////////////////////////////////////////////////////////////////////
-    // Create a CalendarWorkoutEvent from the given aData. Returns null if
-    // we cannot create a CalendarWorkoutEvent from the given aData.
+    // Create a CalendarWorkoutEvent from the given aData, marked with the 
+    // personal aRecords it set (see PersonalRecords.ts). aRevision is the 
+    // stored revision of the workout (see DataFile.getWorkoutRevisions()), if
+    // null the calendar keeps count of updates itself. Returns null if we 
+    // cannot create a CalendarWorkoutEvent from the given aData.
     ////////////////////////////////////////////////////////////////////////////
-    public static createFromWorkoutData( aData: any ): CalendarWorkoutEvent | null  {
-        
-        // Check that the given data matches the WorkoutData interface & has a valid name
+    public static createFromWorkoutData( 
+        aData: any, 
+        aConfig: ICalendarWorkoutEventConfig = defaultCalendarWorkoutEventConfig,
+        aRecords: PersonalRecord[] = [],
+        aRevision: WorkoutRevision | null = null
+    ): CalendarWorkoutEvent | null  {
+        let rule: WorkoutTypeRule | null = null;
+
+        // Check that the given data matches the WorkoutData interface & has a workout type rule
         if( isWorkoutData( aData ) ) {
-            if( !( aData.name in this.allowedWorkoutNames ) ) {
-                console.log( "CalendarWorkoutEvent::createFromWorkoutData() - invalid name for calendar bound event: \"" + aData.name + "\"" );
+            rule = findWorkoutTypeRule( aConfig.workoutTypes, aData );
+            if( rule === null ) {
+                console.log( "CalendarWorkoutEvent::createFromWorkoutData() - no workout type rule for calendar bound event: \"" + aData.name + "\"" );
                 return null;
             }
         } else {
@@ -83,7 +160,64 @@ export default class CalendarWorkoutEvent {
             return null;
         }
 
-        return new CalendarWorkoutEvent( aData );
+        return new CalendarWorkoutEvent( aData, rule, aConfig, aRecords, aRevision );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Create the CalendarWorkoutEvents of aWorkouts (oldest first), skipping 
+    // workouts that no event can be created for. Workouts are marked with the
+    // personal records they set if aConfig tracks them, and given their stored
+    // revision from aRevisions (by workout id) if any.
+    ////////////////////////////////////////////////////////////////////////////
+    public static createFromWorkouts( 
+        aWorkouts: any[], 
+        aConfig: ICalendarWorkoutEventConfig = defaultCalendarWorkoutEventConfig,
+        aRevisions: { [workoutId: string]: WorkoutRevision } | null = null
+    ): CalendarWorkoutEvent[] {
+        let ret: CalendarWorkoutEvent[] = [];
+        let newRecords = aConfig.personalRecords !== null ? calcPersonalRecords( aWorkouts, aConfig ).newRecords : {};
+
+        aWorkouts.forEach( aWorkout => {
+            let uid = getWorkoutUid( aWorkout );
+            let workoutEvent = CalendarWorkoutEvent.createFromWorkoutData( aWorkout, aConfig, newRecords[uid] ?? [], aRevisions?.[uid] ?? null );
+            if( workoutEvent ) {
+                ret.push( workoutEvent );
+            }
+        });
+
+        return ret;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Check aConfig for problems that would prevent creating events, returns a
+    // list of problems (empty if aConfig is valid)
+    ////////////////////////////////////////////////////////////////////////////
+    public static validateConfig( aConfig: ICalendarWorkoutEventConfig ): string[] {
+        let ret: string[] = [];
+
+        if( aConfig.timezone !== null ) {
+            try {
+                dayjs().tz( aConfig.timezone );
+            } catch( e ) {
+                ret.push( "timezone: unknown timezone \"" + aConfig.timezone + "\"" );
+            }
+        }
+
+        validateBodyTemplate( aConfig.bodyTemplate ).forEach( aError => ret.push( "bodyTemplate: " + aError ) );
+        aConfig.workoutTypes.forEach( aRule => {
+            if( aRule.bodyTemplate !== undefined ) {
+                validateBodyTemplate( aRule.bodyTemplate ).forEach( aError => ret.push( "workoutTypes \"" + aRule.name + "\" bodyTemplate: " + aError ) );
+            }
+        });
+
+        return ret;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the calendar event UID for this CalendarWorkoutEvent
+    ////////////////////////////////////////////////////////////////////////////
+    public getId(): string {
+        return this.id;
     }
 
     ////////////////////////////////////////////////////////////////////////////
@@ -101,123 +235,121 @@ export default class CalendarWorkoutEvent {
     }
 
     ////////////////////////////////////////////////////////////////////////////
-    // Add this CalendarWorkoutEvent to the given aCalendar
+    // Get the workout this CalendarWorkoutEvent was created from
+    ////////////////////////////////////////////////////////////////////////////
+    public getWorkout(): WorkoutData {
+        return this.workout;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the day (YYYY-MM-DD) the workout of this CalendarWorkoutEvent is on
+    ////////////////////////////////////////////////////////////////////////////
+    public getDay(): string {
+        return getWorkoutDay( this.start, this.timezone );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Add this CalendarWorkoutEvent to the given aCalendar, replacing the event
+    // for the same workout if aCalendar already has one
     ////////////////////////////////////////////////////////////////////////////
     public addToCalendar( aCalendar: ICalCalendar ) {
-        let event = aCalendar.createEvent({
-            start: dayjs( this.start ).startOf( 'day' ), // Calendar is UTC, this keeps events at the end of the day on the intended day
-            //end: dayjs( this.workout.end ).startOf( 'day' ),   // Don't include end for allDay events
-            allDay: true,
-            summary: this.getName(),
-            description: this.getBody()
-        });
+        let eventData: CalendarEventData;
+
+        if( this.timed && this.timezone ) {
+            eventData = {
+                id: this.id,
+                start: dayjs( this.start ),
+                end: dayjs( this.end ),
+                timezone: this.timezone,
+                summary: this.getName(),
+                description: this.getBody(),
+                location: this.location
+            };
+        } else if( this.timed ) {
+            // Floating times keep the event at the local time of the workout, 
+            // using the UTC offset in the workout timestamps
+            eventData = {
+                id: this.id,
+                start: parseWorkoutTimestamp( this.start ),
+                end: parseWorkoutTimestamp( this.end ),
+                floating: true,
+                summary: this.getName(),
+                description: this.getBody(),
+                location: this.location
+            };
+        } else {
+            eventData = {
+                id: this.id,
+                start: getAllDayEventStart( aCalendar, this.getDay() ),
+                allDay: true,
+                summary: this.getName(),
+                description: this.getBody(),
+                location: this.location
+            };
+        }
+
+        if( this.revision !== null ) {
+            eventData.sequence = this.revision.sequence;
+            eventData.lastModified = this.revision.lastModified;
+        }
+
+        upsertCalendarEvent( aCalendar, eventData );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Calculate the calendar event UID for this CalendarWorkoutEvent, stable for
+    // the same workout so that clients see updates instead of new events
+    ////////////////////////////////////////////////////////////////////////////
+    private static calcId( aWorkout: WorkoutData ): string {
+        return getWorkoutUid( aWorkout );
     }
 
     ////////////////////////////////////////////////////////////////////////////
     // Calculate the calendar event name for this CalendarWorkoutEvent
     ////////////////////////////////////////////////////////////////////////////
-    private static calcName( aWorkout: WorkoutData ): string {
-        let ret = "";
-
-        let isIndoor = aWorkout.isIndoor;
-
-        switch( aWorkout.name ) {
-            // For legacy data collected from earlier version of Auto Export or iOS
-            case 'Walking':
-                if( isIndoor ) {
-                    ret = "Cardio - treadmill";
-                } else {
-                    ret = "Cardio - walk";
-                }
-                break;
-
-            // For legacy data collected from earlier version of Auto Export or iOS
-            case 'Running':
-                if( isIndoor ) {
-                    ret = "Cardio - treadmill";
-                } else {
-                    ret = "Cardio - run";
-                }
-                break;
-
-            case 'Outdoor Walk':
-                ret = "Cardio - walk";
-                break;
-
-            case 'Indoor Walk':
-                ret = "Cardio - treadmill";
-                break;
-                
-            case 'Outdoor Run':
-                ret = "Cardio - run";
-                break;
-            
-            case 'Indoor Run':
-                ret = "Cardio - treadmill";
-                break;
-
-            case 'Elliptical':
-                ret = "Cardio - elliptical";
-                break;
-
-            case 'Hiking':
-                ret = "Hiking";
-                break;
-
-            default:
-                console.log( "CalendarWorkoutEvent::getName() - '" + aWorkout.name + "' is unknown workout type" );
-                ret = "DEFAULT";
-                break;
+    private static calcName( aWorkout: WorkoutData, aRule: WorkoutTypeRule, aRecords: PersonalRecord[] ): string {
+        return ( aRecords.length > 0 ? "🏆 " : "" ) + getWorkoutTypeTitle( aRule, aWorkout );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Calculate the calendar event location (LOCATION and GEO) for this 
+    // CalendarWorkoutEvent, the start of the workout route. Returns null if the
+    // workout has no route.
+    ////////////////////////////////////////////////////////////////////////////
+    private static calcLocation( aWorkout: WorkoutData ): ICalLocation | null {
+        let points = getRoutePoints( aWorkout );
+        if( points.length === 0 ) {
+            return null;
         }
 
-        return ret;
+        return {
+            title: points[0].lat.toFixed( 5 ) + ", " + points[0].lon.toFixed( 5 ),
+            geo: { lat: points[0].lat, lon: points[0].lon }
+        };
     }
 
     ////////////////////////////////////////////////////////////////////////////
     // Calculate the calendar event body for this CalendarWorkoutEvent
     ////////////////////////////////////////////////////////////////////////////
-    private static calcBody( aWorkout: WorkoutData ): string {
-        let ret = "";
-
-        // Duration as [hh:]mm:ss
-        ret += getDurationString( dayjs.duration( dayjs( aWorkout.end ).diff( aWorkout.start ) ) ) + "\n";
-        ret += aWorkout.activeEnergy.qty.toFixed(0) + " calories" + "\n";
+    private static calcBody( aWorkout: WorkoutData, aRule: WorkoutTypeRule, aConfig: ICalendarWorkoutEventConfig, aRecords: PersonalRecord[] ): string {
+        let ret = renderBodyTemplate( aRule.bodyTemplate ?? aConfig.bodyTemplate, aWorkout, aConfig.unitSystem );
 
-        if( aWorkout.name === "Elliptical" ) {
-            // For elliptical, show cadence instead
-            ret += "\n";
-            ret += "Cadence: " + aWorkout.stepCadence.qty.toFixed(0) + " spm" + "\n"
-        } else {
-            // For others, show distance + pace
-            ret += aWorkout.distance.qty.toFixed(2) + " miles" + "\n";
-            ret += "\n";
-
-            // Pace as [hh:]mm:ss
-            ret += "Pace: " + getDurationString( dayjs.duration ( 1 / aWorkout.speed.qty * 60 * 60 * 1000 ) ) + "\n";
+        aRecords.forEach( aRecord => {
+            ret += formatPersonalRecord( aRecord ) + "\n";
+        });
 
-            // ret += "Speed: " + aWorkout.speed.qty.toFixed(2) + " mph" + "\n";
-            // ret += "Cadence: " + ( aWorkout.stepCadence.qty * 60 ).toFixed(0) + " spm" + "\n"
+        if( aConfig.heartRateZones !== null ) {
+            let heartRate = formatHeartRateAnalysis( calcHeartRateAnalysis( aWorkout, aConfig.heartRateZones ) );
+            if( heartRate !== "" ) {
+                ret += heartRate + "\n";
+            }
         }
 
-        // Show heart rate for all
-        ret += "HR: " + aWorkout.avgHeartRate.qty.toFixed(0) + " - " + aWorkout.maxHeartRate.qty.toFixed(0) + " bpm" + "\n";
-
-        // TODO: link back to a page hosted by this app that has full workout data available
-        // ret += "<a href='https://hostname/workouts/ID'>Full workout data</a>
+        // Link back to the page hosted by this app with the full workout data
+        if( aConfig.workoutPageLink ) {
+            ret += "\nFull workout: " + getWorkoutPageUrl( aWorkout, aConfig.workoutPageLink ) + "\n";
+        }
 
         return ret;
     }
 }
-
-////////////////////////////////////////////////////////////////////////////
-// Get the string representation of aDuration as [hh:]mm:ss
-////////////////////////////////////////////////////////////////////////////
-function getDurationString( aDuration: dayjsduration.Duration ): string {
-    let durationStr = "";
-    if( aDuration.hours() >= 1 ) {
-        durationStr = aDuration.format( "HH:mm:ss" );
-    } else {
-        durationStr = aDuration.format( "mm:ss" );
-    }
-    return durationStr;
-}
@@ -0,0 +1,119 @@
+////////////////////////////////////////////////////////////////////////////////
+// DailyMetricsEvent.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+
+import ical from 'ical-generator';
+
+import DailyMetricsEvent, { defaultHealthMetrics } from './DailyMetricsEvent';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for DailyMetricsEvent
+////////////////////////////////////////////////////////////////////////////////
+test( "DailyMetricsEvent tests", async ( t ) => {
+    let config = { healthMetrics: defaultHealthMetrics, timezone: null };
+    let dataPoints = [
+        { name: "step_count", units: "count", date: "2024-03-02 00:00:00 -0500", value: { date: "2024-03-02 00:00:00 -0500", qty: 6000 } },
+        { name: "step_count", units: "count", date: "2024-03-02 12:00:00 -0500", value: { date: "2024-03-02 12:00:00 -0500", qty: 4432 } },
+        { name: "resting_heart_rate", units: "count/min", date: "2024-03-02 00:00:00 -0500", value: { date: "2024-03-02 00:00:00 -0500", qty: 53.6 } },
+        { name: "sleep_analysis", units: "hr", date: "2024-03-02 00:00:00 -0500", value: { date: "2024-03-02 00:00:00 -0500", asleep: 7.2, inBed: 8 } },
+        { name: "resting_heart_rate", units: "count/min", date: "2024-03-01 00:00:00 -0500", value: { date: "2024-03-01 00:00:00 -0500", qty: 55 } },
+        { name: "weight_body_mass", units: "lb", date: "2024-03-03 00:00:00 -0500", value: { date: "2024-03-03 00:00:00 -0500", qty: 180 } }
+    ];
+
+    ////////////////////////////////////////////////////////////////////////////
+    // createFromMetrics() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "createFromMetrics() tests", async ( t ) => {
+        let events = DailyMetricsEvent.createFromMetrics( dataPoints, config, "default" );
+
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "days with only metrics that are not configured should have no event", ( t ) => {
+            assert.deepStrictEqual( events.map( aEvent => aEvent.getDay() ), [ "2024-03-01", "2024-03-02" ] );
+        });
+
+        await t.test( "data points without the configured field should be skipped", ( t ) => {
+            let noAsleep = [ { ...dataPoints[3], value: { inBed: 8 } } ];
+            assert.strictEqual( DailyMetricsEvent.createFromMetrics( noAsleep, config, "default" ).length, 0 );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "name should list the day's metrics in configured order and format", ( t ) => {
+            assert.strictEqual( events[1].getName(), "10,432 steps · RHR 54 · 7h12m sleep" );
+        });
+
+        await t.test( "name should only list metrics with values", ( t ) => {
+            assert.strictEqual( events[0].getName(), "RHR 55" );
+        });
+
+        await t.test( "data points should be placed on days in the configured timezone", ( t ) => {
+            let tokyoEvents = DailyMetricsEvent.createFromMetrics( dataPoints, { ...config, timezone: "Asia/Tokyo" }, "default" );
+            assert.deepStrictEqual( tokyoEvents.map( aEvent => aEvent.getDay() ), [ "2024-03-01", "2024-03-02", "2024-03-03" ] );
+            assert.strictEqual( tokyoEvents[2].getName(), "4,432 steps" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // validateConfig() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "validateConfig() tests", async ( t ) => {
+        await t.test( "label without {value} should be reported", ( t ) => {
+            let errors = DailyMetricsEvent.validateConfig( { ...config, healthMetrics: [ { name: "step_count", label: "steps" } ] } );
+            assert.strictEqual( errors.length, 1 );
+        });
+
+        await t.test( "default metrics should be valid", ( t ) => {
+            assert.deepStrictEqual( DailyMetricsEvent.validateConfig( config ), [] );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getId() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getId() tests", async ( t ) => {
+        await t.test( "should differ between calendars for the same day", ( t ) => {
+            let events = DailyMetricsEvent.createFromMetrics( dataPoints, config, "default" );
+            let otherEvents = DailyMetricsEvent.createFromMetrics( dataPoints, config, "alex" );
+            assert.notStrictEqual( otherEvents[0].getId(), events[0].getId() );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // addToCalendar() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "addToCalendar() tests", async ( t ) => {
+        await t.test( "should add one all-day event per day and replace it when added again", ( t ) => {
+            let calendar = ical();
+            DailyMetricsEvent.createFromMetrics( dataPoints, config, "default" ).forEach( aEvent => aEvent.addToCalendar( calendar ) );
+            DailyMetricsEvent.createFromMetrics( dataPoints, config, "default" ).forEach( aEvent => aEvent.addToCalendar( calendar ) );
+            assert.strictEqual( calendar.length(), 2 );
+            assert.match( calendar.toString(), /DTSTART;VALUE=DATE:20240302/ );
+        });
+    });
+});
@@ -0,0 +1,202 @@
+////////////////////////////////////////////////////////////////////////////////
+// DailyMetricsEvent.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import crypto from 'crypto';
+
+import { ICalCalendar } from 'ical-generator';
+
+import { MetricDataPoint } from './DataFile';
+import { getAllDayEventStart, upsertCalendarEvent } from './CalendarEvents';
+import { getWorkoutDay } from './WorkoutData';
+import { formatHoursMinutes } from './Units';
+
+////////////////////////////////////////////////////////////////////////////////
+// HealthMetricRule - picks a Health Auto Export metric to show on the daily 
+// health metrics calendar and how to show it
+////////////////////////////////////////////////////////////////////////////////
+export interface HealthMetricRule {
+    // Metric name from Health Auto Export, e.g. step_count
+    name: string,
+
+    // Text shown for the metric, "{value}" is replaced by the formatted value
+    label: string,
+
+    // Field of the data point holding the value, defaults to qty
+    field?: string,
+
+    // How the value is formatted: "count" rounds and adds thousands separators
+    // (10,432), "hours" shows hours as hours and minutes (7h12m), "number" 
+    // rounds (the default)
+    format?: "count" | "hours" | "number",
+
+    // How several data points on the same day are combined: "sum" (e.g. steps
+    // exported per hour) or "average" (the default)
+    aggregate?: "sum" | "average"
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// defaultHealthMetrics
+////////////////////////////////////////////////////////////////////////////////
+export const defaultHealthMetrics: HealthMetricRule[] = [
+    { name: "step_count", label: "{value} steps", format: "count", aggregate: "sum" },
+    { name: "resting_heart_rate", label: "RHR {value}" },
+    { name: "sleep_analysis", field: "asleep", label: "{value} sleep", format: "hours" }
+];
+
+////////////////////////////////////////////////////////////////////////////////
+// IDailyMetricsEventConfig
+////////////////////////////////////////////////////////////////////////////////
+export interface IDailyMetricsEventConfig {
+    // Metrics shown on the daily health metrics calendar, in this order
+    healthMetrics: HealthMetricRule[],
+
+    // IANA timezone of the user used to place data points on days, if null the
+    // UTC offset recorded with each data point is used
+    timezone: string | null
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// DailyMetricsEvent - represents the chosen health metrics of one day to be 
+// shown as an all-day event on a calendar
+////////////////////////////////////////////////////////////////////////////////
+export default class DailyMetricsEvent {
+
+    // Day of the event, YYYY-MM-DD
+    private day: string;
+
+    // Formatted labels of the day's metrics, in rule order
+    private labels: string[];
+
+    // Id of the calendar the event is for (e.g. the user name), part of its UID
+    private calendarId: string;
+
+    ////////////////////////////////////////////////////////////////////////////
+    // constructor - use DailyMetricsEvent.createFromMetrics
+    ////////////////////////////////////////////////////////////////////////////
+    private constructor( aDay: string, aLabels: string[], aCalendarId: string ) {
+        this.day = aDay;
+        this.labels = aLabels;
+        this.calendarId = aCalendarId;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Create a DailyMetricsEvent for the calendar with aCalendarId for each day
+    // that has a value for at least one of the metrics in aConfig, from 
+    // aDataPoints (data points of any metrics). Returned events are ordered by
+    // day.
+    ////////////////////////////////////////////////////////////////////////////
+    public static createFromMetrics( aDataPoints: MetricDataPoint[], aConfig: IDailyMetricsEventConfig, aCalendarId: string ): DailyMetricsEvent[] {
+        // Collect values per day and rule
+        let values: { [day: string]: number[][] } = {};
+        aDataPoints.forEach( aDataPoint => {
+            aConfig.healthMetrics.forEach( ( aRule, aIndex ) => {
+                let value = aDataPoint.value?.[aRule.field ?? "qty"];
+                if( aRule.name !== aDataPoint.name || typeof value !== "number" ) {
+                    return;
+                }
+
+                let day = getWorkoutDay( aDataPoint.date, aConfig.timezone );
+                values[day] = values[day] ?? aConfig.healthMetrics.map( () => [] );
+                values[day][aIndex].push( value );
+            });
+        });
+
+        return Object.keys( values ).sort().map( aDay => {
+            let labels: string[] = [];
+            aConfig.healthMetrics.forEach( ( aRule, aIndex ) => {
+                let dayValues = values[aDay][aIndex];
+                if( dayValues.length > 0 ) {
+                    let total = dayValues.reduce( ( aTotal, aValue ) => aTotal + aValue, 0 );
+                    let value = aRule.aggregate === "sum" ? total : total / dayValues.length;
+                    labels.push( aRule.label.replace( "{value}", formatMetricValue( value, aRule.format ) ) );
+                }
+            });
+
+            return new DailyMetricsEvent( aDay, labels, aCalendarId );
+        });
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Check aConfig for problems that would prevent creating events, returns a
+    // list of problems (empty if aConfig is valid)
+    ////////////////////////////////////////////////////////////////////////////
+    public static validateConfig( aConfig: IDailyMetricsEventConfig ): string[] {
+        let ret: string[] = [];
+
+        aConfig.healthMetrics.forEach( aRule => {
+            if( !aRule.name ) {
+                ret.push( "healthMetrics: rule \"" + aRule.label + "\" has no name" );
+            }
+            if( aRule.label.indexOf( "{value}" ) === -1 ) {
+                ret.push( "healthMetrics: label of " + aRule.name + " has no {value}" );
+            }
+        });
+
+        return ret;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Getters
+    ////////////////////////////////////////////////////////////////////////////
+    public getId(): string {
+        return crypto.createHash( "sha1" ).update( "metrics|" + this.calendarId + "|" + this.day ).digest( "hex" );
+    }
+
+    public getDay(): string {
+        return this.day;
+    }
+
+    public getName(): string {
+        return this.labels.join( " · " );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Add this DailyMetricsEvent to aCalendar as an all-day event, replacing 
+    // the event previously added for the same day
+    ////////////////////////////////////////////////////////////////////////////
+    public addToCalendar( aCalendar: ICalCalendar ) {
+        upsertCalendarEvent( aCalendar, {
+            id: this.getId(),
+            start: getAllDayEventStart( aCalendar, this.day ),
+            allDay: true,
+            summary: this.getName(),
+            description: this.labels.join( "\n" ) + "\n"
+        });
+    }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Format aValue of a metric as described by aFormat
+////////////////////////////////////////////////////////////////////////////////
+function formatMetricValue( aValue: number, aFormat: HealthMetricRule["format"] ): string {
+    if( aFormat === "hours" ) {
+        return formatHoursMinutes( aValue * 60 );
+    }
+
+    if( aFormat === "count" ) {
+        return Math.round( aValue ).toLocaleString( "en-US" );
+    }
+
+    return String( Math.round( aValue ) );
+}
@@ -26,7 +26,12 @@ import test from "node:test";
 import assert from "node:assert";
 import * as fs from "fs";
 
-import DataFile from './DataFile';
+import sqlite3 from "sqlite3";
+import * as sqliteAsync from "sqlite";
+
+import DataFile, { WorkoutRevision } from './DataFile';
+import { defaultCalendarWorkoutEventConfig } from './CalendarWorkoutEvent';
+import { getWorkoutUid } from './WorkoutData';
 
 ////////////////////////////////////////////////////////////////////////////////
 // Tests for DataFile
@@ -116,6 +121,317 @@ test( "DataFile tests", async ( t ) => {
         });
     });
 
+    // Call merge with changed data for an old workout, ensure it is updated
+    await t.test( "add one changed old workout", async ( t ) => {
+        let payload = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) );
+        payload.workouts[0].distance.qty = 0.75;
+
+        await t.test( "update callback should be called once for changed data", async( t ) => {
+            let newCount = 0;
+            let updatedCount = 0;
+
+            await dataFile.mergeData( payload, () => newCount++, () => updatedCount++ );
+            assert.strictEqual( newCount, 0 );
+            assert.strictEqual( updatedCount, 1 );
+        });
+
+        await t.test( "should have 2 CalendarWorkoutEvent in db", async( t ) => {
+            let events = await dataFile.getCalendarWorkoutEvents();
+            assert.strictEqual( events.length, 2 );
+        });
+
+        await t.test( "previous version should be kept in history", async( t ) => {
+            let history = await dataFile.getWorkoutHistory( payload.workouts[0] );
+            assert.strictEqual( history.length, 1 );
+            assert.notStrictEqual( history[0].distance.qty, 0.75 );
+        });
+
+        await t.test( "revision should count the stored versions of the workout", async( t ) => {
+            let revisions = await dataFile.getWorkoutRevisions();
+            let updated = revisions[getWorkoutUid( payload.workouts[0] )];
+            assert.strictEqual( Object.keys( revisions ).length, 2 );
+            assert.strictEqual( updated.sequence, 1 );
+            assert.ok( updated.lastModified instanceof Date );
+            assert.ok( Object.keys( revisions ).some( aId => revisions[aId].sequence === 0 && revisions[aId].lastModified === null ) );
+        });
+
+        await t.test( "update callback should get the new revision", async( t ) => {
+            let changed = JSON.parse( JSON.stringify( payload ) );
+            changed.workouts[0].distance.qty = 0.5;
+            let revisions: WorkoutRevision[] = [];
+
+            await dataFile.mergeData( changed, () => {}, ( aWorkout, aPrevious, aRevision ) => revisions.push( aRevision ) );
+            assert.strictEqual( revisions.length, 1 );
+            assert.strictEqual( revisions[0].sequence, 2 );
+            assert.deepStrictEqual( revisions[0].lastModified, ( await dataFile.getWorkoutRevisions() )[getWorkoutUid( payload.workouts[0] )].lastModified );
+            await dataFile.mergeData( payload );
+        });
+
+        await t.test( "update callback should not be called for same data with keys reordered", async( t ) => {
+            let reordered = { workouts: [ Object.fromEntries( Object.entries( payload.workouts[0] ).reverse() ) ] };
+            let updatedCount = 0;
+
+            await dataFile.mergeData( reordered, () => {}, () => updatedCount++ );
+            assert.strictEqual( updatedCount, 0 );
+        });
+    });
+
+    // Check the report of a merge with new, changed and unchanged workouts
+    await t.test( "merge report", async ( t ) => {
+        let payload = JSON.parse( fs.readFileSync( "test-data/workoutA-workoutB.json", 'utf8' ) );
+        payload.workouts[1].activeEnergy.qty = 1000;
+        let newWorkout = JSON.parse( JSON.stringify( payload.workouts[0] ) );
+        newWorkout.start = "2023-06-10 08:00:00 -0500";
+        newWorkout.end = "2023-06-10 08:30:00 -0500";
+        payload.workouts.push( newWorkout );
+
+        let report = await dataFile.mergeData( payload );
+
+        await t.test( "should report 1 new workout", ( t ) => {
+            assert.deepStrictEqual( report.new.map( aWorkout => aWorkout.start ), [ newWorkout.start ] );
+        });
+
+        await t.test( "should report 2 updated workouts", ( t ) => {
+            // workout A was changed by the previous test, workout B by this one
+            assert.strictEqual( report.updated.length, 2 );
+        });
+
+        await t.test( "should report 0 unchanged workouts", ( t ) => {
+            assert.strictEqual( report.unchanged.length, 0 );
+        });
+
+        await t.test( "should report all workouts unchanged when merged again", async ( t ) => {
+            let secondReport = await dataFile.mergeData( payload );
+            assert.strictEqual( secondReport.unchanged.length, 3 );
+        });
+
+        await t.test( "should report stored workouts that are invalid", async ( t ) => {
+            let invalid = { ...newWorkout, start: "2023-06-11 08:00:00 -0500", end: "2023-06-11 08:30:00 -0500", avgHeartRate: undefined };
+            let invalidReport = await dataFile.mergeData( { workouts: [ invalid ] } );
+            assert.deepStrictEqual( invalidReport.new, [ invalid ] );
+            assert.deepStrictEqual( invalidReport.invalid, [ { workout: invalid, errors: [ "/ must have required property 'avgHeartRate'" ] } ] );
+        });
+
+        await t.test( "should report workouts that could not be stored and store the others", async ( t ) => {
+            let broken: any = { ...newWorkout, start: "2023-06-12 08:00:00 -0500", end: "2023-06-12 08:30:00 -0500" };
+            broken.self = broken;
+            let stored = { ...newWorkout, start: "2023-06-13 08:00:00 -0500", end: "2023-06-13 08:30:00 -0500" };
+            let failedReport = await dataFile.mergeData( { workouts: [ broken, stored ] } );
+            assert.strictEqual( failedReport.failed.length, 1 );
+            assert.strictEqual( failedReport.failed[0].workout, broken );
+            assert.match( failedReport.failed[0].error, /circular/ );
+            assert.deepStrictEqual( failedReport.new, [ stored ] );
+            assert.deepStrictEqual( ( await dataFile.getWorkouts() ).filter( aWorkout => /^2023-06-1[23]/.test( aWorkout.start ) ).map( aWorkout => aWorkout.start ), [ stored.start ] );
+        });
+    });
+
+    // Check workouts are identified by more than their start
+    await t.test( "workout identity", async ( t ) => {
+        let payload = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) );
+        let workout = payload.workouts[0];
+        workout.start = "2023-07-01 07:00:00 -0500";
+        workout.end = "2023-07-01 07:30:00 -0500";
+
+        await t.test( "workouts with the same start and different names should both be new", async ( t ) => {
+            let other = { ...workout, name: "Running" };
+            let report = await dataFile.mergeData( { workouts: [ workout, other ] } );
+            assert.strictEqual( report.new.length, 2 );
+        });
+
+        await t.test( "workout with an id should match the same workout stored without an id", async ( t ) => {
+            let withId = { ...workout, id: "A1B2C3" };
+            let report = await dataFile.mergeData( { workouts: [ withId ] } );
+            assert.strictEqual( report.new.length, 0 );
+            assert.strictEqual( report.updated.length, 1 );
+        });
+
+        await t.test( "workout given an id should be found by its new id only", async ( t ) => {
+            let withId = { ...workout, id: "A1B2C3" };
+            assert.deepStrictEqual( await dataFile.getWorkout( getWorkoutUid( withId ) ), withId );
+            assert.strictEqual( await dataFile.getWorkout( getWorkoutUid( workout ) ), null );
+        });
+
+        await t.test( "workout with a different id and the same start, end and name should be new", async ( t ) => {
+            let withOtherId = { ...workout, id: "D4E5F6" };
+            let report = await dataFile.mergeData( { workouts: [ withOtherId ] } );
+            assert.strictEqual( report.new.length, 1 );
+        });
+
+        await t.test( "workout in the same data twice should be stored once with the later copy", async ( t ) => {
+            let first = { ...workout, id: "G7H8I9" };
+            let second = { ...first, activeEnergy: { qty: 80, units: "kcal" } };
+            let report = await dataFile.mergeData( { workouts: [ first, second ] } );
+            assert.deepStrictEqual( [ report.new.length, report.updated.length ], [ 1, 1 ] );
+            assert.strictEqual( ( await dataFile.getWorkouts() ).filter( aWorkout => aWorkout.id === "G7H8I9" ).length, 1 );
+            assert.deepStrictEqual( ( await dataFile.getWorkoutHistory( second ) ).map( aWorkout => aWorkout.activeEnergy.qty ), [ first.activeEnergy.qty ] );
+        });
+    });
+
+    // Check workouts are kept separately for each user
+    await t.test( "users", async ( t ) => {
+        let payload = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) );
+        let workout = payload.workouts[0];
+        workout.start = "2023-08-01 07:00:00 -0500";
+        workout.end = "2023-08-01 07:30:00 -0500";
+
+        await t.test( "same workout should be new for each user", async ( t ) => {
+            let defaultReport = await dataFile.mergeData( { workouts: [ workout ] } );
+            let otherReport = await dataFile.mergeData( { workouts: [ workout ] }, undefined, undefined, "other" );
+            assert.strictEqual( defaultReport.new.length, 1 );
+            assert.strictEqual( otherReport.new.length, 1 );
+        });
+
+        await t.test( "calendar events should only include the user's workouts", async ( t ) => {
+            let events = await dataFile.getCalendarWorkoutEvents( undefined, "other" );
+            assert.strictEqual( events.length, 1 );
+        });
+
+        await t.test( "changes should only update the user's workout", async ( t ) => {
+            let changed = { ...workout, activeEnergy: { qty: 999, units: "kcal" } };
+            let report = await dataFile.mergeData( { workouts: [ changed ] }, undefined, undefined, "other" );
+            assert.strictEqual( report.updated.length, 1 );
+            assert.strictEqual( ( await dataFile.getWorkoutHistory( workout ) ).length, 0 );
+            assert.strictEqual( ( await dataFile.getWorkoutHistory( workout, "other" ) ).length, 1 );
+        });
+
+        await t.test( "workout should be found by id for its user only", async ( t ) => {
+            let id = getWorkoutUid( workout );
+            assert.strictEqual( ( await dataFile.getWorkout( id, "other" ) ).activeEnergy.qty, 999 );
+            assert.strictEqual( ( await dataFile.getWorkout( id, "nobody" ) ), null );
+            assert.strictEqual( ( await dataFile.getWorkout( "missing", "other" ) ), null );
+        });
+    });
+
+    // Check heart rate analyses are stored per workout
+    await t.test( "heart rate analysis", async ( t ) => {
+        let workout = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) ).workouts[0];
+        workout.start = "2023-09-01 07:00:00 -0500";
+        workout.end = "2023-09-01 07:30:00 -0500";
+        await dataFile.mergeData( { workouts: [ workout ] } );
+
+        await t.test( "workout without a stored analysis should have none", async ( t ) => {
+            assert.strictEqual( await dataFile.getWorkoutHeartRate( workout ), null );
+        });
+
+        await t.test( "analysis should only be stored for stored workouts", async ( t ) => {
+            let count = await dataFile.setWorkoutHeartRates( [ 
+                { workout, analysis: { zoneSeconds: [ 60, 30 ], recovery: 28 } },
+                { workout: { ...workout, name: "Not stored" }, analysis: { zoneSeconds: [], recovery: null } }
+            ]);
+            assert.strictEqual( count, 1 );
+            assert.deepStrictEqual( await dataFile.getWorkoutHeartRate( workout ), { zoneSeconds: [ 60, 30 ], recovery: 28 } );
+            assert.strictEqual( await dataFile.getWorkoutHeartRate( workout, "other" ), null );
+        });
+
+        await t.test( "analysis should be replaced when stored again", async ( t ) => {
+            await dataFile.setWorkoutHeartRates( [ { workout, analysis: { zoneSeconds: [ 90 ], recovery: null } } ] );
+            assert.deepStrictEqual( await dataFile.getWorkoutHeartRate( workout ), { zoneSeconds: [ 90 ], recovery: null } );
+        });
+    });
+
+    // Check route points are stored per workout and replaced with it
+    await t.test( "routes", async ( t ) => {
+        let workout = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) ).workouts[0];
+        workout.start = "2023-09-02 07:00:00 -0500";
+        workout.end = "2023-09-02 07:30:00 -0500";
+        let route = Array.from( { length: 250 }, ( aValue, aIndex ) => ({ lat: aIndex * 0.0001, lon: 0, altitude: aIndex, timestamp: workout.start }) );
+
+        await t.test( "workout without a route should have no route points", async ( t ) => {
+            await dataFile.mergeData( { workouts: [ workout ] }, undefined, undefined, "routes" );
+            assert.deepStrictEqual( await dataFile.getWorkoutRoute( workout, "routes" ), [] );
+        });
+
+        await t.test( "route points should be stored in order when the workout changes", async ( t ) => {
+            await dataFile.mergeData( { workouts: [ { ...workout, route } ] }, undefined, undefined, "routes" );
+            let points = await dataFile.getWorkoutRoute( workout, "routes" );
+            assert.strictEqual( points.length, 250 );
+            assert.deepStrictEqual( points[249], route[249] );
+            assert.deepStrictEqual( await dataFile.getWorkoutRoute( workout, "other" ), [] );
+        });
+
+        await t.test( "route points should be stored for new workouts", async ( t ) => {
+            let newWorkout = { ...workout, start: "2023-09-03 07:00:00 -0500", end: "2023-09-03 07:30:00 -0500", route: route.slice( 0, 2 ) };
+            await dataFile.mergeData( { workouts: [ newWorkout ] }, undefined, undefined, "routes" );
+            assert.strictEqual( ( await dataFile.getWorkoutRoute( newWorkout, "routes" ) ).length, 2 );
+        });
+
+        await t.test( "route points should be replaced when the route changes", async ( t ) => {
+            await dataFile.mergeData( { workouts: [ { ...workout, route: route.slice( 10, 13 ) } ] }, undefined, undefined, "routes" );
+            let points = await dataFile.getWorkoutRoute( workout, "routes" );
+            assert.deepStrictEqual( points.map( aPoint => aPoint.altitude ), [ 10, 11, 12 ] );
+        });
+    });
+
+    // Check calendar events are marked with personal records
+    await t.test( "personal records", async ( t ) => {
+        let workout = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) ).workouts[0];
+        let longerWorkout = { ...workout, start: "2023-10-02 07:00:00 -0500", end: "2023-10-02 08:30:00 -0500", distance: { qty: 9, units: "mi" } };
+        await dataFile.mergeData( { workouts: [ { ...workout, start: "2023-10-01 07:00:00 -0500", end: "2023-10-01 07:30:00 -0500" } ] }, undefined, undefined, "records" );
+        await dataFile.mergeData( { workouts: [ longerWorkout ] }, undefined, undefined, "records" );
+
+        await t.test( "workouts that beat a record should be marked when records are tracked", async ( t ) => {
+            let events = await dataFile.getCalendarWorkoutEvents( { ...defaultCalendarWorkoutEventConfig, personalRecords: { paceDistances: [] } }, "records" );
+            assert.deepStrictEqual( events.map( aEvent => aEvent.getName() ), [ "Cardio - walk", "🏆 Cardio - walk" ] );
+        });
+
+        await t.test( "no workouts should be marked when records are not tracked", async ( t ) => {
+            let events = await dataFile.getCalendarWorkoutEvents( defaultCalendarWorkoutEventConfig, "records" );
+            assert.deepStrictEqual( events.map( aEvent => aEvent.getName() ), [ "Cardio - walk", "Cardio - walk" ] );
+        });
+    });
+
+    // Check metrics and symptoms are stored once per name and date
+    await t.test( "metrics and symptoms", async ( t ) => {
+        let data: any = {
+            workouts: [],
+            metrics: [
+                { name: "step_count", units: "count", data: [
+                    { date: "2024-03-01 00:00:00 -0500", qty: 8000, source: "iPhone" },
+                    { date: "2024-03-02 00:00:00 -0500", qty: 10432, source: "iPhone" }
+                ]},
+                { name: "resting_heart_rate", units: "count/min", data: [
+                    { date: "2024-03-01 00:00:00 -0500", qty: 54 }
+                ]},
+                { name: "no data" }
+            ],
+            symptoms: [
+                { name: "Headache", start: "2024-03-01 09:00:00 -0500", end: "2024-03-01 11:00:00 -0500", severity: "Mild" },
+                { name: "Headache" }
+            ]
+        };
+
+        await t.test( "should report new metrics and symptoms and skip invalid ones", async ( t ) => {
+            let report = await dataFile.mergeData( data );
+            assert.deepStrictEqual( report.metrics, { new: 3, updated: 0, unchanged: 0 } );
+            assert.deepStrictEqual( report.symptoms, { new: 1, updated: 0, unchanged: 0 } );
+        });
+
+        await t.test( "should store data points by metric name", async ( t ) => {
+            let steps = await dataFile.getMetrics( "step_count" );
+            assert.strictEqual( steps.length, 2 );
+            assert.strictEqual( steps[1].units, "count" );
+            assert.strictEqual( steps[1].value.qty, 10432 );
+            assert.strictEqual( ( await dataFile.getSymptoms() )[0].severity, "Mild" );
+        });
+
+        await t.test( "should replace changed data points with the same name and date", async ( t ) => {
+            data.metrics[0].data[1].qty = 12000;
+            data.symptoms[0].severity = "Moderate";
+            let report = await dataFile.mergeData( data );
+            assert.deepStrictEqual( report.metrics, { new: 0, updated: 1, unchanged: 2 } );
+            assert.deepStrictEqual( report.symptoms, { new: 0, updated: 1, unchanged: 0 } );
+
+            let steps = await dataFile.getMetrics( "step_count" );
+            assert.strictEqual( steps.length, 2 );
+            assert.strictEqual( steps[1].value.qty, 12000 );
+            assert.strictEqual( ( await dataFile.getSymptoms() )[0].severity, "Moderate" );
+        });
+
+        await t.test( "should keep metrics separately for each user", async ( t ) => {
+            assert.strictEqual( ( await dataFile.getMetrics( "step_count", "other" ) ).length, 0 );
+        });
+    });
+
     // Check if closes without issue
     await t.test( "should close", async( t ) => {
         await dataFile.close();
@@ -124,3 +440,54 @@ test( "DataFile tests", async ( t ) => {
     // Cleanup
     fs.unlinkSync( newDbName );
 });
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for DataFile with a db created by an earlier version
+////////////////////////////////////////////////////////////////////////////////
+test( "DataFile legacy db tests", async ( t ) => {
+    // Setup
+    // Create a db with the original schema that identified workouts by start
+    const legacyDbName = "datafile-legacy-test-db.db";
+    if( fs.existsSync( legacyDbName ) ) {
+        console.warn( "Removing " + legacyDbName + " for test, should not be present." );
+        fs.unlinkSync( legacyDbName );
+    }
+
+    let payload = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) );
+    payload.workouts[0].route = [ { lat: 41.87, lon: -87.62, altitude: 180 }, { lat: 41.875 }, { lat: 41.88, lon: -87.63, timestamp: "2023-06-06 20:40:00 -0500" } ];
+    let legacyDb = await sqliteAsync.open({ filename: legacyDbName, driver: sqlite3.Database });
+    await legacyDb.exec( 
+        "CREATE TABLE workouts ( value TEXT, start TEXT AS (json_extract(value, '$.start') ) );" +
+        "CREATE INDEX workouts_start on workouts(start);"
+    );
+    await legacyDb.run( "INSERT INTO workouts (value) VALUES (?)", JSON.stringify( payload.workouts[0] ) );
+    await legacyDb.close();
+
+    // Tests
+    let dataFile: DataFile = await DataFile.open( legacyDbName );
+
+    await t.test( "legacy workouts should still be read", async ( t ) => {
+        let events = await dataFile.getCalendarWorkoutEvents();
+        assert.strictEqual( events.length, 1 );
+    });
+
+    await t.test( "routes of legacy workouts should be stored", async ( t ) => {
+        assert.deepStrictEqual( await dataFile.getWorkoutRoute( payload.workouts[0] ), [
+            { lat: 41.87, lon: -87.62, altitude: 180, timestamp: null },
+            { lat: 41.88, lon: -87.63, altitude: null, timestamp: "2023-06-06 20:40:00 -0500" }
+        ]);
+    });
+
+    await t.test( "legacy workouts should be found by id", async ( t ) => {
+        assert.deepStrictEqual( await dataFile.getWorkout( getWorkoutUid( payload.workouts[0] ) ), payload.workouts[0] );
+    });
+
+    await t.test( "legacy workouts should be matched when merged again", async ( t ) => {
+        let report = await dataFile.mergeData( payload );
+        assert.strictEqual( report.unchanged.length, 1 );
+    });
+
+    // Cleanup
+    await dataFile.close();
+    fs.unlinkSync( legacyDbName );
+});
@@ -25,8 +25,87 @@
 import sqlite3 from "sqlite3";
 import * as sqliteAsync from "sqlite";
 
-import fs from "fs";
-import CalendarWorkoutEvent from "./CalendarWorkoutEvent";
+import crypto from "crypto";
+import CalendarWorkoutEvent, { ICalendarWorkoutEventConfig, defaultCalendarWorkoutEventConfig } from "./CalendarWorkoutEvent";
+import { getWorkoutIdentity, getWorkoutUid, isWorkoutData } from "./WorkoutData";
+import { HeartRateAnalysis } from "./HeartRateZones";
+import { RoutePoint, getRoutePoints } from "./Routes";
+import { defaultMigrationsDir, migrate } from "./Migrations";
+
+////////////////////////////////////////////////////////////////////////////////
+// defaultUser - user that workouts belong to when no user is given, including
+// all workouts stored before DataFile had users
+////////////////////////////////////////////////////////////////////////////////
+export const defaultUser = "default";
+
+// Number of route points inserted per statement
+const routePointBatchSize = 100;
+
+////////////////////////////////////////////////////////////////////////////////
+// MergeReport - result of DataFile.mergeData()
+////////////////////////////////////////////////////////////////////////////////
+export interface MergeReport {
+    // Workouts that were not previously in the DataFile
+    new: any[],
+
+    // Previously seen workouts whose data changed
+    updated: any[],
+
+    // Previously seen workouts whose data did not change
+    unchanged: any[],
+
+    // Workouts that were stored (so are also new, updated or unchanged) but do
+    // not match the WorkoutData schema, so are not shown on calendars
+    invalid: { workout: any, errors: string[] }[],
+
+    // Workouts that could not be stored
+    failed: { workout: any, error: string }[],
+
+    // Counts of merged metric data points and symptoms
+    metrics: MergeCounts,
+    symptoms: MergeCounts
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// MergeCounts - number of records that were new, updated or unchanged when 
+// merged into a DataFile
+////////////////////////////////////////////////////////////////////////////////
+export interface MergeCounts {
+    new: number,
+    updated: number,
+    unchanged: number
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutRevision - how often a stored workout has been updated and when, 
+// used as the SEQUENCE and LAST-MODIFIED of its calendar event so that they 
+// survive restarts
+////////////////////////////////////////////////////////////////////////////////
+export interface WorkoutRevision {
+    // Number of previous versions of the workout in workouts_history
+    sequence: number,
+
+    // When the current version was stored, null if it was never updated
+    lastModified: Date | null
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// MetricDataPoint - a stored data point of a health metric
+////////////////////////////////////////////////////////////////////////////////
+export interface MetricDataPoint {
+    // Metric name from Health Auto Export, e.g. step_count
+    name: string,
+
+    // Units of the metric, e.g. count, bpm
+    units: string | null,
+
+    // Date of the data point as posted
+    date: string,
+
+    // The data point as posted; qty for most metrics, metric specific fields 
+    // for others (e.g. Min/Avg/Max for heart_rate, asleep/inBed for sleep)
+    value: any
+}
 
 ////////////////////////////////////////////////////////////////////////////////
 // DataFile - used to read persist received fitness data
@@ -43,10 +122,12 @@ export default class DataFile {
 
     ////////////////////////////////////////////////////////////////////////////
     // Open (and create if it does not exist) the underlying database in the
-    // given aFilename
+    // given aFilename, migrating it to the latest schema. Throws if the db 
+    // cannot be migrated.
     ////////////////////////////////////////////////////////////////////////////
     static async open(
-        aFilename: string = "workouts.db"
+        aFilename: string = "workouts.db",
+        aMigrationsDir: string = defaultMigrationsDir
     ) {
         let ret = new DataFile();
 
@@ -57,11 +138,40 @@ export default class DataFile {
         });
 
         ret.db.getDatabaseInstance().serialize();
-        await ret.db.exec( fs.readFileSync( 'sql/workouts.sql', 'utf8' ) );
+
+        try {
+            await migrate( ret.db, aMigrationsDir );
+            await ret.setMissingWorkoutUids();
+        } catch( e ) {
+            await ret.db.close();
+            throw e;
+        }
 
         return ret;
     }
 
+    ////////////////////////////////////////////////////////////////////////////
+    // Set the uid of stored workouts that do not have one, those stored before
+    // the uid column was added
+    ////////////////////////////////////////////////////////////////////////////
+    private async setMissingWorkoutUids() {
+        let rows = await this.db.all( 'SELECT rowid, value FROM workouts WHERE uid IS NULL' );
+        if( rows.length === 0 ) {
+            return;
+        }
+
+        await this.db.exec( 'BEGIN' );
+        try {
+            for( let row of rows ) {
+                await this.db.run( 'UPDATE workouts SET uid = ? WHERE rowid = ?', getWorkoutUid( JSON.parse( row.value ) ), row.rowid );
+            }
+            await this.db.exec( 'COMMIT' );
+        } catch( e ) {
+            await this.db.exec( 'ROLLBACK' );
+            throw e;
+        }
+    }
+
     ////////////////////////////////////////////////////////////////////////////
     // Close the underlying db; this DataFile is no longer usable after it is
     // closed.
@@ -71,45 +181,414 @@ export default class DataFile {
     }
 
     ////////////////////////////////////////////////////////////////////////////
-    // Merge aData with the current data in this file, call aOnNewWorkout for
-    // each new (not previously seen) workout in aData.
+    // Merge aData with the current data of aUser in this file, call 
+    // aOnNewWorkout for each new (not previously seen) workout in aData, and
+    // aOnUpdatedWorkout with the previous version and the new revision for 
+    // each previously seen workout whose data has changed. The previous 
+    // version of an updated workout is kept in workouts_history. Metrics and 
+    // symptoms in aData are merged as well. Returns a MergeReport of which 
+    // workouts were new, updated, unchanged, invalid or could not be stored.
     ////////////////////////////////////////////////////////////////////////////
-    async mergeData( aData, aOnNewWorkout ) {
-        await Promise.allSettled( aData.workouts.map( async ( aWorkout ) => {
-            // Check against existing workouts, use start as key (assumes no two workouts will start at the same time)
-            let countStatement = await this.db.prepare( 'SELECT COUNT(*) AS "count" FROM workouts WHERE start = ?' );
-            let count = ( await countStatement.get( aWorkout.start ) ).count;
-            await countStatement.finalize();
+    async mergeData( 
+        aData, 
+        aOnNewWorkout?: ( aWorkout: any ) => void, 
+        aOnUpdatedWorkout?: ( aWorkout: any, aPrevious: any, aRevision: WorkoutRevision ) => void,
+        aUser: string = defaultUser
+    ): Promise<MergeReport> {
+        let ret: MergeReport = { 
+            new: [], 
+            updated: [], 
+            unchanged: [], 
+            invalid: [],
+            failed: [],
+            metrics: await this.mergeMetrics( aData.metrics ?? [], aUser ),
+            symptoms: await this.mergeSymptoms( aData.symptoms ?? [], aUser )
+        };
 
-            // If we haven't seen this workout before, merge it into this DataFile and call aOnNewWorkout
-            if( count === 0 ) {
-                let insertStatement = await this.db.prepare( 'INSERT INTO workouts (value) VALUES (?)' );
-                await insertStatement.run( JSON.stringify( aWorkout ) );
-                await insertStatement.finalize();
-                aOnNewWorkout( aWorkout );
+        // One at a time, a workout may be in aData more than once (e.g. 
+        // exported again with corrected data) and must be found by its later
+        // copies once stored
+        for( let workout of aData.workouts ?? [] ) {
+            // Each workout is stored with its history and route, or not at all
+            let merged: { result: keyof MergeCounts, previous: any, revision: WorkoutRevision };
+            await this.db.exec( 'SAVEPOINT merge_workout' );
+            try {
+                merged = await this.mergeWorkout( workout, aUser );
+                await this.db.exec( 'RELEASE merge_workout' );
+            } catch( e ) {
+                await this.db.exec( 'ROLLBACK TO merge_workout' );
+                await this.db.exec( 'RELEASE merge_workout' );
+                console.log( "DataFile::mergeData() - could not store workout \"" + workout?.name + "\" at " + workout?.start + ": " + e );
+                ret.failed.push( { workout, error: String( e ) } );
+                continue;
             }
-        }));
+
+            if( !isWorkoutData( workout ) ) {
+                ret.invalid.push( { workout, errors: ( isWorkoutData.errors ?? [] ).map( aError => ( aError.instancePath || "/" ) + " " + aError.message ) } );
+            }
+
+            ret[merged.result].push( workout );
+            if( merged.result === "new" ) {
+                aOnNewWorkout?.( workout );
+            } else if( merged.result === "updated" ) {
+                aOnUpdatedWorkout?.( workout, merged.previous, merged.revision );
+            }
+        }
+
+        return ret;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Insert aWorkout of aUser, or update the stored row with the same 
+    // identity if its data has changed. Returns whether aWorkout was new, 
+    // updated or unchanged, the stored version it replaced (if any) and its
+    // revision.
+    ////////////////////////////////////////////////////////////////////////////
+    private async mergeWorkout( aWorkout: any, aUser: string ): Promise<{ result: keyof MergeCounts, previous: any, revision: WorkoutRevision }> {
+        let existing = await this.getExistingWorkoutRow( aWorkout, aUser );
+
+        // If we haven't seen this workout before, merge it into this DataFile
+        if( existing === undefined ) {
+            let inserted = await this.db.run( 'INSERT INTO workouts (value, user, uid) VALUES (?, ?, ?)', JSON.stringify( aWorkout ), aUser, getWorkoutUid( aWorkout ) );
+            await this.replaceRoutePoints( inserted.lastID, aWorkout );
+            return { result: "new", previous: null, revision: { sequence: 0, lastModified: null } };
+        }
+
+        // Seen before, compare content hashes to find changed data (e.g. corrected by a later export)
+        let previous = JSON.parse( existing.value );
+        let existingHash = getContentHash( previous );
+        if( existingHash === getContentHash( aWorkout ) ) {
+            return { result: "unchanged", previous, revision: await this.getWorkoutRevision( existing.rowid ) };
+        }
+
+        // Keep the previous version, then replace it
+        await this.db.run( 'INSERT INTO workouts_history (workout_rowid, value, hash, replaced) VALUES (?, ?, ?, ?)', existing.rowid, existing.value, existingHash, new Date().toISOString() );
+        // The uid changes if the workout is now identified by its Auto Export id
+        await this.db.run( 'UPDATE workouts SET value = ?, uid = ? WHERE rowid = ?', JSON.stringify( aWorkout ), getWorkoutUid( aWorkout ), existing.rowid );
+        await this.replaceRoutePoints( existing.rowid, aWorkout );
+        return { result: "updated", previous, revision: await this.getWorkoutRevision( existing.rowid ) };
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the revision of the stored workout in row aRowid from its history
+    ////////////////////////////////////////////////////////////////////////////
+    private async getWorkoutRevision( aRowid: number ): Promise<WorkoutRevision> {
+        let row = await this.db.get( 'SELECT COUNT(*) AS "sequence", MAX(replaced) AS "replaced" FROM workouts_history WHERE workout_rowid = ?', aRowid );
+
+        return getRevisionFromRow( row );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Replace the stored route points of the workout in row aRowid with the 
+    // route of aWorkout
+    ////////////////////////////////////////////////////////////////////////////
+    private async replaceRoutePoints( aRowid: number | undefined, aWorkout: any ) {
+        await this.db.run( 'DELETE FROM route_points WHERE workout_rowid = ?', aRowid );
+
+        // Insert in batches, routes have thousands of points and each row takes
+        // 6 of the (at least 999) variables a statement can have
+        let points = getRoutePoints( aWorkout );
+        for( let i = 0; i < points.length; i += routePointBatchSize ) {
+            let batch = points.slice( i, i + routePointBatchSize );
+            let values: any[] = [];
+            batch.forEach( ( aPoint, aIndex ) => values.push( aRowid, i + aIndex, aPoint.lat, aPoint.lon, aPoint.altitude, aPoint.timestamp ) );
+
+            await this.db.run( 
+                'INSERT INTO route_points (workout_rowid, idx, lat, lon, altitude, timestamp) VALUES ' + batch.map( () => '(?, ?, ?, ?, ?, ?)' ).join( ', ' ),
+                values
+            );
+        }
     }
 
     ////////////////////////////////////////////////////////////////////////////
-    // Get an array of CalendarWorkoutEvent for all workouts in the DataFile
+    // Merge aMetrics (the metrics array posted by Health Auto Export, each with
+    // a name, units and data points) with the stored metrics of aUser. There
+    // is one data point per metric name and date, a data point for a stored
+    // name and date replaces the stored one (e.g. a daily total that has grown
+    // since the last export).
     ////////////////////////////////////////////////////////////////////////////
-    async getCalendarWorkoutEvents() {
-        let ret: CalendarWorkoutEvent[] = [];
+    async mergeMetrics( aMetrics: any[], aUser: string = defaultUser ): Promise<MergeCounts> {
+        let ret: MergeCounts = { new: 0, updated: 0, unchanged: 0 };
 
-        let statement = await this.db.prepare( 'SELECT value FROM workouts' );
-        let rowCount = await statement.each( ( aErr, aRow ) => {
-            if( aErr ) {
-                throw aErr;
+        for( let metric of aMetrics ) {
+            if( typeof metric?.name !== "string" || !Array.isArray( metric.data ) ) {
+                console.log( "DataFile::mergeMetrics() - skipping invalid metric: " + JSON.stringify( metric?.name ) );
+                continue;
             }
 
-            let workoutEvent = CalendarWorkoutEvent.createFromWorkoutData( JSON.parse( aRow.value ) );
-            if( workoutEvent ) {
-                ret.push( workoutEvent );
+            for( let dataPoint of metric.data ) {
+                if( typeof dataPoint?.date !== "string" ) {
+                    console.log( "DataFile::mergeMetrics() - skipping " + metric.name + " data point without a date" );
+                    continue;
+                }
+
+                let result = await this.mergeRecord( 
+                    'SELECT rowid, value FROM metrics WHERE user = ? AND name = ? AND date = ?',
+                    'INSERT INTO metrics (user, name, date, units, value) VALUES (?, ?, ?, ?, ?)',
+                    'UPDATE metrics SET units = ?, value = ? WHERE rowid = ?',
+                    [ aUser, metric.name, dataPoint.date ],
+                    [ metric.units ?? null ],
+                    dataPoint
+                );
+                ret[result]++;
             }
-        });
+        }
+
+        return ret;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Merge aSymptoms (the symptoms array posted by Health Auto Export) with 
+    // the stored symptoms of aUser. There is one symptom per name and start.
+    ////////////////////////////////////////////////////////////////////////////
+    async mergeSymptoms( aSymptoms: any[], aUser: string = defaultUser ): Promise<MergeCounts> {
+        let ret: MergeCounts = { new: 0, updated: 0, unchanged: 0 };
+
+        for( let symptom of aSymptoms ) {
+            if( typeof symptom?.name !== "string" || typeof symptom.start !== "string" ) {
+                console.log( "DataFile::mergeSymptoms() - skipping symptom without a name and start: " + JSON.stringify( symptom ) );
+                continue;
+            }
+
+            let result = await this.mergeRecord( 
+                'SELECT rowid, value FROM symptoms WHERE user = ? AND name = ? AND start = ?',
+                'INSERT INTO symptoms (user, name, start, value) VALUES (?, ?, ?, ?)',
+                'UPDATE symptoms SET value = ? WHERE rowid = ?',
+                [ aUser, symptom.name, symptom.start ],
+                [],
+                symptom
+            );
+            ret[result]++;
+        }
+
+        return ret;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Insert aValue with aKey (and aColumns) if aSelect finds no row for aKey,
+    // else update the found row when its value has changed. aInsert takes 
+    // aKey, aColumns then the value, aUpdate takes aColumns, the value then 
+    // the rowid. Returns which of the MergeCounts the record counts towards.
+    ////////////////////////////////////////////////////////////////////////////
+    private async mergeRecord( 
+        aSelect: string, 
+        aInsert: string, 
+        aUpdate: string, 
+        aKey: any[], 
+        aColumns: any[], 
+        aValue: any 
+    ): Promise<keyof MergeCounts> {
+        let existing = await this.db.get( aSelect, ...aKey );
+        if( existing === undefined ) {
+            await this.db.run( aInsert, ...aKey, ...aColumns, JSON.stringify( aValue ) );
+            return "new";
+        }
+
+        if( getContentHash( JSON.parse( existing.value ) ) === getContentHash( aValue ) ) {
+            return "unchanged";
+        }
+
+        await this.db.run( aUpdate, ...aColumns, JSON.stringify( aValue ), existing.rowid );
+        return "updated";
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the stored data points of aUser for the metric named aName, oldest
+    // first
+    ////////////////////////////////////////////////////////////////////////////
+    async getMetrics( aName: string, aUser: string = defaultUser ): Promise<MetricDataPoint[]> {
+        let rows = await this.db.all( 'SELECT name, units, date, value FROM metrics WHERE user = ? AND name = ? ORDER BY date', aUser, aName );
+
+        return rows.map( aRow => ({ ...aRow, value: JSON.parse( aRow.value ) }) );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the stored symptoms of aUser, oldest first
+    ////////////////////////////////////////////////////////////////////////////
+    async getSymptoms( aUser: string = defaultUser ): Promise<any[]> {
+        let rows = await this.db.all( 'SELECT value FROM symptoms WHERE user = ? ORDER BY start', aUser );
+
+        return rows.map( aRow => JSON.parse( aRow.value ) );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the stored row (rowid, value) for the workout of aUser with the same
+    // identity as aWorkout, or undefined if there is none. A workout with an 
+    // Auto Export id also matches a row stored without one (from an older 
+    // export) that has the same start, end and name.
+    ////////////////////////////////////////////////////////////////////////////
+    private async getExistingWorkoutRow( aWorkout: any, aUser: string ): Promise<{ rowid: number, value: string } | undefined> {
+        let identity = getWorkoutIdentity( aWorkout );
+        let legacyIdentity = getWorkoutIdentity( aWorkout, false );
+
+        return await this.db.get( 'SELECT rowid, value FROM workouts WHERE user = ? AND identity IN (?, ?) ORDER BY identity = ? DESC LIMIT 1', aUser, identity, legacyIdentity, identity );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the previous versions of the stored workout of aUser with the same 
+    // identity as aWorkout, oldest first
+    ////////////////////////////////////////////////////////////////////////////
+    async getWorkoutHistory( aWorkout: any, aUser: string = defaultUser ): Promise<any[]> {
+        let rows = await this.db.all( 
+            'SELECT workouts_history.value FROM workouts_history ' +
+            'JOIN workouts ON workouts.rowid = workouts_history.workout_rowid ' +
+            'WHERE workouts.user = ? AND workouts.identity = ? ORDER BY workouts_history.rowid', 
+            aUser,
+            getWorkoutIdentity( aWorkout )
+        );
+
+        return rows.map( aRow => JSON.parse( aRow.value ) );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get all stored workouts of aUser, oldest first
+    ////////////////////////////////////////////////////////////////////////////
+    async getWorkouts( aUser: string = defaultUser ): Promise<any[]> {
+        let rows = await this.db.all( 'SELECT value FROM workouts WHERE user = ? ORDER BY start', aUser );
+
+        return rows.map( aRow => JSON.parse( aRow.value ) );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the revision of each stored workout of aUser by workout id (see 
+    // getWorkoutUid())
+    ////////////////////////////////////////////////////////////////////////////
+    async getWorkoutRevisions( aUser: string = defaultUser ): Promise<{ [workoutId: string]: WorkoutRevision }> {
+        let ret: { [workoutId: string]: WorkoutRevision } = {};
+        let rows = await this.db.all( 
+            'SELECT workouts.uid AS "uid", COUNT(workouts_history.rowid) AS "sequence", MAX(workouts_history.replaced) AS "replaced" ' +
+            'FROM workouts LEFT JOIN workouts_history ON workouts_history.workout_rowid = workouts.rowid ' +
+            'WHERE workouts.user = ? GROUP BY workouts.rowid',
+            aUser
+        );
+        rows.forEach( aRow => ret[aRow.uid] = getRevisionFromRow( aRow ) );
+
+        return ret;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Store the heart rate analysis of each stored workout of aUser in 
+    // aAnalyses, replacing any stored before. Workouts that are not stored are
+    // skipped. Returns the number of analyses stored.
+    ////////////////////////////////////////////////////////////////////////////
+    async setWorkoutHeartRates( aAnalyses: { workout: any, analysis: HeartRateAnalysis }[], aUser: string = defaultUser ): Promise<number> {
+        let ret = 0;
+
+        await this.db.exec( 'BEGIN' );
+        try {
+            for( let entry of aAnalyses ) {
+                let row = await this.getExistingWorkoutRow( entry.workout, aUser );
+                if( row !== undefined ) {
+                    await this.db.run( 
+                        'INSERT OR REPLACE INTO workout_heart_rate (workout_rowid, zone_seconds, recovery) VALUES (?, ?, ?)',
+                        row.rowid,
+                        JSON.stringify( entry.analysis.zoneSeconds ),
+                        entry.analysis.recovery
+                    );
+                    ret++;
+                }
+            }
+            await this.db.exec( 'COMMIT' );
+        } catch( e ) {
+            await this.db.exec( 'ROLLBACK' );
+            throw e;
+        }
 
-        await statement.finalize();
         return ret;
     }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the stored heart rate analysis of the workout of aUser with the same
+    // identity as aWorkout, or null if there is none
+    ////////////////////////////////////////////////////////////////////////////
+    async getWorkoutHeartRate( aWorkout: any, aUser: string = defaultUser ): Promise<HeartRateAnalysis | null> {
+        let row = await this.db.get( 
+            'SELECT workout_heart_rate.zone_seconds, workout_heart_rate.recovery FROM workout_heart_rate ' +
+            'JOIN workouts ON workouts.rowid = workout_heart_rate.workout_rowid ' +
+            'WHERE workouts.user = ? AND workouts.identity = ?',
+            aUser,
+            getWorkoutIdentity( aWorkout )
+        );
+        if( row === undefined ) {
+            return null;
+        }
+
+        return { zoneSeconds: JSON.parse( row.zone_seconds ), recovery: row.recovery };
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the stored route points of the workout of aUser with the same 
+    // identity as aWorkout, in the order they were recorded. Returns an empty 
+    // list if the workout has no route or is not stored.
+    ////////////////////////////////////////////////////////////////////////////
+    async getWorkoutRoute( aWorkout: any, aUser: string = defaultUser ): Promise<RoutePoint[]> {
+        let rows = await this.db.all( 
+            'SELECT route_points.lat, route_points.lon, route_points.altitude, route_points.timestamp FROM route_points ' +
+            'JOIN workouts ON workouts.rowid = route_points.workout_rowid ' +
+            'WHERE workouts.user = ? AND workouts.identity = ? ORDER BY route_points.idx',
+            aUser,
+            getWorkoutIdentity( aWorkout )
+        );
+
+        return rows.map( aRow => ({
+            lat: aRow.lat,
+            lon: aRow.lon,
+            altitude: typeof aRow.altitude === "number" ? aRow.altitude : null,
+            timestamp: typeof aRow.timestamp === "string" ? aRow.timestamp : null
+        }));
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the stored workout of aUser whose id (see getWorkoutUid()) is aId, 
+    // or null if there is none
+    ////////////////////////////////////////////////////////////////////////////
+    async getWorkout( aId: string, aUser: string = defaultUser ): Promise<any | null> {
+        let row = await this.db.get( 'SELECT value FROM workouts WHERE user = ? AND uid = ?', aUser, aId );
+
+        return row !== undefined ? JSON.parse( row.value ) : null;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get an array of CalendarWorkoutEvent for all workouts of aUser in the 
+    // DataFile, using aConfig to create the events. Workouts are marked with 
+    // the personal records they set if aConfig tracks them.
+    ////////////////////////////////////////////////////////////////////////////
+    async getCalendarWorkoutEvents( 
+        aConfig: ICalendarWorkoutEventConfig = defaultCalendarWorkoutEventConfig,
+        aUser: string = defaultUser
+    ) {
+        return CalendarWorkoutEvent.createFromWorkouts( await this.getWorkouts( aUser ), aConfig, await this.getWorkoutRevisions( aUser ) );
+    }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get a hash of the content of aWorkout, the same for the same data exported 
+// with keys in a different order
+////////////////////////////////////////////////////////////////////////////////
+function getContentHash( aWorkout: any ): string {
+    return crypto.createHash( "sha1" ).update( canonicalJson( aWorkout ) ).digest( "hex" );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get JSON for aValue with object keys sorted
+////////////////////////////////////////////////////////////////////////////////
+function canonicalJson( aValue: any ): string {
+    if( Array.isArray( aValue ) ) {
+        return "[" + aValue.map( canonicalJson ).join( "," ) + "]";
+    } else if( aValue !== null && typeof aValue === "object" ) {
+        return "{" + Object.keys( aValue ).sort().map( aKey => JSON.stringify( aKey ) + ":" + canonicalJson( aValue[aKey] ) ).join( "," ) + "}";
+    }
+
+    return JSON.stringify( aValue );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the WorkoutRevision of a row with the count and latest replaced time 
+// of the history of a workout
+////////////////////////////////////////////////////////////////////////////////
+function getRevisionFromRow( aRow: any ): WorkoutRevision {
+    return {
+        sequence: aRow?.sequence ?? 0,
+        lastModified: aRow?.replaced ? new Date( aRow.replaced ) : null
+    };
 }
@@ -0,0 +1,125 @@
+////////////////////////////////////////////////////////////////////////////////
+// HeartRateZones.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+
+import test from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+
+import { calcHeartRateAnalysis, formatHeartRateAnalysis, getZoneBounds, validateHeartRateZones } from './HeartRateZones';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for HeartRateZones
+////////////////////////////////////////////////////////////////////////////////
+test( "HeartRateZones tests", async ( t ) => {
+    // Samples every 30 seconds: 110, 110, 125, 145, then 90 until the end
+    let workout = {
+        start: "2024-03-01 10:00:00 -0500",
+        end: "2024-03-01 10:02:30 -0500",
+        heartRateData: [ 110, 110, 125, 145, 90 ].map( ( aBpm, aIndex ) => {
+            return { date: "2024-03-01 10:0" + Math.floor( aIndex / 2 ) + ":" + ( aIndex % 2 === 0 ? "00" : "30" ) + " -0500", qty: aBpm, units: "bpm" };
+        })
+    };
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getZoneBounds() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getZoneBounds() tests", async ( t ) => {
+        await t.test( "bpm should be used as given", ( t ) => {
+            assert.deepStrictEqual( getZoneBounds( { bpm: [ 100, 120 ] } ), [ 100, 120 ] );
+        });
+
+        await t.test( "zones should be derived from max heart rate", ( t ) => {
+            assert.deepStrictEqual( getZoneBounds( { maxHeartRate: 200 } ), [ 100, 120, 140, 160, 180 ] );
+            assert.deepStrictEqual( getZoneBounds( { maxHeartRate: 200, percentages: [ 60, 75 ] } ), [ 120, 150 ] );
+        });
+
+        await t.test( "max heart rate should be derived from age", ( t ) => {
+            assert.deepStrictEqual( getZoneBounds( { age: 40 } ), [ 90, 108, 126, 144, 162 ] );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // calcHeartRateAnalysis() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "calcHeartRateAnalysis() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "workout without heart rate data should have no time in zones", ( t ) => {
+            assert.deepStrictEqual( calcHeartRateAnalysis( { ...workout, heartRateData: undefined }, { bpm: [ 100 ] } ), { zoneSeconds: [ 0 ], recovery: null } );
+        });
+
+        await t.test( "recovery should be null without a sample about a minute after the end", ( t ) => {
+            let recoveryData = [ { date: "2024-03-01 10:05:00 -0500", qty: 80 } ];
+            assert.strictEqual( calcHeartRateAnalysis( { ...workout, heartRateRecovery: recoveryData }, null ).recovery, null );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "each sample should count until the next one", ( t ) => {
+            assert.deepStrictEqual( calcHeartRateAnalysis( workout, { bpm: [ 100, 120, 140 ] } ).zoneSeconds, [ 60, 30, 30 ] );
+        });
+
+        await t.test( "long gaps between samples should count at most a minute", ( t ) => {
+            let gapWorkout = { ...workout, end: "2024-03-01 10:10:00 -0500" };
+            assert.deepStrictEqual( calcHeartRateAnalysis( gapWorkout, { bpm: [ 80 ] } ).zoneSeconds, [ 180 ] );
+        });
+
+        await t.test( "recovery should be the drop from the last sample to a minute after the end", ( t ) => {
+            let workoutA = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) ).workouts[0];
+            assert.strictEqual( calcHeartRateAnalysis( workoutA, null ).recovery, 29 );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // formatHeartRateAnalysis() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "formatHeartRateAnalysis() tests", async ( t ) => {
+        await t.test( "zones with time and recovery should be shown", ( t ) => {
+            assert.strictEqual( formatHeartRateAnalysis( { zoneSeconds: [ 0, 1330, 484, 3725 ], recovery: 28 } ), "Z2 22:10 · Z3 8:04 · Z4 1:02:05 · HRR 28" );
+        });
+
+        await t.test( "nothing to show should give an empty string", ( t ) => {
+            assert.strictEqual( formatHeartRateAnalysis( { zoneSeconds: [ 0, 0 ], recovery: null } ), "" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // validateHeartRateZones() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "validateHeartRateZones() tests", async ( t ) => {
+        await t.test( "invalid zones should be reported", ( t ) => {
+            assert.strictEqual( validateHeartRateZones( { bpm: [ 120, 100 ] } ).length, 1 );
+            assert.strictEqual( validateHeartRateZones( {} ).length, 1 );
+            assert.strictEqual( validateHeartRateZones( { maxHeartRate: 0, age: 300, percentages: [] } ).length, 3 );
+        });
+
+        await t.test( "valid zones should have no problems", ( t ) => {
+            assert.deepStrictEqual( validateHeartRateZones( { bpm: [ 100, 120, 140 ] } ), [] );
+            assert.deepStrictEqual( validateHeartRateZones( { age: 40, percentages: [ 60, 70, 80 ] } ), [] );
+        });
+    });
+});
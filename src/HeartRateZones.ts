@@ -0,0 +1,191 @@
+////////////////////////////////////////////////////////////////////////////////
+// HeartRateZones.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+
+import { parseWorkoutTimestamp } from './WorkoutData';
+import { formatSeconds } from './Units';
+
+////////////////////////////////////////////////////////////////////////////////
+// HeartRateZones - heart rate zones Z1, Z2, ... given either as the lower 
+// bound (bpm) of each zone, or as percentages of max heart rate. Max heart
+// rate is maxHeartRate if given, else 220 - age. Each zone runs up to the 
+// lower bound of the next, the last has no upper bound, and heart rate below
+// Z1 is in no zone.
+////////////////////////////////////////////////////////////////////////////////
+export interface HeartRateZones {
+    bpm?: number[],
+
+    maxHeartRate?: number,
+    age?: number,
+
+    // Lower bounds as percentages of max heart rate, default 
+    // defaultZonePercentages
+    percentages?: number[]
+}
+
+export const defaultZonePercentages = [ 50, 60, 70, 80, 90 ];
+
+////////////////////////////////////////////////////////////////////////////////
+// HeartRateAnalysis - heart rate of one workout
+////////////////////////////////////////////////////////////////////////////////
+export interface HeartRateAnalysis {
+    // Seconds spent in each zone, Z1 first
+    zoneSeconds: number[],
+
+    // Drop in heart rate (bpm) one minute after the end of the workout, null 
+    // if there is not enough data
+    recovery: number | null
+}
+
+// Furthest a recovery sample may be from one minute after the workout, in 
+// seconds
+const recoverySampleTolerance = 30;
+
+// Longest gap between heart rate samples counted towards a zone, in seconds; 
+// longer gaps (e.g. a paused workout) count this long
+const maxSampleSeconds = 60;
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the lower bound (bpm) of each zone of aZones, Z1 first
+////////////////////////////////////////////////////////////////////////////////
+export function getZoneBounds( aZones: HeartRateZones ): number[] {
+    if( aZones.bpm !== undefined ) {
+        return aZones.bpm;
+    }
+
+    let maxHeartRate = aZones.maxHeartRate ?? 220 - ( aZones.age ?? 0 );
+    return ( aZones.percentages ?? defaultZonePercentages ).map( aPercentage => Math.round( maxHeartRate * aPercentage / 100 ) );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Calculate the time aWorkout spent in each of aZones (none if null) from its
+// heartRateData, and its 1 minute heart rate recovery from the last heart rate
+// sample and heartRateRecovery. Samples may be {date, qty} or {date, Avg}.
+////////////////////////////////////////////////////////////////////////////////
+export function calcHeartRateAnalysis( aWorkout: any, aZones: HeartRateZones | null ): HeartRateAnalysis {
+    let bounds = aZones !== null ? getZoneBounds( aZones ) : [];
+    let samples = getSamples( aWorkout.heartRateData );
+    let end = parseWorkoutTimestamp( aWorkout.end ).unix();
+
+    let zoneSeconds = bounds.map( () => 0 );
+    samples.forEach( ( aSample, aIndex ) => {
+        let sampleEnd = aIndex + 1 < samples.length ? samples[aIndex + 1].time : Math.max( end, aSample.time );
+        let zone = getZone( bounds, aSample.bpm );
+        if( zone !== null ) {
+            zoneSeconds[zone] += Math.min( sampleEnd - aSample.time, maxSampleSeconds );
+        }
+    });
+
+    let recovery: number | null = null;
+    let recoverySamples = getSamples( aWorkout.heartRateRecovery );
+    if( samples.length > 0 && recoverySamples.length > 0 ) {
+        let target = end + 60;
+        let nearest = recoverySamples.reduce( ( aNearest, aSample ) => Math.abs( aSample.time - target ) < Math.abs( aNearest.time - target ) ? aSample : aNearest );
+        if( Math.abs( nearest.time - target ) <= recoverySampleTolerance ) {
+            recovery = Math.round( samples[samples.length - 1].bpm - nearest.bpm );
+        }
+    }
+
+    return { zoneSeconds, recovery };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Format aAnalysis for an event body, e.g. "Z2 22:10 · Z3 8:04 · HRR 28", 
+// leaving out zones with no time. Returns "" if there is nothing to show.
+////////////////////////////////////////////////////////////////////////////////
+export function formatHeartRateAnalysis( aAnalysis: HeartRateAnalysis ): string {
+    let ret: string[] = [];
+
+    aAnalysis.zoneSeconds.forEach( ( aSeconds, aIndex ) => {
+        if( Math.round( aSeconds ) > 0 ) {
+            ret.push( "Z" + ( aIndex + 1 ) + " " + formatSeconds( aSeconds ) );
+        }
+    });
+
+    if( aAnalysis.recovery !== null ) {
+        ret.push( "HRR " + aAnalysis.recovery );
+    }
+
+    return ret.join( " · " );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Check aZones for problems, returns a list of problems (empty if aZones is
+// valid)
+////////////////////////////////////////////////////////////////////////////////
+export function validateHeartRateZones( aZones: HeartRateZones ): string[] {
+    let ret: string[] = [];
+
+    let isAscending = ( aValues: number[] ) => aValues.length > 0 && aValues.every( ( aValue, aIndex ) => 
+        typeof aValue === "number" && aValue > 0 && ( aIndex === 0 || aValue > aValues[aIndex - 1] ) 
+    );
+
+    if( aZones.bpm !== undefined ) {
+        if( !Array.isArray( aZones.bpm ) || !isAscending( aZones.bpm ) ) {
+            ret.push( "heartRateZones: bpm must be ascending heart rates" );
+        }
+    } else {
+        if( aZones.maxHeartRate === undefined && aZones.age === undefined ) {
+            ret.push( "heartRateZones: one of bpm, maxHeartRate or age is needed" );
+        }
+        if( aZones.maxHeartRate !== undefined && !( aZones.maxHeartRate > 0 ) ) {
+            ret.push( "heartRateZones: maxHeartRate must be more than 0" );
+        }
+        if( aZones.age !== undefined && !( aZones.age > 0 && aZones.age < 220 ) ) {
+            ret.push( "heartRateZones: age must be from 1 to 219" );
+        }
+        if( aZones.percentages !== undefined && ( !Array.isArray( aZones.percentages ) || !isAscending( aZones.percentages ) ) ) {
+            ret.push( "heartRateZones: percentages must be ascending numbers" );
+        }
+    }
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the heart rate samples in aSamples as unix time and bpm, oldest first,
+// skipping samples without a date or heart rate
+////////////////////////////////////////////////////////////////////////////////
+function getSamples( aSamples: any ): { time: number, bpm: number }[] {
+    return ( Array.isArray( aSamples ) ? aSamples : [] )
+        .filter( aSample => typeof aSample?.date === "string" && typeof ( aSample.qty ?? aSample.Avg ) === "number" )
+        .map( aSample => ({ time: parseWorkoutTimestamp( aSample.date ).unix(), bpm: aSample.qty ?? aSample.Avg }) )
+        .filter( aSample => !isNaN( aSample.time ) )
+        .sort( ( aLeft, aRight ) => aLeft.time - aRight.time );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the index of the zone with aBounds that aBpm is in, or null if it is 
+// below the first zone
+////////////////////////////////////////////////////////////////////////////////
+function getZone( aBounds: number[], aBpm: number ): number | null {
+    let ret: number | null = null;
+    aBounds.forEach( ( aBound, aIndex ) => {
+        if( aBpm >= aBound ) {
+            ret = aIndex;
+        }
+    });
+
+    return ret;
+}
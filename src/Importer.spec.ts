@@ -0,0 +1,165 @@
+////////////////////////////////////////////////////////////////////////////////
+// Importer.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import DataFile from './DataFile';
+import { findImportFiles, formatImportReport, importFiles } from './Importer';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for Importer
+////////////////////////////////////////////////////////////////////////////////
+test( "Importer tests", async ( t ) => {
+    // Setup
+    // Exported files in a directory: B (as posted, with A and B) sorts after A
+    let importDir = fs.mkdtempSync( path.join( os.tmpdir(), "importer-test-" ) );
+    let workoutA = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) );
+    let workoutsAB = JSON.parse( fs.readFileSync( "test-data/workoutA-workoutB.json", 'utf8' ) );
+    fs.writeFileSync( path.join( importDir, "a.json" ), JSON.stringify( workoutA ) );
+    fs.writeFileSync( path.join( importDir, "b.json" ), JSON.stringify( { data: workoutsAB } ) );
+    fs.writeFileSync( path.join( importDir, "c.csv" ), "Workout Type,Start,End\n" );
+    fs.writeFileSync( path.join( importDir, "notes.txt" ), "not an export" );
+
+    let dataFile = await DataFile.open( ":memory:" );
+
+    ////////////////////////////////////////////////////////////////////////////
+    // findImportFiles() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "findImportFiles() tests", async ( t ) => {
+        await t.test( "missing paths should be errors", ( t ) => {
+            assert.deepStrictEqual( findImportFiles( [ path.join( importDir, "missing.json" ) ] ), { files: [], errors: [ { file: path.join( importDir, "missing.json" ), error: "not found" } ] } );
+        });
+
+        await t.test( "directories should give their JSON and CSV files in name order", ( t ) => {
+            let { files, errors } = findImportFiles( [ importDir, "test-data/workoutA.json" ] );
+            assert.deepStrictEqual( files, [ path.join( importDir, "a.json" ), path.join( importDir, "b.json" ), path.join( importDir, "c.csv" ), "test-data/workoutA.json" ] );
+            assert.deepStrictEqual( errors, [] );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // importFiles() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "importFiles() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "files that are not Auto Export data should be errors", async ( t ) => {
+            fs.writeFileSync( path.join( importDir, "broken.json" ), "{ \"workouts\": " );
+            fs.writeFileSync( path.join( importDir, "other.json" ), "{ \"data\": { \"metrics\": [] } }" );
+
+            let report = await importFiles( dataFile, [ path.join( importDir, "broken.json" ), path.join( importDir, "other.json" ) ], "errors" );
+            assert.strictEqual( report.files, 0 );
+            assert.deepStrictEqual( report.errors.map( aError => aError.file ), [ path.join( importDir, "broken.json" ), path.join( importDir, "other.json" ) ] );
+            assert.match( report.errors[1].error, /workouts/ );
+        });
+
+        await t.test( "invalid workouts should be stored but reported", async ( t ) => {
+            let invalidFile = path.join( importDir, "invalid.json" );
+            fs.writeFileSync( invalidFile, JSON.stringify( { workouts: [ { ...workoutA.workouts[0], distance: "far" } ] } ) );
+
+            let report = await importFiles( dataFile, [ invalidFile ], "invalid" );
+            assert.deepStrictEqual( [ report.new, report.duplicate, report.updated, report.invalid ], [ 0, 0, 0, 1 ] );
+            assert.strictEqual( ( await dataFile.getWorkouts( "invalid" ) ).length, 1 );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "workouts should be new the first time and duplicates after", async ( t ) => {
+            let report = await importFiles( dataFile, findImportFiles( [ importDir ] ).files.filter( aFile => /[ab]\.json$/.test( aFile ) ) );
+            assert.strictEqual( report.files, 2 );
+            assert.deepStrictEqual( [ report.new, report.duplicate, report.updated, report.invalid ], [ 2, 1, 0, 0 ] );
+            assert.strictEqual( ( await dataFile.getWorkouts() ).length, 2 );
+        });
+
+        await t.test( "changed workouts should be updated", async ( t ) => {
+            let changedFile = path.join( importDir, "changed.json" );
+            fs.writeFileSync( changedFile, JSON.stringify( { workouts: [ { ...workoutA.workouts[0], activeEnergy: { qty: 999, units: "kcal" } } ] } ) );
+
+            let report = await importFiles( dataFile, [ changedFile ] );
+            assert.deepStrictEqual( [ report.new, report.duplicate, report.updated, report.invalid ], [ 0, 0, 1, 0 ] );
+            assert.strictEqual( ( await dataFile.getWorkoutHistory( workoutA.workouts[0] ) ).length, 1 );
+        });
+
+        await t.test( "the last copy of a workout in a file should be kept", async ( t ) => {
+            let repeatedFile = path.join( importDir, "repeated.json" );
+            let workout = workoutA.workouts[0];
+            fs.writeFileSync( repeatedFile, JSON.stringify( { workouts: [ workout, { ...workout, activeEnergy: { qty: 5, units: "kcal" } } ] } ) );
+
+            let report = await importFiles( dataFile, [ repeatedFile ], "repeated" );
+            assert.deepStrictEqual( [ report.new, report.duplicate, report.updated, report.invalid ], [ 1, 1, 0, 0 ] );
+            assert.strictEqual( ( await dataFile.getWorkouts( "repeated" ) )[0].activeEnergy.qty, 5 );
+        });
+
+        await t.test( "workout CSV files should be parsed into workouts", async ( t ) => {
+            let report = await importFiles( dataFile, [ "test-data/workouts.csv" ], "csv" );
+            assert.deepStrictEqual( [ report.new, report.duplicate, report.updated, report.invalid ], [ 2, 0, 0, 0 ] );
+            assert.deepStrictEqual( ( await dataFile.getWorkouts( "csv" ) ).map( aWorkout => aWorkout.name ), [ "Outdoor Walk", "Traditional Strength Training, Upper Body" ] );
+        });
+
+        await t.test( "CSV files without the columns identifying workouts should be errors", async ( t ) => {
+            let badCsvFile = path.join( importDir, "bad.csv" );
+            fs.writeFileSync( badCsvFile, "Workout Type,Distance (mi)\nWalk,1\n" );
+
+            let report = await importFiles( dataFile, [ badCsvFile ], "csv" );
+            assert.deepStrictEqual( report.errors, [ { file: badCsvFile, error: "CSV has no Start column, CSV has no End column" } ] );
+        });
+
+        await t.test( "metrics should be merged and counted", async ( t ) => {
+            let metricsFile = path.join( importDir, "metrics.json" );
+            fs.writeFileSync( metricsFile, JSON.stringify( { data: { workouts: [], metrics: [ { name: "step_count", units: "count", data: [ { date: "2024-01-01 00:00:00 -0500", qty: 100 } ] } ] } } ) );
+
+            let report = await importFiles( dataFile, [ metricsFile ], "metrics" );
+            assert.deepStrictEqual( report.metrics, { new: 1, updated: 0, unchanged: 0 } );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // formatImportReport() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "formatImportReport() should list counts and errors", ( t ) => {
+        let lines = formatImportReport({
+            files: 2, new: 3, duplicate: 1, updated: 0, invalid: 2,
+            metrics: { new: 4, updated: 0, unchanged: 1 },
+            symptoms: { new: 0, updated: 0, unchanged: 0 },
+            errors: [ { file: "x.json", error: "not found" } ]
+        });
+        assert.deepStrictEqual( lines, [
+            "Imported 2 files",
+            "Workouts: 3 new, 1 duplicate, 0 updated, 2 invalid",
+            "Metrics: 4 new, 0 updated, 1 unchanged",
+            "Symptoms: 0 new, 0 updated, 0 unchanged",
+            "Could not import x.json: not found"
+        ]);
+    });
+
+    // Cleanup
+    await dataFile.close();
+    fs.rmSync( importDir, { recursive: true } );
+});
@@ -0,0 +1,179 @@
+////////////////////////////////////////////////////////////////////////////////
+// Importer.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import * as fs from "fs";
+import * as path from "path";
+
+import DataFile, { MergeCounts, defaultUser } from "./DataFile";
+import { getWorkoutIdentity, isExportData } from "./WorkoutData";
+import { parseWorkoutCsv } from "./WorkoutCsv";
+
+////////////////////////////////////////////////////////////////////////////////
+// ImportReport - result of importFiles()
+////////////////////////////////////////////////////////////////////////////////
+export interface ImportReport {
+    // Number of files imported
+    files: number,
+
+    // Numbers of workouts that were not stored before, were already stored 
+    // with the same data (or appear more than once in a file), or were stored
+    // with different data
+    new: number,
+    duplicate: number,
+    updated: number,
+
+    // Number of workouts that do not match the WorkoutData schema; they are 
+    // stored like posted ones, but not put on the calendar
+    invalid: number,
+
+    // Counts of merged metric data points and symptoms
+    metrics: MergeCounts,
+    symptoms: MergeCounts,
+
+    // Files that could not be imported and workouts that could not be 
+    // stored, with the reason
+    errors: { file: string, error: string }[]
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the files to import for aPaths, each a file or a directory whose .json 
+// and .csv files are imported in name order. Paths that do not exist are 
+// returned as errors.
+////////////////////////////////////////////////////////////////////////////////
+export function findImportFiles( aPaths: string[] ): { files: string[], errors: { file: string, error: string }[] } {
+    let files: string[] = [];
+    let errors: { file: string, error: string }[] = [];
+
+    aPaths.forEach( aPath => {
+        if( !fs.existsSync( aPath ) ) {
+            errors.push( { file: aPath, error: "not found" } );
+        } else if( fs.statSync( aPath ).isDirectory() ) {
+            fs.readdirSync( aPath )
+                .filter( aName => /\.(json|csv)$/i.test( aName ) )
+                .sort()
+                .forEach( aName => files.push( path.join( aPath, aName ) ) );
+        } else {
+            files.push( aPath );
+        }
+    });
+
+    return { files, errors };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Import aFiles exported by the Auto Export app into aDataFile for aUser: JSON
+// (as posted to /workoutData, or just the data in it), or workout CSV if the
+// file name ends in .csv. Files are imported one at a time in order, through
+// DataFile.mergeData() like posted data. Returns an ImportReport.
+////////////////////////////////////////////////////////////////////////////////
+export async function importFiles( aDataFile: DataFile, aFiles: string[], aUser: string = defaultUser ): Promise<ImportReport> {
+    let ret: ImportReport = {
+        files: 0,
+        new: 0,
+        duplicate: 0,
+        updated: 0,
+        invalid: 0,
+        metrics: { new: 0, updated: 0, unchanged: 0 },
+        symptoms: { new: 0, updated: 0, unchanged: 0 },
+        errors: []
+    };
+
+    for( let file of aFiles ) {
+        let data: any;
+        try {
+            if( /\.csv$/i.test( file ) ) {
+                let csv = parseWorkoutCsv( fs.readFileSync( file, "utf8" ) );
+                if( csv.errors.length > 0 ) {
+                    ret.errors.push( { file, error: csv.errors.join( ", " ) } );
+                    continue;
+                }
+                data = { workouts: csv.workouts };
+            } else {
+                let parsed = JSON.parse( fs.readFileSync( file, "utf8" ) );
+                data = parsed?.data ?? parsed;
+            }
+        } catch( e ) {
+            ret.errors.push( { file, error: e.message } );
+            continue;
+        }
+        if( !isExportData( data ) ) {
+            ret.errors.push( { file, error: "not Auto Export data, expected a workouts array" } );
+            continue;
+        }
+
+        // Keep the last copy of a workout exported more than once, the others 
+        // count as duplicates rather than updates
+        let workouts: any[] = [];
+        let indexes: { [identity: string]: number } = {};
+        data.workouts.forEach( aWorkout => {
+            let identity = getWorkoutIdentity( aWorkout );
+            if( indexes[identity] !== undefined ) {
+                workouts[indexes[identity]] = aWorkout;
+                ret.duplicate++;
+            } else {
+                indexes[identity] = workouts.push( aWorkout ) - 1;
+            }
+        });
+
+        let report = await aDataFile.mergeData( { ...data, workouts }, undefined, undefined, aUser );
+        let invalid = report.invalid.map( aInvalid => aInvalid.workout );
+        invalid.forEach( aWorkout => console.log( "importFiles() - invalid workout \"" + aWorkout?.name + "\" at " + aWorkout?.start + " in " + file ) );
+        ret.invalid += invalid.length;
+        report.failed.forEach( aFailed => ret.errors.push( { file, error: "workout \"" + aFailed.workout?.name + "\" at " + aFailed.workout?.start + ": " + aFailed.error } ) );
+
+        ret.new += report.new.filter( aWorkout => invalid.indexOf( aWorkout ) === -1 ).length;
+        ret.updated += report.updated.filter( aWorkout => invalid.indexOf( aWorkout ) === -1 ).length;
+        ret.duplicate += report.unchanged.filter( aWorkout => invalid.indexOf( aWorkout ) === -1 ).length;
+        addMergeCounts( ret.metrics, report.metrics );
+        addMergeCounts( ret.symptoms, report.symptoms );
+        ret.files++;
+    }
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Format aReport as lines to print
+////////////////////////////////////////////////////////////////////////////////
+export function formatImportReport( aReport: ImportReport ): string[] {
+    let ret = [
+        "Imported " + aReport.files + " files",
+        "Workouts: " + aReport.new + " new, " + aReport.duplicate + " duplicate, " + aReport.updated + " updated, " + aReport.invalid + " invalid",
+        "Metrics: " + aReport.metrics.new + " new, " + aReport.metrics.updated + " updated, " + aReport.metrics.unchanged + " unchanged",
+        "Symptoms: " + aReport.symptoms.new + " new, " + aReport.symptoms.updated + " updated, " + aReport.symptoms.unchanged + " unchanged"
+    ];
+
+    aReport.errors.forEach( aError => ret.push( "Could not import " + aError.file + ": " + aError.error ) );
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Add the counts in aCounts to aTotals
+////////////////////////////////////////////////////////////////////////////////
+function addMergeCounts( aTotals: MergeCounts, aCounts: MergeCounts ) {
+    aTotals.new += aCounts.new;
+    aTotals.updated += aCounts.updated;
+    aTotals.unchanged += aCounts.unchanged;
+}
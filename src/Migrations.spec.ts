@@ -0,0 +1,131 @@
+////////////////////////////////////////////////////////////////////////////////
+// Migrations.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import sqlite3 from "sqlite3";
+import * as sqliteAsync from "sqlite";
+
+import DataFile from "./DataFile";
+import { defaultMigrationsDir, getMigrations, getSchemaVersion, migrate } from "./Migrations";
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for Migrations
+////////////////////////////////////////////////////////////////////////////////
+test( "Migrations tests", async ( t ) => {
+    const latestVersion = getMigrations().length;
+
+    async function openMemoryDb() {
+        return await sqliteAsync.open({ filename: ":memory:", driver: sqlite3.Database });
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Sunny day
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "new db should be migrated to the latest version", async ( t ) => {
+        let db = await openMemoryDb();
+        assert.strictEqual( await migrate( db ), latestVersion );
+        assert.strictEqual( await getSchemaVersion( db ), latestVersion );
+        await db.close();
+    });
+
+    await t.test( "migrating an up to date db should do nothing", async ( t ) => {
+        let db = await openMemoryDb();
+        await migrate( db );
+        assert.strictEqual( await migrate( db ), latestVersion );
+        assert.strictEqual( ( await db.get( 'SELECT COUNT(*) AS "count" FROM schema_version' ) ).count, latestVersion );
+        await db.close();
+    });
+
+    await t.test( "workouts stored more than once by the original schema should be kept once", async ( t ) => {
+        let db = await openMemoryDb();
+        await db.exec( fs.readFileSync( path.join( defaultMigrationsDir, "001-workouts.sql" ), 'utf8' ) );
+        let workout = { name: "Walking", start: "2023-06-06 20:38:38 -0500", end: "2023-06-06 20:50:43 -0500" };
+        await db.run( "INSERT INTO workouts (value) VALUES (?)", JSON.stringify( workout ) );
+        await db.run( "INSERT INTO workouts (value) VALUES (?)", JSON.stringify( { ...workout, distance: 1 } ) );
+        await db.run( "INSERT INTO workouts (value) VALUES (?)", JSON.stringify( { ...workout, name: "Running" } ) );
+
+        assert.strictEqual( await migrate( db ), latestVersion );
+        let rows = await db.all( "SELECT rowid, value FROM workouts ORDER BY rowid" );
+        assert.deepStrictEqual( rows.map( aRow => JSON.parse( aRow.value ) ), [ { ...workout, distance: 1 }, { ...workout, name: "Running" } ] );
+        let history = await db.all( "SELECT workout_rowid, value FROM workouts_history" );
+        assert.deepStrictEqual( history.map( aRow => [ aRow.workout_rowid, JSON.parse( aRow.value ) ] ), [ [ rows[0].rowid, workout ] ] );
+        await db.close();
+    });
+
+    await t.test( "db with the original schema should be upgraded", async ( t ) => {
+        let db = await openMemoryDb();
+        await db.exec( fs.readFileSync( path.join( defaultMigrationsDir, "001-workouts.sql" ), 'utf8' ) );
+
+        assert.strictEqual( await migrate( db ), latestVersion );
+        assert.notStrictEqual( await db.get( "SELECT name FROM sqlite_master WHERE name = 'workouts_history'" ), undefined );
+        await db.close();
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Rainy day
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "db from a newer version should be refused", async ( t ) => {
+        const newerDbName = "migrations-newer-test-db.db";
+        if( fs.existsSync( newerDbName ) ) {
+            console.warn( "Removing " + newerDbName + " for test, should not be present." );
+            fs.unlinkSync( newerDbName );
+        }
+
+        let db = await sqliteAsync.open({ filename: newerDbName, driver: sqlite3.Database });
+        await migrate( db );
+        await db.run( "INSERT INTO schema_version (version, name, applied) VALUES (?, ?, ?)", latestVersion + 1, "future", "" );
+        await db.close();
+
+        await assert.rejects( DataFile.open( newerDbName ), /newer/ );
+        fs.unlinkSync( newerDbName );
+    });
+
+    await t.test( "failed migration should be rolled back", async ( t ) => {
+        let migrationsDir = fs.mkdtempSync( path.join( os.tmpdir(), "migrations-test-" ) );
+        fs.copyFileSync( path.join( defaultMigrationsDir, "001-workouts.sql" ), path.join( migrationsDir, "001-workouts.sql" ) );
+        fs.writeFileSync( path.join( migrationsDir, "002-broken.sql" ), "CREATE TABLE half_done ( value TEXT ); SELECT * FROM not_a_table;" );
+
+        let db = await openMemoryDb();
+        await assert.rejects( migrate( db, migrationsDir ), /broken/ );
+        assert.strictEqual( await getSchemaVersion( db ), 1 );
+        assert.strictEqual( await db.get( "SELECT name FROM sqlite_master WHERE name = 'half_done'" ), undefined );
+        await db.close();
+
+        fs.rmSync( migrationsDir, { recursive: true } );
+    });
+
+    await t.test( "gap in migration numbers should be an error", async ( t ) => {
+        let migrationsDir = fs.mkdtempSync( path.join( os.tmpdir(), "migrations-test-" ) );
+        fs.writeFileSync( path.join( migrationsDir, "001-first.sql" ), "" );
+        fs.writeFileSync( path.join( migrationsDir, "003-third.sql" ), "" );
+
+        assert.throws( () => getMigrations( migrationsDir ), /expected migration 2/ );
+        fs.rmSync( migrationsDir, { recursive: true } );
+    });
+});
@@ -0,0 +1,141 @@
+////////////////////////////////////////////////////////////////////////////////
+// Migrations.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import fs from "fs";
+import path from "path";
+import * as sqliteAsync from "sqlite";
+
+////////////////////////////////////////////////////////////////////////////////
+// Migrations
+//
+// The schema of a DataFile is built up by numbered migrations in sql/migrations
+// named like "001-workouts.sql". The schema_version table records which
+// migrations a db has had; each migration not yet applied is run in its own 
+// transaction when the db is opened.
+////////////////////////////////////////////////////////////////////////////////
+export const defaultMigrationsDir = path.join( __dirname, "..", "sql", "migrations" );
+
+////////////////////////////////////////////////////////////////////////////////
+// Migration - one numbered migration file
+////////////////////////////////////////////////////////////////////////////////
+export interface Migration {
+    version: number,
+    name: string,
+    filename: string
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the migrations in aMigrationsDir ordered by version
+////////////////////////////////////////////////////////////////////////////////
+export function getMigrations( aMigrationsDir: string = defaultMigrationsDir ): Migration[] {
+    let ret: Migration[] = [];
+
+    fs.readdirSync( aMigrationsDir ).forEach( aFilename => {
+        let match = /^(\d+)-(.+)\.sql$/.exec( aFilename );
+        if( match ) {
+            ret.push({
+                version: Number( match[1] ),
+                name: match[2],
+                filename: path.join( aMigrationsDir, aFilename )
+            });
+        }
+    });
+
+    ret.sort( ( aLeft, aRight ) => aLeft.version - aRight.version );
+    ret.forEach( ( aMigration, aIndex ) => {
+        if( aMigration.version !== aIndex + 1 ) {
+            throw new Error( "Migrations::getMigrations() - expected migration " + ( aIndex + 1 ) + ", found " + path.basename( aMigration.filename ) );
+        }
+    });
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the schema version of aDb, 0 for an empty db
+////////////////////////////////////////////////////////////////////////////////
+export async function getSchemaVersion( aDb: sqliteAsync.Database ): Promise<number> {
+    let row = await aDb.get( 'SELECT MAX(version) AS "version" FROM schema_version' );
+    return row?.version ?? 0;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Bring aDb up to date with the migrations in aMigrationsDir, returns the 
+// resulting schema version. Throws if aDb has a newer schema than the known 
+// migrations (it was written by a newer version of this app) or if a migration
+// fails, in which case that migration is rolled back.
+////////////////////////////////////////////////////////////////////////////////
+export async function migrate( aDb: sqliteAsync.Database, aMigrationsDir: string = defaultMigrationsDir ): Promise<number> {
+    let migrations = getMigrations( aMigrationsDir );
+
+    await aDb.exec( 
+        'CREATE TABLE IF NOT EXISTS schema_version (' +
+        '    version INTEGER PRIMARY KEY,' +
+        '    name TEXT,' +
+        '    applied TEXT' +
+        ')'
+    );
+
+    let version = await getSchemaVersion( aDb );
+    if( version === 0 ) {
+        version = await recordUnversionedSchema( aDb, migrations );
+    }
+
+    if( version > migrations.length ) {
+        throw new Error( "Migrations::migrate() - db schema version " + version + " is newer than this app supports (" + migrations.length + ")" );
+    }
+
+    for( let migration of migrations.slice( version ) ) {
+        console.log( "Migrations::migrate() - applying migration " + migration.version + " (" + migration.name + ")" );
+
+        await aDb.exec( 'BEGIN' );
+        try {
+            await aDb.exec( fs.readFileSync( migration.filename, 'utf8' ) );
+            await aDb.run( 'INSERT INTO schema_version (version, name, applied) VALUES (?, ?, ?)', migration.version, migration.name, new Date().toISOString() );
+            await aDb.exec( 'COMMIT' );
+        } catch( e ) {
+            await aDb.exec( 'ROLLBACK' );
+            throw new Error( "Migrations::migrate() - migration " + migration.version + " (" + migration.name + ") failed: " + e );
+        }
+
+        version = migration.version;
+    }
+
+    return version;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Dbs created before schema_version existed have the original workouts table, 
+// which is migration 1. Record it for such a db, returns the resulting schema 
+// version (0 for an empty db).
+////////////////////////////////////////////////////////////////////////////////
+async function recordUnversionedSchema( aDb: sqliteAsync.Database, aMigrations: Migration[] ): Promise<number> {
+    let workouts = await aDb.get( "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'workouts'" );
+    if( workouts === undefined ) {
+        return 0;
+    }
+
+    await aDb.run( 'INSERT INTO schema_version (version, name, applied) VALUES (?, ?, ?)', aMigrations[0].version, aMigrations[0].name, "existing" );
+    return 1;
+}
@@ -0,0 +1,72 @@
+////////////////////////////////////////////////////////////////////////////////
+// Periods.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import dayjs from 'dayjs';
+import dayjsutc from 'dayjs/plugin/utc';
+import dayjstimezone from 'dayjs/plugin/timezone';
+dayjs.extend( dayjsutc );
+dayjs.extend( dayjstimezone );
+
+////////////////////////////////////////////////////////////////////////////////
+// Period - a span of days workouts are grouped by, "week" is an ISO week 
+// (Monday first)
+////////////////////////////////////////////////////////////////////////////////
+export type Period = "day" | "week" | "month";
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the first day (YYYY-MM-DD) of the aPeriod that aDay (YYYY-MM-DD) is in
+////////////////////////////////////////////////////////////////////////////////
+export function getPeriodStart( aDay: string, aPeriod: Period ): string {
+    let day = dayjs.utc( aDay );
+
+    if( aPeriod === "week" ) {
+        return day.subtract( ( day.day() + 6 ) % 7, "day" ).format( "YYYY-MM-DD" );
+    } else if( aPeriod === "month" ) {
+        return day.startOf( "month" ).format( "YYYY-MM-DD" );
+    }
+
+    return aDay;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the first day of the aPeriod aCount periods after the one starting on 
+// aPeriodStart (before it if aCount is negative)
+////////////////////////////////////////////////////////////////////////////////
+export function addPeriods( aPeriodStart: string, aCount: number, aPeriod: Period ): string {
+    return dayjs.utc( aPeriodStart ).add( aCount, aPeriod ).format( "YYYY-MM-DD" );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the last day of the aPeriod starting on aPeriodStart
+////////////////////////////////////////////////////////////////////////////////
+export function getPeriodEnd( aPeriodStart: string, aPeriod: Period ): string {
+    return dayjs.utc( addPeriods( aPeriodStart, 1, aPeriod ) ).subtract( 1, "day" ).format( "YYYY-MM-DD" );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get today (YYYY-MM-DD) in aTimezone, or the local timezone if null
+////////////////////////////////////////////////////////////////////////////////
+export function getToday( aTimezone: string | null ): string {
+    return ( aTimezone ? dayjs().tz( aTimezone ) : dayjs() ).format( "YYYY-MM-DD" );
+}
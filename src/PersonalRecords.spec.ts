@@ -0,0 +1,132 @@
+////////////////////////////////////////////////////////////////////////////////
+// PersonalRecords.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+
+import test from "node:test";
+import assert from "node:assert";
+
+import { IPersonalRecordsConfig, calcPersonalRecords, formatPersonalRecord, validatePersonalRecordsConfig } from './PersonalRecords';
+import { defaultWorkoutTypes } from './WorkoutTypes';
+import { getWorkoutUid } from './WorkoutData';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for PersonalRecords
+////////////////////////////////////////////////////////////////////////////////
+test( "PersonalRecords tests", async ( t ) => {
+    let createWorkout = ( aName: string, aDay: string, aMinutes: number, aDistance: number, aActiveEnergy: number, aAscent?: number ): any => {
+        let ret: any = {
+            name: aName,
+            start: aDay + " 07:00:00 -0500",
+            end: aDay + " 0" + ( 7 + Math.floor( aMinutes / 60 ) ) + ":" + String( aMinutes % 60 ).padStart( 2, "0" ) + ":00 -0500",
+            activeEnergy: { qty: aActiveEnergy, units: "kcal" },
+            stepCadence: { qty: 160 },
+            distance: { qty: aDistance, units: "mi" },
+            speed: { qty: 6 },
+            avgHeartRate: { qty: 150 },
+            maxHeartRate: { qty: 170 }
+        };
+        if( aAscent !== undefined ) {
+            ret.elevation = { ascent: aAscent, descent: 0, units: "ft" };
+        }
+        return ret;
+    };
+
+    let config: IPersonalRecordsConfig = {
+        personalRecords: { paceDistances: [ 3 ] },
+        workoutTypes: defaultWorkoutTypes,
+        unitSystem: "imperial"
+    };
+
+    let workouts = [
+        createWorkout( "Running", "2024-03-01", 30, 3, 300, 100 ),
+        createWorkout( "Running", "2024-03-02", 48, 5, 450 ),
+        createWorkout( "Running", "2024-03-03", 20, 2.5, 250 ),
+        createWorkout( "Running", "2024-03-04", 27, 3, 280, 150 ),
+        createWorkout( "Walking", "2024-03-05", 90, 4, 350 )
+    ];
+
+    ////////////////////////////////////////////////////////////////////////////
+    // calcPersonalRecords() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "calcPersonalRecords() tests", async ( t ) => {
+        let report = calcPersonalRecords( workouts, config );
+        let record = ( aType: string, aRecord: string ) => report.records.find( aEntry => aEntry.type === aType && aEntry.record === aRecord );
+
+        await t.test( "the first workout of a type should set records without being new records", ( t ) => {
+            assert.strictEqual( report.newRecords[getWorkoutUid( workouts[0] )], undefined );
+            assert.strictEqual( record( "Cardio - walk", "distance" )?.value, 4 );
+            assert.strictEqual( record( "Cardio - walk", "distance" )?.previous, null );
+        });
+
+        await t.test( "better workouts should set new records, with the value they beat", ( t ) => {
+            let newRecords = report.newRecords[getWorkoutUid( workouts[1] )];
+            assert.deepStrictEqual( newRecords.map( aRecord => aRecord.record ), [ "distance", "activeEnergy", "duration", "pace-3" ] );
+            assert.strictEqual( newRecords[0].previous, 3 );
+            assert.strictEqual( newRecords[0].text, "5.00 miles" );
+        });
+
+        await t.test( "pace should only count workouts of at least the distance, lower being better", ( t ) => {
+            assert.strictEqual( report.newRecords[getWorkoutUid( workouts[2] )], undefined );
+            assert.deepStrictEqual( report.newRecords[getWorkoutUid( workouts[3] )].map( aRecord => aRecord.record ), [ "ascent", "pace-3" ] );
+            assert.strictEqual( record( "Cardio - run", "pace-3" )?.text, "9:00 /mi" );
+            assert.strictEqual( record( "Cardio - run", "pace-3" )?.label, "Fastest pace over 3 miles" );
+        });
+
+        await t.test( "records should be kept per workout type", ( t ) => {
+            assert.strictEqual( record( "Cardio - run", "duration" )?.value, 48 );
+            assert.strictEqual( record( "Cardio - walk", "duration" )?.value, 90 );
+            assert.strictEqual( record( "Cardio - walk", "ascent" ), undefined );
+        });
+
+        await t.test( "records should be in the unit system", ( t ) => {
+            let metricReport = calcPersonalRecords( workouts, { ...config, unitSystem: "metric", personalRecords: { paceDistances: [ 5 ] } } );
+            let distance = metricReport.records.find( aEntry => aEntry.type === "Cardio - run" && aEntry.record === "distance" );
+            assert.strictEqual( distance?.text, "8.05 km" );
+            let pace = metricReport.records.find( aEntry => aEntry.type === "Cardio - run" && aEntry.record === "pace-5" );
+            assert.strictEqual( pace?.label, "Fastest pace over 5 km" );
+            assert.strictEqual( pace?.workoutId, getWorkoutUid( workouts[1] ) );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // formatPersonalRecord() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "formatPersonalRecord() tests", async ( t ) => {
+        await t.test( "record should be shown with its label", ( t ) => {
+            let newRecords = calcPersonalRecords( workouts, config ).newRecords[getWorkoutUid( workouts[1] )];
+            assert.strictEqual( formatPersonalRecord( newRecords[0] ), "🏆 Longest distance: 5.00 miles" );
+            assert.strictEqual( formatPersonalRecord( newRecords[2] ), "🏆 Longest duration: 48:00" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // validatePersonalRecordsConfig() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "validatePersonalRecordsConfig() tests", async ( t ) => {
+        await t.test( "distances that are not more than 0 should be reported", ( t ) => {
+            assert.strictEqual( validatePersonalRecordsConfig( { paceDistances: [ 1, 0 ] } ).length, 1 );
+            assert.deepStrictEqual( validatePersonalRecordsConfig( { paceDistances: [ 1, 3.1 ] } ), [] );
+        });
+    });
+});
@@ -0,0 +1,194 @@
+////////////////////////////////////////////////////////////////////////////////
+// PersonalRecords.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+
+import WorkoutData, { getWorkoutMinutes, getWorkoutUid, isWorkoutData } from './WorkoutData';
+import { WorkoutTypeRule, findWorkoutTypeRule, getWorkoutTypeTitle } from './WorkoutTypes';
+import { UnitSystem, formatSeconds, getUnitLabel, getWorkoutValue } from './Units';
+
+////////////////////////////////////////////////////////////////////////////////
+// PersonalRecordsConfig - which personal records are tracked. Longest 
+// distance, most active energy, longest duration and biggest ascent are 
+// always tracked; fastest pace is tracked over each of paceDistances (in 
+// miles or km), among workouts at least that long.
+////////////////////////////////////////////////////////////////////////////////
+export interface PersonalRecordsConfig {
+    paceDistances: number[]
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// IPersonalRecordsConfig - what calcPersonalRecords() needs from the app 
+// config
+////////////////////////////////////////////////////////////////////////////////
+export interface IPersonalRecordsConfig {
+    personalRecords: PersonalRecordsConfig | null,
+    workoutTypes: WorkoutTypeRule[],
+    unitSystem: UnitSystem
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// PersonalRecord - the best value of one record for one workout type
+////////////////////////////////////////////////////////////////////////////////
+export interface PersonalRecord {
+    // Event title of the workout type, e.g. "Cardio - run"
+    type: string,
+
+    // Which record: distance, activeEnergy, duration, ascent or pace-{distance}
+    record: string,
+
+    // e.g. "Longest distance", "Fastest pace over 5 km"
+    label: string,
+
+    // Value in the configured unit system (minutes per mile or km for pace,
+    // minutes for duration), and formatted for display
+    value: number,
+    text: string,
+
+    // Workout that set the record
+    workoutId: string,
+    start: string,
+
+    // Value of the record it beat, null if it was the first of its type
+    previous: number | null
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// PersonalRecordReport - current personal records, and the records each 
+// workout set when it beat an earlier one
+////////////////////////////////////////////////////////////////////////////////
+export interface PersonalRecordReport {
+    records: PersonalRecord[],
+    newRecords: { [workoutId: string]: PersonalRecord[] }
+}
+
+// A record: how to get its value from a workout (undefined if the workout 
+// has none) and whether lower values are better
+interface RecordRule {
+    record: string,
+    label: string,
+    getValue: ( aWorkout: WorkoutData, aUnitSystem: UnitSystem ) => number | undefined,
+    format: ( aValue: number, aUnitSystem: UnitSystem ) => string,
+    lowerIsBetter?: boolean
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Calculate the personal records of aWorkouts (oldest first) for each workout
+// type with aConfig. Workouts that are not valid or match no workout type rule
+// are skipped.
+////////////////////////////////////////////////////////////////////////////////
+export function calcPersonalRecords( aWorkouts: any[], aConfig: IPersonalRecordsConfig ): PersonalRecordReport {
+    let rules = getRecordRules( aConfig.personalRecords?.paceDistances ?? [], aConfig.unitSystem );
+    let best: { [key: string]: PersonalRecord } = {};
+    let ret: PersonalRecordReport = { records: [], newRecords: {} };
+
+    aWorkouts.filter( aWorkout => isWorkoutData( aWorkout ) ).forEach( ( aWorkout: WorkoutData ) => {
+        let typeRule = findWorkoutTypeRule( aConfig.workoutTypes, aWorkout );
+        if( typeRule === null ) {
+            return;
+        }
+
+        let type = getWorkoutTypeTitle( typeRule, aWorkout );
+        rules.forEach( aRule => {
+            let value = aRule.getValue( aWorkout, aConfig.unitSystem );
+            if( value === undefined || !( value > 0 ) ) {
+                return;
+            }
+
+            let key = type + "|" + aRule.record;
+            let previous = best[key];
+            if( previous !== undefined && ( aRule.lowerIsBetter ? value >= previous.value : value <= previous.value ) ) {
+                return;
+            }
+
+            best[key] = {
+                type: type,
+                record: aRule.record,
+                label: aRule.label,
+                value: value,
+                text: aRule.format( value, aConfig.unitSystem ),
+                workoutId: getWorkoutUid( aWorkout ),
+                start: aWorkout.start,
+                previous: previous?.value ?? null
+            };
+
+            if( previous !== undefined ) {
+                ret.newRecords[best[key].workoutId] = ( ret.newRecords[best[key].workoutId] ?? [] ).concat( best[key] );
+            }
+        });
+    });
+
+    ret.records = Object.keys( best ).sort().map( aKey => best[aKey] );
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Format aRecord for an event body, e.g. "🏆 Longest distance: 5.20 miles"
+////////////////////////////////////////////////////////////////////////////////
+export function formatPersonalRecord( aRecord: PersonalRecord ): string {
+    return "🏆 " + aRecord.label + ": " + aRecord.text;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Check aConfig for problems, returns a list of problems (empty if aConfig is
+// valid)
+////////////////////////////////////////////////////////////////////////////////
+export function validatePersonalRecordsConfig( aConfig: PersonalRecordsConfig ): string[] {
+    if( !Array.isArray( aConfig.paceDistances ) || aConfig.paceDistances.some( aDistance => !( aDistance > 0 ) ) ) {
+        return [ "personalRecords: paceDistances must be distances more than 0" ];
+    }
+
+    return [];
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the records tracked with aPaceDistances in aUnitSystem
+////////////////////////////////////////////////////////////////////////////////
+function getRecordRules( aPaceDistances: number[], aUnitSystem: UnitSystem ): RecordRule[] {
+    let formatValue = ( aPath: string, aPrecision: number ) => ( aValue: number, aUnitSystem: UnitSystem ) => 
+        aValue.toLocaleString( "en-US", { minimumFractionDigits: aPrecision, maximumFractionDigits: aPrecision } ) + " " + getUnitLabel( aPath, aUnitSystem );
+    let paceUnit = aUnitSystem === "metric" ? "/km" : "/mi";
+
+    let ret: RecordRule[] = [
+        { record: "distance", label: "Longest distance", getValue: ( aWorkout, aUnitSystem ) => getWorkoutValue( aWorkout, "distance", aUnitSystem ), format: formatValue( "distance", 2 ) },
+        { record: "activeEnergy", label: "Most active energy", getValue: ( aWorkout, aUnitSystem ) => getWorkoutValue( aWorkout, "activeEnergy", aUnitSystem ), format: formatValue( "activeEnergy", 0 ) },
+        { record: "duration", label: "Longest duration", getValue: ( aWorkout ) => getWorkoutMinutes( aWorkout ), format: ( aValue ) => formatSeconds( aValue * 60 ) },
+        { record: "ascent", label: "Biggest ascent", getValue: ( aWorkout, aUnitSystem ) => getWorkoutValue( aWorkout, "elevation.ascent", aUnitSystem ), format: formatValue( "elevation.ascent", 0 ) }
+    ];
+
+    aPaceDistances.forEach( aDistance => {
+        let distanceLabel = aDistance + ( aUnitSystem === "metric" ? " km" : ( aDistance === 1 ? " mile" : " miles" ) );
+        ret.push({
+            record: "pace-" + aDistance,
+            label: "Fastest pace over " + distanceLabel,
+            getValue: ( aWorkout, aUnitSystem ) => {
+                let distance = getWorkoutValue( aWorkout, "distance", aUnitSystem );
+                return distance >= aDistance ? getWorkoutMinutes( aWorkout ) / distance : undefined;
+            },
+            format: ( aValue ) => formatSeconds( aValue * 60 ) + " " + paceUnit,
+            lowerIsBetter: true
+        });
+    });
+
+    return ret;
+}
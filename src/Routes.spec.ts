@@ -0,0 +1,143 @@
+////////////////////////////////////////////////////////////////////////////////
+// Routes.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+
+import { calcDistanceMetres, calcRouteDistance, checkRouteDistance, getRoutePoints, renderGpx } from './Routes';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for Routes
+////////////////////////////////////////////////////////////////////////////////
+test( "Routes tests", async ( t ) => {
+    // A route heading north from the equator, one point a minute, 0.01 degrees
+    // (about 1.11 km) apart, 3.34 km in all
+    let route = [ 0, 1, 2, 3 ].map( aMinute => {
+        return { lat: aMinute * 0.01, lon: 0, altitude: 10 + aMinute, timestamp: "2024-03-01 10:0" + aMinute + ":00 -0500" };
+    });
+    let workout: any = {
+        name: "Running",
+        start: "2024-03-01 10:00:00 -0500",
+        end: "2024-03-01 10:03:00 -0500",
+        distance: { qty: 3.3, units: "km" },
+        route: route
+    };
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getRoutePoints() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getRoutePoints() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "workout without a route should have no points", ( t ) => {
+            assert.deepStrictEqual( getRoutePoints( { ...workout, route: undefined } ), [] );
+            assert.deepStrictEqual( getRoutePoints( { ...workout, route: {} } ), [] );
+        });
+
+        await t.test( "points without a lat and lon should be left out", ( t ) => {
+            let points = getRoutePoints( { ...workout, route: [ { lat: 1 }, { lat: "1", lon: 2 }, { lat: 1, lon: 2 } ] } );
+            assert.deepStrictEqual( points, [ { lat: 1, lon: 2, altitude: null, timestamp: null } ] );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "points should keep their altitude and timestamp", ( t ) => {
+            assert.deepStrictEqual( getRoutePoints( workout )[1], { lat: 0.01, lon: 0, altitude: 11, timestamp: "2024-03-01 10:01:00 -0500" } );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Distance tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "distance tests", async ( t ) => {
+        await t.test( "distance between points should be along the surface", ( t ) => {
+            assert.strictEqual( Math.round( calcDistanceMetres( { lat: 0, lon: 0 }, { lat: 0.01, lon: 0 } ) ), 1112 );
+            assert.strictEqual( calcDistanceMetres( { lat: 45, lon: 90 }, { lat: 45, lon: 90 } ), 0 );
+        });
+
+        await t.test( "route distance should be the sum of its steps", ( t ) => {
+            assert.strictEqual( Math.round( calcRouteDistance( getRoutePoints( workout ) ) ), 3336 );
+            assert.strictEqual( calcRouteDistance( getRoutePoints( workout ).slice( 0, 1 ) ), 0 );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // checkRouteDistance() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "checkRouteDistance() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "workouts without a route or distance should not be checked", ( t ) => {
+            assert.strictEqual( checkRouteDistance( { ...workout, route: route.slice( 0, 1 ) }, "metric" ), null );
+            assert.strictEqual( checkRouteDistance( { ...workout, distance: { qty: 0, units: "km" } }, "metric" ), null );
+        });
+
+        await t.test( "route far from the recorded distance should not be consistent", ( t ) => {
+            let check = checkRouteDistance( { ...workout, distance: { qty: 2, units: "km" } }, "metric" );
+            assert.strictEqual( check?.isConsistent, false );
+            assert.strictEqual( check?.difference.toFixed( 2 ), "0.67" );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "route close to the recorded distance should be consistent", ( t ) => {
+            let check = checkRouteDistance( workout, "metric" );
+            assert.strictEqual( check?.isConsistent, true );
+            assert.strictEqual( check?.routeDistance.toFixed( 2 ), "3.34" );
+            assert.strictEqual( check?.recordedDistance, 3.3 );
+        });
+
+        await t.test( "distances should be in the units of the unit system", ( t ) => {
+            let check = checkRouteDistance( workout, "imperial" );
+            assert.strictEqual( check?.routeDistance.toFixed( 2 ), "2.07" );
+            assert.strictEqual( check?.recordedDistance.toFixed( 2 ), "2.05" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // renderGpx() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "renderGpx() tests", async ( t ) => {
+        let gpx = renderGpx( { ...workout, name: "Run & <Walk>" }, getRoutePoints( workout ) );
+
+        await t.test( "GPX should have a track point per route point", ( t ) => {
+            assert.match( gpx, /^<\?xml version="1.0" encoding="UTF-8"\?>\n<gpx version="1.1" creator="workouts-to-ical" xmlns="http:\/\/www.topografix.com\/GPX\/1\/1">/ );
+            assert.strictEqual( gpx.split( "<trkpt " ).length - 1, 4 );
+            assert.match( gpx, /<trkpt lat="0.01" lon="0"><ele>11<\/ele><time>2024-03-01T15:01:00.000Z<\/time><\/trkpt>/ );
+        });
+
+        await t.test( "GPX should escape the workout name", ( t ) => {
+            assert.match( gpx, /<metadata><name>Run &amp; &lt;Walk&gt;<\/name><time>2024-03-01T15:00:00.000Z<\/time><\/metadata>/ );
+        });
+
+        await t.test( "track points should leave out missing altitude and time", ( t ) => {
+            let noTimes = renderGpx( workout, [ { lat: 1, lon: 2, altitude: null, timestamp: null } ] );
+            assert.match( noTimes, /<trkpt lat="1" lon="2"><\/trkpt>/ );
+        });
+    });
+});
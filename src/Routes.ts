@@ -0,0 +1,165 @@
+////////////////////////////////////////////////////////////////////////////////
+// Routes.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import { parseWorkoutTimestamp } from './WorkoutData';
+import { UnitSystem, convertUnits, getWorkoutValue } from './Units';
+
+////////////////////////////////////////////////////////////////////////////////
+// RoutePoint - one location sample of a workout route from the Auto Export 
+// app, altitude is in metres
+////////////////////////////////////////////////////////////////////////////////
+export interface RoutePoint {
+    lat: number,
+    lon: number,
+    altitude: number | null,
+    timestamp: string | null
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// RouteDistanceCheck - distance of a workout calculated from its route, 
+// compared with the distance recorded with the workout. Distances are in the
+// distance units of the unit system they were checked for.
+////////////////////////////////////////////////////////////////////////////////
+export interface RouteDistanceCheck {
+    routeDistance: number,
+    recordedDistance: number,
+
+    // Difference between the two as a fraction of the recorded distance
+    difference: number,
+
+    // Whether the difference is within routeDistanceTolerance
+    isConsistent: boolean
+}
+
+// Largest difference between route and recorded distance (as a fraction of the
+// recorded distance) that is not reported; GPS drift and gaps in the route make
+// small differences normal
+export const routeDistanceTolerance = 0.1;
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the route points of aWorkout, leaving out points without a lat and lon.
+// Returns an empty list if the workout has no route.
+////////////////////////////////////////////////////////////////////////////////
+export function getRoutePoints( aWorkout: any ): RoutePoint[] {
+    if( !Array.isArray( aWorkout.route ) ) {
+        return [];
+    }
+
+    return aWorkout.route
+        .filter( aPoint => typeof aPoint?.lat === "number" && typeof aPoint?.lon === "number" )
+        .map( aPoint => ({
+            lat: aPoint.lat,
+            lon: aPoint.lon,
+            altitude: typeof aPoint.altitude === "number" ? aPoint.altitude : null,
+            timestamp: typeof aPoint.timestamp === "string" ? aPoint.timestamp : null
+        }));
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the distance in metres between route points aFrom and aTo
+////////////////////////////////////////////////////////////////////////////////
+export function calcDistanceMetres( aFrom: { lat: number, lon: number }, aTo: { lat: number, lon: number } ): number {
+    let toRadians = ( aDegrees: number ) => aDegrees * Math.PI / 180;
+    let dLat = toRadians( aTo.lat - aFrom.lat );
+    let dLon = toRadians( aTo.lon - aFrom.lon );
+    let a = Math.sin( dLat / 2 ) * Math.sin( dLat / 2 ) + 
+        Math.cos( toRadians( aFrom.lat ) ) * Math.cos( toRadians( aTo.lat ) ) * Math.sin( dLon / 2 ) * Math.sin( dLon / 2 );
+
+    return 2 * 6371000 * Math.atan2( Math.sqrt( a ), Math.sqrt( 1 - a ) );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the length in metres of the route through aPoints
+////////////////////////////////////////////////////////////////////////////////
+export function calcRouteDistance( aPoints: RoutePoint[] ): number {
+    let ret = 0;
+    for( let i = 1; i < aPoints.length; i++ ) {
+        ret += calcDistanceMetres( aPoints[i - 1], aPoints[i] );
+    }
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Compare the distance of the route of aWorkout with its distance.qty, in the
+// distance units of aUnitSystem. Returns null if the workout has no route or 
+// no recorded distance to compare with.
+////////////////////////////////////////////////////////////////////////////////
+export function checkRouteDistance( aWorkout: any, aUnitSystem: UnitSystem ): RouteDistanceCheck | null {
+    let points = getRoutePoints( aWorkout );
+    let recordedDistance = getWorkoutValue( aWorkout, "distance", aUnitSystem );
+    if( points.length < 2 || typeof recordedDistance !== "number" || recordedDistance <= 0 ) {
+        return null;
+    }
+
+    let routeDistance = convertUnits( calcRouteDistance( points ), "m", aUnitSystem === "metric" ? "km" : "mi" ) ?? 0;
+    let difference = Math.abs( routeDistance - recordedDistance ) / recordedDistance;
+
+    return {
+        routeDistance: routeDistance,
+        recordedDistance: recordedDistance,
+        difference: difference,
+        isConsistent: difference <= routeDistanceTolerance
+    };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Render aPoints, the route of aWorkout, as a GPX 1.1 track
+////////////////////////////////////////////////////////////////////////////////
+export function renderGpx( aWorkout: any, aPoints: RoutePoint[] ): string {
+    let trackPoints = aPoints.map( aPoint => {
+        let ret = "<trkpt lat=\"" + aPoint.lat + "\" lon=\"" + aPoint.lon + "\">";
+        if( aPoint.altitude !== null ) {
+            ret += "<ele>" + aPoint.altitude + "</ele>";
+        }
+        if( aPoint.timestamp !== null ) {
+            let time = parseWorkoutTimestamp( aPoint.timestamp );
+            if( time.isValid() ) {
+                ret += "<time>" + time.toISOString() + "</time>";
+            }
+        }
+
+        return ret + "</trkpt>";
+    });
+
+    return "<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n" +
+        "<gpx version=\"1.1\" creator=\"workouts-to-ical\" xmlns=\"http://www.topografix.com/GPX/1/1\">\n" +
+        "<metadata><name>" + escapeXml( aWorkout.name ) + "</name><time>" + parseWorkoutTimestamp( aWorkout.start ).toISOString() + "</time></metadata>\n" +
+        "<trk><name>" + escapeXml( aWorkout.name ) + "</name><trkseg>\n" +
+        trackPoints.join( "\n" ) + ( trackPoints.length > 0 ? "\n" : "" ) +
+        "</trkseg></trk>\n" +
+        "</gpx>\n";
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Escape aText for use in XML
+////////////////////////////////////////////////////////////////////////////////
+function escapeXml( aText: string ): string {
+    return String( aText )
+        .replace( /&/g, "&amp;" )
+        .replace( /</g, "&lt;" )
+        .replace( />/g, "&gt;" )
+        .replace( /"/g, "&quot;" )
+        .replace( /'/g, "&apos;" );
+}
@@ -0,0 +1,160 @@
+////////////////////////////////////////////////////////////////////////////////
+// Streaks.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+
+import ical from 'ical-generator';
+
+import { calcStreaks, defaultStreakGoal, getStreakEvents, validateStreakGoal } from './Streaks';
+import { replaceCalendarEvents } from './CalendarEvents';
+
+////////////////////////////////////////////////////////////////////////////////
+// Create a workout on aDay lasting aMinutes
+////////////////////////////////////////////////////////////////////////////////
+function createWorkout( aDay: string, aMinutes: number, aActiveEnergy: number = 200 ) {
+    return {
+        name: "Walking",
+        start: aDay + " 07:00:00 -0500",
+        end: aDay + " 07:" + String( aMinutes ).padStart( 2, "0" ) + ":00 -0500",
+        activeEnergy: { qty: aActiveEnergy, units: "kcal" },
+        stepCadence: { qty: 100 },
+        distance: { qty: 1 },
+        speed: { qty: 3 },
+        avgHeartRate: { qty: 120 },
+        maxHeartRate: { qty: 140 }
+    };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for Streaks
+////////////////////////////////////////////////////////////////////////////////
+test( "Streaks tests", async ( t ) => {
+    let goal = { ...defaultStreakGoal, milestones: [ 3 ] };
+    let workouts = [
+        createWorkout( "2024-03-01", 45 ),
+        createWorkout( "2024-03-02", 30 ),
+        createWorkout( "2024-03-03", 20 ),
+        createWorkout( "2024-03-03", 15 ),
+        createWorkout( "2024-03-04", 10 ),
+        createWorkout( "2024-03-06", 30 ),
+        createWorkout( "2024-03-07", 30 )
+    ];
+
+    ////////////////////////////////////////////////////////////////////////////
+    // calcStreaks() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "calcStreaks() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "no workouts should have no streaks", ( t ) => {
+            assert.deepStrictEqual( calcStreaks( [], goal, null, "2024-03-07" ), { streaks: [], current: null, record: null } );
+        });
+
+        await t.test( "streak ending before yesterday should not be current", ( t ) => {
+            let report = calcStreaks( workouts, goal, null, "2024-03-09" );
+            assert.strictEqual( report.current, null );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "days should meet the goal with the total of their workouts", ( t ) => {
+            let report = calcStreaks( workouts, goal, null, "2024-03-07" );
+            assert.deepStrictEqual( report.streaks, [
+                { start: "2024-03-01", end: "2024-03-03", length: 3 },
+                { start: "2024-03-06", end: "2024-03-07", length: 2 }
+            ]);
+            assert.strictEqual( report.record, report.streaks[0] );
+            assert.strictEqual( report.current, report.streaks[1] );
+        });
+
+        await t.test( "streak ending yesterday should still be current", ( t ) => {
+            let report = calcStreaks( workouts, goal, null, "2024-03-08" );
+            assert.strictEqual( report.current, report.streaks[1] );
+        });
+
+        await t.test( "active energy goal should be checked", ( t ) => {
+            let report = calcStreaks( workouts, { ...goal, minDuration: 0, minActiveEnergy: 300 }, null, "2024-03-07" );
+            assert.deepStrictEqual( report.streaks, [ { start: "2024-03-03", end: "2024-03-03", length: 1 } ] );
+        });
+
+        await t.test( "weeks should meet the goal with their number of workouts", ( t ) => {
+            let weekly = workouts.concat( [ createWorkout( "2024-03-11", 30 ), createWorkout( "2024-03-13", 30 ) ] );
+            let report = calcStreaks( weekly, { ...goal, period: "week", minWorkouts: 2, minDuration: 0 }, null, "2024-03-14" );
+            assert.deepStrictEqual( report.streaks, [ { start: "2024-02-26", end: "2024-03-11", length: 3 } ] );
+            assert.strictEqual( report.current, report.streaks[0] );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getStreakEvents() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getStreakEvents() tests", async ( t ) => {
+        let calendar = ical();
+        let report = calcStreaks( workouts, goal, null, "2024-03-07" );
+        let events = getStreakEvents( calendar, report, goal, "default" );
+
+        await t.test( "should mark the record and current streaks", ( t ) => {
+            assert.deepStrictEqual( events.map( aEvent => aEvent.summary ), [
+                "🔥 3 day streak (record)",
+                "🎉 Day 3 of streak!",
+                "🔥 Current streak: 2 days"
+            ]);
+        });
+
+        await t.test( "should give the events of other calendars other ids", ( t ) => {
+            let otherIds = getStreakEvents( calendar, report, goal, "alex" ).map( aEvent => aEvent.id );
+            events.forEach( aEvent => assert.strictEqual( otherIds.indexOf( aEvent.id ), -1 ) );
+        });
+
+        await t.test( "replacing events should update grown streaks and remove joined ones", ( t ) => {
+            replaceCalendarEvents( calendar, "streak", events );
+            calendar.createEvent( { id: "workout", start: new Date(), summary: "Walk" } );
+            assert.strictEqual( calendar.length(), 4 );
+
+            let joined = calcStreaks( workouts.concat( [ createWorkout( "2024-03-05", 30 ), createWorkout( "2024-03-04", 30 ) ] ), goal, null, "2024-03-07" );
+            replaceCalendarEvents( calendar, "streak", getStreakEvents( calendar, joined, goal, "default" ) );
+            assert.deepStrictEqual( calendar.events().map( aEvent => aEvent.summary() ), [ 
+                "🔥 Current streak: 7 days (record)",
+                "🎉 Day 3 of streak!",
+                "Walk"
+            ]);
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // validateStreakGoal() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "validateStreakGoal() tests", async ( t ) => {
+        await t.test( "goal needing no workouts should be reported", ( t ) => {
+            assert.strictEqual( validateStreakGoal( { ...goal, minWorkouts: 0 } ).length, 1 );
+        });
+
+        await t.test( "default goal should be valid", ( t ) => {
+            assert.deepStrictEqual( validateStreakGoal( defaultStreakGoal ), [] );
+        });
+    });
+});
@@ -0,0 +1,228 @@
+////////////////////////////////////////////////////////////////////////////////
+// Streaks.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import crypto from 'crypto';
+
+import { ICalCalendar } from 'ical-generator';
+
+import { CalendarEventData, getAllDayEventStart } from './CalendarEvents';
+import { getWorkoutDay, getWorkoutMinutes, isWorkoutData } from './WorkoutData';
+import { getWorkoutValue } from './Units';
+import { addPeriods, getPeriodStart, getToday } from './Periods';
+
+////////////////////////////////////////////////////////////////////////////////
+// StreakGoal - what a day (or week) needs to count towards a streak
+////////////////////////////////////////////////////////////////////////////////
+export interface StreakGoal {
+    // Length of each period of a streak, "week" is an ISO week (Monday first)
+    period: "day" | "week",
+
+    // Number of workouts needed in a period
+    minWorkouts: number,
+
+    // Total workout minutes needed in a period, 0 for no minimum
+    minDuration: number,
+
+    // Total active energy (kcal) needed in a period, 0 for no minimum
+    minActiveEnergy: number,
+
+    // Streak lengths (in periods) that get a milestone event
+    milestones: number[]
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// defaultStreakGoal - at least 30 minutes of workouts each day
+////////////////////////////////////////////////////////////////////////////////
+export const defaultStreakGoal: StreakGoal = {
+    period: "day",
+    minWorkouts: 1,
+    minDuration: 30,
+    minActiveEnergy: 0,
+    milestones: [ 7, 30, 50, 100, 200, 365 ]
+};
+
+////////////////////////////////////////////////////////////////////////////////
+// Streak - consecutive periods that met the goal
+////////////////////////////////////////////////////////////////////////////////
+export interface Streak {
+    // First day (YYYY-MM-DD) of the first and last period of the streak
+    start: string,
+    end: string,
+
+    // Number of periods in the streak
+    length: number
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// StreakReport - result of calcStreaks()
+////////////////////////////////////////////////////////////////////////////////
+export interface StreakReport {
+    // All streaks, oldest first
+    streaks: Streak[],
+
+    // Streak that includes the current period (or the previous period, as the 
+    // current one is not over yet), or null if there is none
+    current: Streak | null,
+
+    // Longest streak (the earliest one if tied), or null if there are none
+    record: Streak | null
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Find the streaks of periods in which aWorkouts meet aGoal. Workouts are put
+// on days in aTimezone (or the UTC offset they were recorded with if null), 
+// aToday (YYYY-MM-DD) is used to find the current streak.
+////////////////////////////////////////////////////////////////////////////////
+export function calcStreaks( 
+    aWorkouts: any[], 
+    aGoal: StreakGoal, 
+    aTimezone: string | null, 
+    aToday: string = getToday( aTimezone ) 
+): StreakReport {
+    // Total up the workouts of each period
+    let periods: { [periodStart: string]: { workouts: number, minutes: number, activeEnergy: number } } = {};
+    aWorkouts.filter( aWorkout => isWorkoutData( aWorkout ) ).forEach( aWorkout => {
+        let periodStart = getPeriodStart( getWorkoutDay( aWorkout.start, aTimezone ), aGoal.period );
+        let period = periods[periodStart] ?? { workouts: 0, minutes: 0, activeEnergy: 0 };
+        period.workouts++;
+        period.minutes += getWorkoutMinutes( aWorkout );
+        period.activeEnergy += getWorkoutValue( aWorkout, "activeEnergy", "imperial" ) ?? 0;
+        periods[periodStart] = period;
+    });
+
+    // Join consecutive periods that met the goal into streaks
+    let streaks: Streak[] = [];
+    Object.keys( periods ).sort().forEach( aPeriodStart => {
+        let period = periods[aPeriodStart];
+        if( period.workouts < aGoal.minWorkouts || period.minutes < aGoal.minDuration || period.activeEnergy < aGoal.minActiveEnergy ) {
+            return;
+        }
+
+        let last = streaks[streaks.length - 1];
+        if( last !== undefined && addPeriods( last.end, 1, aGoal.period ) === aPeriodStart ) {
+            last.end = aPeriodStart;
+            last.length++;
+        } else {
+            streaks.push( { start: aPeriodStart, end: aPeriodStart, length: 1 } );
+        }
+    });
+
+    let currentPeriod = getPeriodStart( aToday, aGoal.period );
+    let last = streaks[streaks.length - 1];
+    let current = last !== undefined && ( last.end === currentPeriod || last.end === addPeriods( currentPeriod, -1, aGoal.period ) ) ? last : null;
+
+    let record: Streak | null = null;
+    streaks.forEach( aStreak => {
+        if( record === null || aStreak.length > record.length ) {
+            record = aStreak;
+        }
+    });
+
+    return { streaks: streaks, current: current, record: record };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the calendar events for the streaks in aReport: an event on the last 
+// period of each streak of more than one period (marking the current and 
+// record streaks), and an event on each milestone of aGoal reached. aCalendarId
+// (e.g. the user name) is part of the event ids.
+////////////////////////////////////////////////////////////////////////////////
+export function getStreakEvents( aCalendar: ICalCalendar, aReport: StreakReport, aGoal: StreakGoal, aCalendarId: string ): CalendarEventData[] {
+    let ret: CalendarEventData[] = [];
+    let unit = aGoal.period === "week" ? "week" : "day";
+
+    aReport.streaks.forEach( aStreak => {
+        if( aStreak.length > 1 ) {
+            let summary = aStreak === aReport.current ? 
+                "🔥 Current streak: " + aStreak.length + " " + unit + "s" : 
+                "🔥 " + aStreak.length + " " + unit + " streak";
+            if( aStreak === aReport.record ) {
+                summary += " (record)";
+            }
+
+            ret.push({
+                id: getStreakEventId( "streak", aCalendarId, aStreak.start ),
+                start: getAllDayEventStart( aCalendar, aStreak.end ),
+                allDay: true,
+                summary: summary,
+                description: "Streak from " + aStreak.start + " to " + aStreak.end + "\nGoal: " + getStreakGoalDescription( aGoal ) + "\n"
+            });
+        }
+
+        aGoal.milestones.filter( aMilestone => aMilestone <= aStreak.length ).forEach( aMilestone => {
+            ret.push({
+                id: getStreakEventId( "milestone", aCalendarId, aStreak.start, aMilestone ),
+                start: getAllDayEventStart( aCalendar, addPeriods( aStreak.start, aMilestone - 1, aGoal.period ) ),
+                allDay: true,
+                summary: "🎉 " + ( unit === "week" ? "Week " : "Day " ) + aMilestone + " of streak!",
+                description: "Goal: " + getStreakGoalDescription( aGoal ) + "\n"
+            });
+        });
+    });
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Check aGoal for problems, returns a list of problems (empty if aGoal is 
+// valid)
+////////////////////////////////////////////////////////////////////////////////
+export function validateStreakGoal( aGoal: StreakGoal ): string[] {
+    let ret: string[] = [];
+
+    if( aGoal.period !== "day" && aGoal.period !== "week" ) {
+        ret.push( "streakGoal: period must be \"day\" or \"week\"" );
+    }
+    if( !( aGoal.minWorkouts >= 1 ) ) {
+        ret.push( "streakGoal: minWorkouts must be at least 1" );
+    }
+    if( aGoal.milestones.some( aMilestone => !( aMilestone >= 1 ) ) ) {
+        ret.push( "streakGoal: milestones must be at least 1" );
+    }
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get a description of aGoal, e.g. "1 workout, 30 minutes per day"
+////////////////////////////////////////////////////////////////////////////////
+export function getStreakGoalDescription( aGoal: StreakGoal ): string {
+    let parts = [ aGoal.minWorkouts + " workout" + ( aGoal.minWorkouts === 1 ? "" : "s" ) ];
+    if( aGoal.minDuration > 0 ) {
+        parts.push( aGoal.minDuration + " minutes" );
+    }
+    if( aGoal.minActiveEnergy > 0 ) {
+        parts.push( aGoal.minActiveEnergy + " kcal" );
+    }
+
+    return parts.join( ", " ) + " per " + aGoal.period;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get a stable event id for a streak event, so that it is updated in place as 
+// the streak grows
+////////////////////////////////////////////////////////////////////////////////
+function getStreakEventId( ...aParts: any[] ): string {
+    return crypto.createHash( "sha1" ).update( aParts.join( "|" ) ).digest( "hex" );
+}
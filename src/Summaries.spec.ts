@@ -0,0 +1,150 @@
+////////////////////////////////////////////////////////////////////////////////
+// Summaries.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+
+import ical from 'ical-generator';
+
+import { calcPeriodSummary, getEmptySummaryEventIds, getSummaryEvents, validateSummaryConfig } from './Summaries';
+
+////////////////////////////////////////////////////////////////////////////////
+// Create a workout named aName on aDay lasting aMinutes
+////////////////////////////////////////////////////////////////////////////////
+function createWorkout( aName: string, aDay: string, aMinutes: number, aDistance: number ) {
+    return {
+        name: aName,
+        start: aDay + " 07:00:00 -0500",
+        end: aDay + " 07:" + String( aMinutes ).padStart( 2, "0" ) + ":00 -0500",
+        activeEnergy: { qty: 200, units: "kcal" },
+        stepCadence: { qty: 100 },
+        distance: { qty: aDistance, units: "mi" },
+        speed: { qty: 3 },
+        avgHeartRate: { qty: 120 },
+        maxHeartRate: { qty: 140 }
+    };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for Summaries
+////////////////////////////////////////////////////////////////////////////////
+test( "Summaries tests", async ( t ) => {
+    let config = { summaryPeriods: [ "week", "month" ] as ( "week" | "month" )[], unitSystem: "imperial" as const, timezone: null };
+    let workouts = [
+        createWorkout( "Walking", "2024-02-27", 30, 1.5 ),
+        createWorkout( "Walking", "2024-03-04", 40, 2 ),
+        createWorkout( "Running", "2024-03-06", 30, 3 ),
+        createWorkout( "Walking", "2024-03-10", 50, 2.5 ),
+        createWorkout( "Walking", "2024-03-11", 30, 1.5 )
+    ];
+
+    ////////////////////////////////////////////////////////////////////////////
+    // calcPeriodSummary() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "calcPeriodSummary() tests", async ( t ) => {
+        await t.test( "week should total its workouts, by type and the week before", ( t ) => {
+            let summary = calcPeriodSummary( workouts, "week", "2024-03-04", config );
+            assert.strictEqual( summary.end, "2024-03-10" );
+            assert.deepStrictEqual( summary.totals, { workouts: 3, minutes: 120, distance: 7.5, activeEnergy: 600 } );
+            assert.deepStrictEqual( summary.byType["Running"], { workouts: 1, minutes: 30, distance: 3, activeEnergy: 200 } );
+            assert.deepStrictEqual( summary.previous, { workouts: 1, minutes: 30, distance: 1.5, activeEnergy: 200 } );
+        });
+
+        await t.test( "month should total its workouts", ( t ) => {
+            let summary = calcPeriodSummary( workouts, "month", "2024-03-01", config );
+            assert.strictEqual( summary.end, "2024-03-31" );
+            assert.strictEqual( summary.totals.workouts, 4 );
+            assert.strictEqual( summary.previous.workouts, 1 );
+        });
+
+        await t.test( "distance should be in the configured unit system", ( t ) => {
+            let summary = calcPeriodSummary( workouts, "week", "2024-02-26", { ...config, unitSystem: "metric" } );
+            assert.strictEqual( summary.totals.distance.toFixed( 3 ), "2.414" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getSummaryEvents() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getSummaryEvents() tests", async ( t ) => {
+        let calendar = ical();
+
+        await t.test( "should create events for all periods with workouts", ( t ) => {
+            let events = getSummaryEvents( calendar, workouts, null, config, "default" );
+            assert.strictEqual( events.length, 5 );
+            assert.strictEqual( events[1].summary, "📊 Week of Mar 4: 3 workouts · 2h00m · 7.50 miles · 600 calories" );
+            assert.match( String( events[1].description ), /vs previous week: \+2 workouts · \+1h30m · \+6\.00 miles · \+400 calories/ );
+            assert.match( String( events[1].description ), /Running: 1 workout · 0h30m/ );
+            assert.strictEqual( events[3].summary, "📊 February 2024: 1 workout · 0h30m · 1.50 miles · 200 calories" );
+        });
+
+        await t.test( "should only create events for changed periods and the periods after them", ( t ) => {
+            let events = getSummaryEvents( calendar, workouts, [ workouts[0] ], config, "default" );
+            assert.deepStrictEqual( events.map( aEvent => aEvent.summary.split( ":" )[0] ), [
+                "📊 Week of Feb 26",
+                "📊 Week of Mar 4",
+                "📊 February 2024",
+                "📊 March 2024"
+            ]);
+        });
+
+        await t.test( "should give the same period the same id", ( t ) => {
+            let all = getSummaryEvents( calendar, workouts, null, config, "default" );
+            let changed = getSummaryEvents( calendar, workouts, [ workouts[0] ], config, "default" );
+            assert.strictEqual( all[0].id, changed[0].id );
+        });
+
+        await t.test( "should give the same period of another calendar another id", ( t ) => {
+            let all = getSummaryEvents( calendar, workouts, null, config, "default" );
+            let other = getSummaryEvents( calendar, workouts, null, config, "alex" );
+            assert.notStrictEqual( all[0].id, other[0].id );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getEmptySummaryEventIds() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getEmptySummaryEventIds() tests", async ( t ) => {
+        let calendar = ical();
+
+        await t.test( "should give the ids of changed periods without workouts", ( t ) => {
+            let all = getSummaryEvents( calendar, workouts, null, config, "default" );
+            let ids = getEmptySummaryEventIds( workouts.slice( 1 ), [ workouts[0] ], config, "default" );
+            assert.deepStrictEqual( ids, [ all[0].id, all[3].id ] );
+        });
+
+        await t.test( "should give no ids for changed periods with workouts", ( t ) => {
+            assert.deepStrictEqual( getEmptySummaryEventIds( workouts, [ workouts[1] ], config, "default" ), [] );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // validateSummaryConfig() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "validateSummaryConfig() tests", async ( t ) => {
+        await t.test( "unknown period should be reported", ( t ) => {
+            assert.strictEqual( validateSummaryConfig( { ...config, summaryPeriods: [ "year" as any ] } ).length, 1 );
+        });
+    });
+});
@@ -0,0 +1,283 @@
+////////////////////////////////////////////////////////////////////////////////
+// Summaries.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import crypto from 'crypto';
+
+import dayjs from 'dayjs';
+import dayjsutc from 'dayjs/plugin/utc';
+dayjs.extend( dayjsutc );
+
+import { ICalCalendar } from 'ical-generator';
+
+import { CalendarEventData, getAllDayEventStart } from './CalendarEvents';
+import { getWorkoutDay, getWorkoutMinutes, isWorkoutData } from './WorkoutData';
+import { UnitSystem, formatHoursMinutes, getUnitLabel, getWorkoutValue } from './Units';
+import { addPeriods, getPeriodEnd, getPeriodStart } from './Periods';
+
+////////////////////////////////////////////////////////////////////////////////
+// SummaryPeriod - period that a summary event totals up
+////////////////////////////////////////////////////////////////////////////////
+export type SummaryPeriod = "week" | "month";
+
+////////////////////////////////////////////////////////////////////////////////
+// ISummaryConfig
+////////////////////////////////////////////////////////////////////////////////
+export interface ISummaryConfig {
+    // Periods to add a summary event for, empty for no summary events
+    summaryPeriods: SummaryPeriod[],
+
+    // Unit system quantities are shown in
+    unitSystem: UnitSystem,
+
+    // IANA timezone of the user used to put workouts in periods, if null the 
+    // UTC offset recorded with each workout is used
+    timezone: string | null
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// SummaryTotals - totals of a set of workouts, distance is in the units of the
+// configured UnitSystem
+////////////////////////////////////////////////////////////////////////////////
+export interface SummaryTotals {
+    workouts: number,
+    minutes: number,
+    distance: number,
+    activeEnergy: number
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// PeriodSummary - totals of the workouts in one period
+////////////////////////////////////////////////////////////////////////////////
+export interface PeriodSummary {
+    period: SummaryPeriod,
+
+    // First and last day (YYYY-MM-DD) of the period
+    start: string,
+    end: string,
+
+    // Totals of all workouts in the period, and by workout name
+    totals: SummaryTotals,
+    byType: { [name: string]: SummaryTotals },
+
+    // Totals of the period before
+    previous: SummaryTotals
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Summarize aWorkouts in the aPeriod starting on aPeriodStart, and the period
+// before it for comparison
+////////////////////////////////////////////////////////////////////////////////
+export function calcPeriodSummary( aWorkouts: any[], aPeriod: SummaryPeriod, aPeriodStart: string, aConfig: ISummaryConfig ): PeriodSummary {
+    let previousStart = addPeriods( aPeriodStart, -1, aPeriod );
+    let ret: PeriodSummary = {
+        period: aPeriod,
+        start: aPeriodStart,
+        end: getPeriodEnd( aPeriodStart, aPeriod ),
+        totals: createTotals(),
+        byType: {},
+        previous: createTotals()
+    };
+
+    aWorkouts.filter( aWorkout => isWorkoutData( aWorkout ) ).forEach( aWorkout => {
+        let periodStart = getPeriodStart( getWorkoutDay( aWorkout.start, aConfig.timezone ), aPeriod );
+        if( periodStart === aPeriodStart ) {
+            addToTotals( ret.totals, aWorkout, aConfig.unitSystem );
+            ret.byType[aWorkout.name] = ret.byType[aWorkout.name] ?? createTotals();
+            addToTotals( ret.byType[aWorkout.name], aWorkout, aConfig.unitSystem );
+        } else if( periodStart === previousStart ) {
+            addToTotals( ret.previous, aWorkout, aConfig.unitSystem );
+        }
+    });
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the summary events of the configured periods that aChangedWorkouts are 
+// in, from all of aWorkouts. A summary compares with the period before, so the
+// period after each changed one is included too. If aChangedWorkouts is null,
+// the events of all periods with workouts are returned. aCalendarId (e.g. the
+// user name) is part of the event ids.
+////////////////////////////////////////////////////////////////////////////////
+export function getSummaryEvents( 
+    aCalendar: ICalCalendar, 
+    aWorkouts: any[], 
+    aChangedWorkouts: any[] | null, 
+    aConfig: ISummaryConfig,
+    aCalendarId: string
+): CalendarEventData[] {
+    let ret: CalendarEventData[] = [];
+
+    aConfig.summaryPeriods.forEach( aPeriod => {
+        let periodsWithWorkouts = getPeriodStarts( aWorkouts, aPeriod, aConfig.timezone );
+        let periodStarts = periodsWithWorkouts;
+        if( aChangedWorkouts !== null ) {
+            periodStarts = [];
+            getPeriodStarts( aChangedWorkouts, aPeriod, aConfig.timezone ).forEach( aPeriodStart => {
+                periodStarts.push( aPeriodStart, addPeriods( aPeriodStart, 1, aPeriod ) );
+            });
+        }
+
+        periodStarts
+            .filter( ( aPeriodStart, aIndex ) => periodStarts.indexOf( aPeriodStart ) === aIndex && periodsWithWorkouts.indexOf( aPeriodStart ) !== -1 )
+            .forEach( aPeriodStart => {
+                let summary = calcPeriodSummary( aWorkouts, aPeriod, aPeriodStart, aConfig );
+                ret.push({
+                    id: getSummaryEventId( aCalendarId, aPeriod, aPeriodStart ),
+                    start: getAllDayEventStart( aCalendar, summary.end ),
+                    allDay: true,
+                    summary: getSummaryName( summary, aConfig.unitSystem ),
+                    description: getSummaryBody( summary, aConfig.unitSystem )
+                });
+            });
+    });
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the ids of the summary events in the calendar with aCalendarId of the 
+// configured periods that aChangedWorkouts are in but that have no workouts in
+// aWorkouts any more, e.g. the week an updated workout was moved out of
+////////////////////////////////////////////////////////////////////////////////
+export function getEmptySummaryEventIds( aWorkouts: any[], aChangedWorkouts: any[], aConfig: ISummaryConfig, aCalendarId: string ): string[] {
+    let ret: string[] = [];
+
+    aConfig.summaryPeriods.forEach( aPeriod => {
+        let periodsWithWorkouts = getPeriodStarts( aWorkouts, aPeriod, aConfig.timezone );
+        getPeriodStarts( aChangedWorkouts, aPeriod, aConfig.timezone )
+            .filter( aPeriodStart => periodsWithWorkouts.indexOf( aPeriodStart ) === -1 )
+            .forEach( aPeriodStart => ret.push( getSummaryEventId( aCalendarId, aPeriod, aPeriodStart ) ) );
+    });
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Check aConfig for problems, returns a list of problems (empty if aConfig is
+// valid)
+////////////////////////////////////////////////////////////////////////////////
+export function validateSummaryConfig( aConfig: ISummaryConfig ): string[] {
+    return aConfig.summaryPeriods
+        .filter( aPeriod => aPeriod !== "week" && aPeriod !== "month" )
+        .map( aPeriod => "summaryPeriods: unknown period \"" + aPeriod + "\"" );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the event name of aSummary, e.g. "📊 Week of Mar 4: 5 workouts · 3h20m"
+////////////////////////////////////////////////////////////////////////////////
+function getSummaryName( aSummary: PeriodSummary, aUnitSystem: UnitSystem ): string {
+    let start = dayjs.utc( aSummary.start );
+    let periodName = aSummary.period === "week" ? "Week of " + start.format( "MMM D" ) : start.format( "MMMM YYYY" );
+
+    return "📊 " + periodName + ": " + formatTotals( aSummary.totals, aUnitSystem, false );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the event body of aSummary: the totals, change from the previous period
+// and totals by workout type
+////////////////////////////////////////////////////////////////////////////////
+function getSummaryBody( aSummary: PeriodSummary, aUnitSystem: UnitSystem ): string {
+    let ret = formatTotals( aSummary.totals, aUnitSystem, false ) + "\n";
+
+    let change: SummaryTotals = {
+        workouts: aSummary.totals.workouts - aSummary.previous.workouts,
+        minutes: aSummary.totals.minutes - aSummary.previous.minutes,
+        distance: aSummary.totals.distance - aSummary.previous.distance,
+        activeEnergy: aSummary.totals.activeEnergy - aSummary.previous.activeEnergy
+    };
+    ret += "vs previous " + aSummary.period + ": " + formatTotals( change, aUnitSystem, true ) + "\n";
+
+    ret += "\n";
+    Object.keys( aSummary.byType ).sort().forEach( aName => {
+        ret += aName + ": " + formatTotals( aSummary.byType[aName], aUnitSystem, false ) + "\n";
+    });
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the SummaryTotals of aWorkouts
+////////////////////////////////////////////////////////////////////////////////
+export function calcTotals( aWorkouts: any[], aUnitSystem: UnitSystem ): SummaryTotals {
+    let ret = createTotals();
+    aWorkouts.forEach( aWorkout => addToTotals( ret, aWorkout, aUnitSystem ) );
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Format aTotals, e.g. "5 workouts · 3h20m · 12.40 miles · 1,800 calories", 
+// with a + or - in front of each value if aSigned
+////////////////////////////////////////////////////////////////////////////////
+export function formatTotals( aTotals: SummaryTotals, aUnitSystem: UnitSystem, aSigned: boolean = false ): string {
+    let sign = ( aValue: number ) => aSigned ? ( aValue < 0 ? "-" : "+" ) : "";
+
+    return [
+        sign( aTotals.workouts ) + Math.abs( aTotals.workouts ) + " workout" + ( Math.abs( aTotals.workouts ) === 1 ? "" : "s" ),
+        sign( aTotals.minutes ) + formatHoursMinutes( Math.abs( aTotals.minutes ) ),
+        sign( aTotals.distance ) + Math.abs( aTotals.distance ).toFixed( 2 ) + " " + getUnitLabel( "distance", aUnitSystem ),
+        sign( aTotals.activeEnergy ) + Math.round( Math.abs( aTotals.activeEnergy ) ).toLocaleString( "en-US" ) + " " + getUnitLabel( "activeEnergy", aUnitSystem )
+    ].join( " · " );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the id of the summary event in the calendar with aCalendarId of the 
+// aPeriod starting on aPeriodStart
+////////////////////////////////////////////////////////////////////////////////
+function getSummaryEventId( aCalendarId: string, aPeriod: SummaryPeriod, aPeriodStart: string ): string {
+    return crypto.createHash( "sha1" ).update( "summary|" + aCalendarId + "|" + aPeriod + "|" + aPeriodStart ).digest( "hex" );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the sorted first days of the aPeriods that aWorkouts are in
+////////////////////////////////////////////////////////////////////////////////
+function getPeriodStarts( aWorkouts: any[], aPeriod: SummaryPeriod, aTimezone: string | null ): string[] {
+    let ret: string[] = [];
+    aWorkouts.filter( aWorkout => isWorkoutData( aWorkout ) ).forEach( aWorkout => {
+        let periodStart = getPeriodStart( getWorkoutDay( aWorkout.start, aTimezone ), aPeriod );
+        if( ret.indexOf( periodStart ) === -1 ) {
+            ret.push( periodStart );
+        }
+    });
+
+    return ret.sort();
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Create empty SummaryTotals
+////////////////////////////////////////////////////////////////////////////////
+function createTotals(): SummaryTotals {
+    return { workouts: 0, minutes: 0, distance: 0, activeEnergy: 0 };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Add aWorkout to aTotals
+////////////////////////////////////////////////////////////////////////////////
+function addToTotals( aTotals: SummaryTotals, aWorkout: any, aUnitSystem: UnitSystem ) {
+    aTotals.workouts++;
+    aTotals.minutes += getWorkoutMinutes( aWorkout );
+    aTotals.distance += getWorkoutValue( aWorkout, "distance", aUnitSystem ) ?? 0;
+    aTotals.activeEnergy += getWorkoutValue( aWorkout, "activeEnergy", aUnitSystem ) ?? 0;
+}
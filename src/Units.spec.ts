@@ -0,0 +1,139 @@
+////////////////////////////////////////////////////////////////////////////////
+// Units.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+
+import { convertUnits, convertWorkoutUnits, getFieldUnits, getWorkoutValue } from './Units';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for Units
+////////////////////////////////////////////////////////////////////////////////
+test( "Units tests", async ( t ) => {
+    ////////////////////////////////////////////////////////////////////////////
+    // convertUnits() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "convertUnits() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "unknown units should not convert", ( t ) => {
+            assert.strictEqual( convertUnits( 1, "furlong", "mi" ), null );
+        });
+
+        await t.test( "units of different dimensions should not convert", ( t ) => {
+            assert.strictEqual( convertUnits( 1, "mi", "kcal" ), null );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "mi should convert to km", ( t ) => {
+            assert.strictEqual( convertUnits( 1, "mi", "km" ), 1.609344 );
+        });
+
+        await t.test( "km/hr should convert to mi/hr", ( t ) => {
+            assert.strictEqual( convertUnits( 1.609344, "km/hr", "mi/hr" )?.toFixed( 6 ), "1.000000" );
+        });
+
+        await t.test( "kJ should convert to kcal", ( t ) => {
+            assert.strictEqual( convertUnits( 4.184, "kJ", "kcal" ), 1 );
+        });
+
+        await t.test( "degF should convert to degC", ( t ) => {
+            assert.strictEqual( convertUnits( 212, "degF", "degC" ), 100 );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getWorkoutValue() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getWorkoutValue() tests", async ( t ) => {
+        let workout = {
+            distance: { qty: 5, units: "km" },
+            speed: { qty: 6 },
+            elevation: { ascent: 100, units: "m" },
+            avgHeartRate: { qty: 120, units: "bpm" }
+        };
+
+        await t.test( "quantity should convert from posted units", ( t ) => {
+            assert.strictEqual( getWorkoutValue( workout, "distance", "metric" ), 5 );
+            assert.strictEqual( getWorkoutValue( workout, "distance", "imperial" ).toFixed( 2 ), "3.11" );
+        });
+
+        await t.test( "quantity without units should be treated as imperial", ( t ) => {
+            assert.strictEqual( getWorkoutValue( workout, "speed", "imperial" ), 6 );
+            assert.strictEqual( getWorkoutValue( workout, "speed", "metric" ).toFixed( 2 ), "9.66" );
+        });
+
+        await t.test( "nested field should use parent units", ( t ) => {
+            assert.strictEqual( getWorkoutValue( workout, "elevation.ascent", "imperial" ).toFixed( 0 ), "328" );
+        });
+
+        await t.test( "field without convertible units should be unchanged", ( t ) => {
+            assert.strictEqual( getWorkoutValue( workout, "avgHeartRate", "metric" ), 120 );
+        });
+
+        await t.test( "missing field should be undefined", ( t ) => {
+            assert.strictEqual( getWorkoutValue( workout, "temperature", "metric" ), undefined );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // convertWorkoutUnits() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "convertWorkoutUnits() tests", async ( t ) => {
+        let workout = {
+            name: "Running",
+            distance: { qty: 5, units: "km" },
+            speed: { qty: 6 },
+            elevation: { ascent: 100, descent: 50, units: "m" },
+            temperature: { qty: 20, units: "not-a-unit" },
+            avgHeartRate: { qty: 120, units: "bpm" }
+        };
+
+        await t.test( "fields with units should be converted and get units", ( t ) => {
+            let converted = convertWorkoutUnits( workout, "imperial" );
+            assert.strictEqual( converted.distance.qty.toFixed( 2 ), "3.11" );
+            assert.strictEqual( converted.distance.units, "mi" );
+            assert.deepStrictEqual( converted.speed, { qty: 6, units: "mi/hr" } );
+            assert.strictEqual( converted.elevation.ascent.toFixed( 0 ), "328" );
+            assert.strictEqual( converted.elevation.descent.toFixed( 0 ), "164" );
+            assert.strictEqual( converted.elevation.units, "ft" );
+        });
+
+        await t.test( "other fields and the workout itself should be unchanged", ( t ) => {
+            let converted = convertWorkoutUnits( workout, "imperial" );
+            assert.deepStrictEqual( converted.temperature, { qty: 20, units: "not-a-unit" } );
+            assert.deepStrictEqual( converted.avgHeartRate, { qty: 120, units: "bpm" } );
+            assert.strictEqual( converted.name, "Running" );
+            assert.deepStrictEqual( workout.distance, { qty: 5, units: "km" } );
+        });
+
+        await t.test( "field units should be those of the unit system", ( t ) => {
+            assert.strictEqual( getFieldUnits( "elevation.ascent", "metric" ), "m" );
+            assert.strictEqual( getFieldUnits( "avgHeartRate", "metric" ), undefined );
+        });
+    });
+});
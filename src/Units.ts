@@ -0,0 +1,195 @@
+////////////////////////////////////////////////////////////////////////////////
+// Units.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+////////////////////////////////////////////////////////////////////////////////
+// UnitSystem - system used to display quantities on the calendar
+////////////////////////////////////////////////////////////////////////////////
+export type UnitSystem = "imperial" | "metric";
+
+////////////////////////////////////////////////////////////////////////////////
+// Units of WorkoutData fields that can be converted. units gives the units 
+// shown for each UnitSystem, assumed is used when the posted data has no units.
+////////////////////////////////////////////////////////////////////////////////
+const fieldUnits: { [field: string]: { imperial: string, metric: string, assumed: string } } = {
+    "distance": { imperial: "mi", metric: "km", assumed: "mi" },
+    "speed": { imperial: "mi/hr", metric: "km/hr", assumed: "mi/hr" },
+    "activeEnergy": { imperial: "kcal", metric: "kcal", assumed: "kcal" },
+    "totalEnergy": { imperial: "kcal", metric: "kcal", assumed: "kcal" },
+    "elevation.ascent": { imperial: "ft", metric: "m", assumed: "ft" },
+    "elevation.descent": { imperial: "ft", metric: "m", assumed: "ft" },
+    "temperature": { imperial: "degF", metric: "degC", assumed: "degF" }
+};
+
+// Scale of each unit relative to the base unit of its dimension (metre, metre 
+// per second, kcal); temperatures are handled separately
+const unitScales: { [units: string]: { dimension: string, scale: number } } = {
+    "mi": { dimension: "length", scale: 1609.344 },
+    "km": { dimension: "length", scale: 1000 },
+    "m": { dimension: "length", scale: 1 },
+    "yd": { dimension: "length", scale: 0.9144 },
+    "ft": { dimension: "length", scale: 0.3048 },
+    "mi/hr": { dimension: "speed", scale: 0.44704 },
+    "mph": { dimension: "speed", scale: 0.44704 },
+    "km/hr": { dimension: "speed", scale: 1 / 3.6 },
+    "km/h": { dimension: "speed", scale: 1 / 3.6 },
+    "m/s": { dimension: "speed", scale: 1 },
+    "kcal": { dimension: "energy", scale: 1 },
+    "Cal": { dimension: "energy", scale: 1 },
+    "kJ": { dimension: "energy", scale: 1 / 4.184 }
+};
+
+// Labels for units shown on the calendar
+const unitLabels: { [units: string]: string } = {
+    "mi": "miles",
+    "km": "km",
+    "mi/hr": "mph",
+    "km/hr": "km/h",
+    "kcal": "calories",
+    "ft": "ft",
+    "m": "m",
+    "degF": "°F",
+    "degC": "°C"
+};
+
+////////////////////////////////////////////////////////////////////////////////
+// Convert aQty from aFromUnits to aToUnits, returns null if either unit is 
+// unknown or they measure different things
+////////////////////////////////////////////////////////////////////////////////
+export function convertUnits( aQty: number, aFromUnits: string, aToUnits: string ): number | null {
+    if( aFromUnits === aToUnits ) {
+        return aQty;
+    }
+
+    if( aFromUnits === "degF" && aToUnits === "degC" ) {
+        return ( aQty - 32 ) * 5 / 9;
+    } else if( aFromUnits === "degC" && aToUnits === "degF" ) {
+        return aQty * 9 / 5 + 32;
+    }
+
+    let from = unitScales[aFromUnits];
+    let to = unitScales[aToUnits];
+    if( from === undefined || to === undefined || from.dimension !== to.dimension ) {
+        return null;
+    }
+
+    return aQty * from.scale / to.scale;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the value of the field at the given dotted aPath of aWorkout, converted
+// to aUnitSystem where the field has units. Quantities give their qty; the 
+// units of a nested field (e.g. elevation.ascent) are those of its parent.
+// Returns undefined if the field is missing.
+////////////////////////////////////////////////////////////////////////////////
+export function getWorkoutValue( aWorkout: any, aPath: string, aUnitSystem: UnitSystem ): any {
+    let value: any = aWorkout;
+    let parent: any = undefined;
+    for( let key of aPath.split( "." ) ) {
+        parent = value;
+        value = value?.[key];
+    }
+
+    let units = parent?.units;
+    if( value !== null && typeof value === "object" ) {
+        units = value.units;
+        value = value.qty;
+    }
+
+    let fieldUnit = fieldUnits[aPath];
+    if( typeof value !== "number" || fieldUnit === undefined ) {
+        return value;
+    }
+
+    let converted = convertUnits( value, units ?? fieldUnit.assumed, fieldUnit[aUnitSystem] );
+    if( converted === null ) {
+        console.log( "getWorkoutValue() - cannot convert " + aPath + " from \"" + units + "\" to \"" + fieldUnit[aUnitSystem] + "\"" );
+        return value;
+    }
+
+    return converted;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the label of the units aPath is shown in for aUnitSystem
+////////////////////////////////////////////////////////////////////////////////
+export function getUnitLabel( aPath: string, aUnitSystem: UnitSystem ): string {
+    let units = fieldUnits[aPath][aUnitSystem];
+    return unitLabels[units] ?? units;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the units aPath is converted to for aUnitSystem (e.g. "mi"), undefined 
+// if it is not converted
+////////////////////////////////////////////////////////////////////////////////
+export function getFieldUnits( aPath: string, aUnitSystem: UnitSystem ): string | undefined {
+    return fieldUnits[aPath]?.[aUnitSystem];
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get a copy of aWorkout with the fields that have units converted to 
+// aUnitSystem and their units set. Fields in units that cannot be converted 
+// are left as they are.
+////////////////////////////////////////////////////////////////////////////////
+export function convertWorkoutUnits( aWorkout: any, aUnitSystem: UnitSystem ): any {
+    let ret = JSON.parse( JSON.stringify( aWorkout ) );
+
+    Object.keys( fieldUnits ).forEach( aPath => {
+        // Nested fields (e.g. elevation.ascent) use their parent's units
+        let keys = aPath.split( "." );
+        let field = aWorkout[keys[0]];
+        let qty = keys.length > 1 ? field?.[keys[1]] : field?.qty;
+        if( typeof qty !== "number" ) {
+            return;
+        }
+
+        let units = fieldUnits[aPath][aUnitSystem];
+        let converted = convertUnits( qty, field.units ?? fieldUnits[aPath].assumed, units );
+        if( converted !== null ) {
+            ret[keys[0]][keys.length > 1 ? keys[1] : "qty"] = converted;
+            ret[keys[0]].units = units;
+        }
+    });
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Format aMinutes as hours and minutes, e.g. 7h12m
+////////////////////////////////////////////////////////////////////////////////
+export function formatHoursMinutes( aMinutes: number ): string {
+    let minutes = Math.round( aMinutes );
+    return Math.floor( minutes / 60 ) + "h" + String( minutes % 60 ).padStart( 2, "0" ) + "m";
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Format aSeconds as minutes and seconds, with hours if needed, e.g. 8:04 or
+// 1:02:10
+////////////////////////////////////////////////////////////////////////////////
+export function formatSeconds( aSeconds: number ): string {
+    let seconds = Math.round( aSeconds );
+    let hours = Math.floor( seconds / 3600 );
+    let minutes = String( Math.floor( seconds / 60 ) % 60 );
+
+    return ( hours > 0 ? hours + ":" + minutes.padStart( 2, "0" ) : minutes ) + ":" + String( seconds % 60 ).padStart( 2, "0" );
+}
@@ -0,0 +1,135 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutCsv.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+
+import { isCsvContentType, parseCsv, parseWorkoutCsv } from './WorkoutCsv';
+import { isWorkoutData } from './WorkoutData';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for WorkoutCsv
+////////////////////////////////////////////////////////////////////////////////
+test( "WorkoutCsv tests", async ( t ) => {
+    let csv = fs.readFileSync( "test-data/workouts.csv", 'utf8' );
+
+    ////////////////////////////////////////////////////////////////////////////
+    // isCsvContentType() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "isCsvContentType() tests", async ( t ) => {
+        await t.test( "CSV content types should be CSV", ( t ) => {
+            assert.strictEqual( isCsvContentType( "text/csv" ), true );
+            assert.strictEqual( isCsvContentType( "text/csv; charset=utf-8" ), true );
+            assert.strictEqual( isCsvContentType( "Application/CSV" ), true );
+        });
+
+        await t.test( "other content types should not be CSV", ( t ) => {
+            assert.strictEqual( isCsvContentType( "application/json" ), false );
+            assert.strictEqual( isCsvContentType( "text/csvx" ), false );
+            assert.strictEqual( isCsvContentType( undefined ), false );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // parseCsv() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "parseCsv() tests", async ( t ) => {
+        await t.test( "rows should be split on line breaks and commas", ( t ) => {
+            assert.deepStrictEqual( parseCsv( "a,b\r\n1,\n\n2,3" ), [ [ "a", "b" ], [ "1", "" ], [ "2", "3" ] ] );
+        });
+
+        await t.test( "quoted fields should keep commas, quotes and line breaks", ( t ) => {
+            assert.deepStrictEqual( parseCsv( "\"a,b\",\"say \"\"hi\"\"\",\"x\ny\"\n" ), [ [ "a,b", "say \"hi\"", "x\ny" ] ] );
+        });
+
+        await t.test( "byte order mark should be ignored", ( t ) => {
+            assert.deepStrictEqual( parseCsv( "\uFEFFStart,End" ), [ [ "Start", "End" ] ] );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // parseWorkoutCsv() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "parseWorkoutCsv() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "CSV without the columns identifying workouts should be an error", ( t ) => {
+            assert.deepStrictEqual( parseWorkoutCsv( "" ), { workouts: [], errors: [ "CSV is empty" ] } );
+            assert.deepStrictEqual( parseWorkoutCsv( "Start,Distance (mi)\n2023-06-06 20:38:38 -0500,1" ), { 
+                workouts: [], 
+                errors: [ "CSV has no Workout Type column", "CSV has no End column" ] 
+            });
+        });
+
+        await t.test( "empty and non-numeric cells should be left out", ( t ) => {
+            let { workouts } = parseWorkoutCsv( csv );
+            assert.strictEqual( workouts[1].distance, undefined );
+            assert.strictEqual( parseWorkoutCsv( "Workout Type,Start,End,Distance (mi)\nWalk,a,b,n/a" ).workouts[0].distance, undefined );
+            assert.strictEqual( isWorkoutData( workouts[1] ), true );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "rows should be parsed into WorkoutData with the units of their columns", ( t ) => {
+            let { workouts, errors } = parseWorkoutCsv( csv );
+            assert.deepStrictEqual( errors, [] );
+            assert.strictEqual( workouts.length, 2 );
+            assert.deepStrictEqual( workouts[0], {
+                name: "Outdoor Walk",
+                start: "2023-06-06 20:38:38 -0500",
+                end: "2023-06-06 20:50:43 -0500",
+                isIndoor: false,
+                activeEnergy: { qty: 68.2, units: "kcal" },
+                totalEnergy: { qty: 133.5, units: "kcal" },
+                maxHeartRate: { qty: 108, units: "bpm" },
+                avgHeartRate: { qty: 98, units: "bpm" },
+                distance: { qty: 0.59, units: "mi" },
+                speed: { qty: 2.9, units: "mi/hr" },
+                stepCount: { qty: 308, units: "count" },
+                stepCadence: { qty: 25.4, units: "spm" },
+                flightsClimbed: { qty: 0, units: "count" },
+                elevation: { ascent: 19.2, descent: 0, units: "ft" },
+                temperature: { qty: 80, units: "degF" },
+                humidity: { qty: 56, units: "%" },
+                intensity: { qty: 4.2, units: "kcal/hr·kg" }
+            });
+            assert.strictEqual( isWorkoutData( workouts[0] ), true );
+        });
+
+        await t.test( "quoted names and numbers with thousands separators should be parsed", ( t ) => {
+            let { workouts } = parseWorkoutCsv( csv );
+            assert.strictEqual( workouts[1].name, "Traditional Strength Training, Upper Body" );
+            assert.strictEqual( workouts[1].isIndoor, true );
+            assert.deepStrictEqual( workouts[1].activeEnergy, { qty: 1020.5, units: "kcal" } );
+        });
+
+        await t.test( "columns without units should give quantities without units", ( t ) => {
+            let { workouts } = parseWorkoutCsv( "Name,Start,End,Distance,Unknown (x)\nWalk,a,b,2,3" );
+            assert.deepStrictEqual( workouts[0], { name: "Walk", start: "a", end: "b", distance: { qty: 2 } } );
+        });
+    });
+});
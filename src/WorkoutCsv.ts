@@ -0,0 +1,189 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutCsv.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+////////////////////////////////////////////////////////////////////////////////
+// Columns of the Auto Export workout CSV and the WorkoutData field each is 
+// parsed into. Columns are matched by their name without the units in 
+// brackets, lowercase letters only (e.g. "Max. Heart Rate (bpm)" is 
+// "maxheartrate"); unknown columns are ignored.
+////////////////////////////////////////////////////////////////////////////////
+const csvColumns: { [column: string]: string } = {
+    "id": "id",
+    "workouttype": "name",
+    "type": "name",
+    "name": "name",
+    "start": "start",
+    "end": "end",
+    "location": "isIndoor",
+    "activeenergy": "activeEnergy",
+    "totalenergy": "totalEnergy",
+    "maxheartrate": "maxHeartRate",
+    "avgheartrate": "avgHeartRate",
+    "averageheartrate": "avgHeartRate",
+    "distance": "distance",
+    "speed": "speed",
+    "avgspeed": "speed",
+    "averagespeed": "speed",
+    "stepcount": "stepCount",
+    "stepcadence": "stepCadence",
+    "flightsclimbed": "flightsClimbed",
+    "elevationascended": "elevation.ascent",
+    "elevationascent": "elevation.ascent",
+    "elevationdescended": "elevation.descent",
+    "elevationdescent": "elevation.descent",
+    "temperature": "temperature",
+    "humidity": "humidity",
+    "intensity": "intensity",
+    "swimcadence": "swimCadence",
+    "swimstrokecadence": "swimCadence",
+    "swimmingstrokecount": "totalSwimmingStrokeCount",
+    "totalswimmingstrokecount": "totalSwimmingStrokeCount"
+};
+
+// Fields that are text in WorkoutData, the others are quantities
+const textFields = [ "id", "name", "start", "end" ];
+
+////////////////////////////////////////////////////////////////////////////////
+// Whether aContentType (e.g. the Content-Type header of a request) is CSV
+////////////////////////////////////////////////////////////////////////////////
+export function isCsvContentType( aContentType: any ): boolean {
+    return typeof aContentType === "string" && /^\s*(text|application)\/csv\s*(;|$)/i.test( aContentType );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Parse aText as CSV (RFC 4180: fields separated by commas, quoted with " if
+// they contain commas, quotes or line breaks) into rows of fields. Blank lines
+// are skipped.
+////////////////////////////////////////////////////////////////////////////////
+export function parseCsv( aText: string ): string[][] {
+    let ret: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+    let text = aText.replace( /^\uFEFF/, "" );
+
+    let endRow = () => {
+        row.push( field );
+        if( row.length > 1 || row[0] !== "" ) {
+            ret.push( row );
+        }
+        row = [];
+        field = "";
+    };
+
+    for( let i = 0; i < text.length; i++ ) {
+        let c = text.charAt( i );
+        if( quoted ) {
+            if( c === "\"" && text.charAt( i + 1 ) === "\"" ) {
+                field += "\"";
+                i++;
+            } else if( c === "\"" ) {
+                quoted = false;
+            } else {
+                field += c;
+            }
+        } else if( c === "\"" ) {
+            quoted = true;
+        } else if( c === "," ) {
+            row.push( field );
+            field = "";
+        } else if( c === "\n" || c === "\r" ) {
+            if( c === "\r" && text.charAt( i + 1 ) === "\n" ) {
+                i++;
+            }
+            endRow();
+        } else {
+            field += c;
+        }
+    }
+    if( field !== "" || row.length > 0 ) {
+        endRow();
+    }
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Parse aText, a workout CSV exported by the Auto Export app, into workouts in
+// the WorkoutData structure, one per row. The units of each quantity are taken
+// from its column name, e.g. "Distance (mi)". Empty cells are left out, so 
+// workouts missing required quantities fail validation like posted ones. 
+// Returns errors (and no workouts) if the CSV does not have the columns 
+// needed to identify workouts.
+////////////////////////////////////////////////////////////////////////////////
+export function parseWorkoutCsv( aText: string ): { workouts: any[], errors: string[] } {
+    let rows = parseCsv( aText );
+    if( rows.length === 0 ) {
+        return { workouts: [], errors: [ "CSV is empty" ] };
+    }
+
+    let columns = rows[0].map( aHeader => {
+        let match = /^([^(]*)(?:\(([^)]*)\))?/.exec( aHeader.trim() );
+        let name = ( match?.[1] ?? "" ).toLowerCase().replace( /[^a-z]/g, "" );
+        let units = match?.[2]?.trim();
+        return { field: csvColumns[name], units: units ? units : undefined };
+    });
+
+    let fields = columns.map( aColumn => aColumn.field );
+    let errors = [ "name", "start", "end" ]
+        .filter( aField => fields.indexOf( aField ) === -1 )
+        .map( aField => "CSV has no " + ( aField === "name" ? "Workout Type" : aField.charAt( 0 ).toUpperCase() + aField.substring( 1 ) ) + " column" );
+    if( errors.length > 0 ) {
+        return { workouts: [], errors };
+    }
+
+    let workouts = rows.slice( 1 ).map( aRow => {
+        let workout: any = {};
+        columns.forEach( ( aColumn, aIndex ) => {
+            let cell = ( aRow[aIndex] ?? "" ).trim();
+            if( aColumn.field === undefined || cell === "" ) {
+                return;
+            }
+
+            if( textFields.indexOf( aColumn.field ) !== -1 ) {
+                workout[aColumn.field] = cell;
+            } else if( aColumn.field === "isIndoor" ) {
+                if( /^(indoor|outdoor)$/i.test( cell ) ) {
+                    workout.isIndoor = /^indoor$/i.test( cell );
+                }
+            } else if( !isNaN( Number( cell.replace( /,/g, "" ) ) ) ) {
+                let qty = Number( cell.replace( /,/g, "" ) );
+                let path = aColumn.field.split( "." );
+                if( path.length > 1 ) {
+                    // Nested fields like elevation.ascent share their parent's units
+                    workout[path[0]] = { ...workout[path[0]], [path[1]]: qty };
+                    if( aColumn.units !== undefined ) {
+                        workout[path[0]].units = aColumn.units;
+                    }
+                } else {
+                    workout[aColumn.field] = aColumn.units !== undefined ? { qty, units: aColumn.units } : { qty };
+                }
+            }
+        });
+
+        return workout;
+    });
+
+    return { workouts, errors: [] };
+}
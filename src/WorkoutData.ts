@@ -22,46 +22,116 @@
 // SOFTWARE.
 ////////////////////////////////////////////////////////////////////////////////
 
+import crypto from 'crypto';
+
 import Ajv, {JSONSchemaType} from 'ajv';
 import dayjs from 'dayjs';
+import dayjsutc from 'dayjs/plugin/utc';
+import dayjstimezone from 'dayjs/plugin/timezone';
+dayjs.extend( dayjsutc );
+dayjs.extend( dayjstimezone );
 
 ////////////////////////////////////////////////////////////////////////////////
 // WorkoutData - interface for one workout of data received from the Auto Export 
 // app
 ////////////////////////////////////////////////////////////////////////////////
 export default interface WorkoutData {
+    id?: string,
     name: string,
     start: string,
     end: string,
     isIndoor?: boolean,
     activeEnergy: {
-        qty: number
+        qty: number,
+        units?: string
     },
-    stepCadence: {
-        qty: number
+    stepCadence?: {
+        qty: number,
+        units?: string
     },
-    distance: {
-        qty: number
+    distance?: {
+        qty: number,
+        units?: string
     },
-    speed: {
-        qty: number
+    speed?: {
+        qty: number,
+        units?: string
     },
     avgHeartRate: {
-        qty: number
+        qty: number,
+        units?: string
     }
     maxHeartRate: {
-        qty: number
-    }
+        qty: number,
+        units?: string
+    },
+    totalEnergy?: {
+        qty: number,
+        units?: string
+    },
+    stepCount?: {
+        qty: number,
+        units?: string
+    },
+    flightsClimbed?: {
+        qty: number,
+        units?: string
+    },
+    elevation?: {
+        ascent?: number,
+        descent?: number,
+        units?: string
+    },
+    temperature?: {
+        qty: number,
+        units?: string
+    },
+    humidity?: {
+        qty: number,
+        units?: string
+    },
+    intensity?: {
+        qty: number,
+        units?: string
+    },
+    swimCadence?: {
+        qty: number,
+        units?: string
+    },
+    totalSwimmingStrokeCount?: {
+        qty: number,
+        units?: string
+    },
+    heartRateData?: HeartRateSample[],
+    route?: {
+        lat?: number,
+        lon?: number,
+        altitude?: number,
+        timestamp?: string
+    }[]
 };
 
+////////////////////////////////////////////////////////////////////////////////
+// HeartRateSample - one heart rate sample of a workout, either {date, qty} or 
+// {date, Min, Avg, Max} depending on the version of the Auto Export app
+////////////////////////////////////////////////////////////////////////////////
+export interface HeartRateSample {
+    date?: string,
+    qty?: number,
+    Min?: number,
+    Avg?: number,
+    Max?: number,
+    units?: string
+};
 
 ////////////////////////////////////////////////////////////////////////////////
 // workoutDataSchema - schema for one workout of data received from the Auto 
 // Export app
 ////////////////////////////////////////////////////////////////////////////////
-const workoutDataSchema: JSONSchemaType<WorkoutData> = {
+export const workoutDataSchema: JSONSchemaType<WorkoutData> = {
     type: "object",
     properties: {
+        id: { type: "string", nullable: true },
         name: { type: "string" },
         start: { type: "string", format: "workout-timestamp" },
         end: { type: "string", format: "workout-timestamp" },
@@ -69,47 +139,169 @@ const workoutDataSchema: JSONSchemaType<WorkoutData> = {
         activeEnergy: { 
             type: "object", 
             properties: {
-                qty: { type: "number" }
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
             },
             required: [ "qty" ]
         },
         stepCadence: { 
             type: "object", 
+            nullable: true,
             properties: {
-                qty: { type: "number" }
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
             },
             required: [ "qty" ]
         },
         distance:  { 
             type: "object", 
+            nullable: true,
             properties: {
-                qty: { type: "number" }
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
             },
             required: [ "qty" ]
         },
         speed:  { 
             type: "object", 
+            nullable: true,
             properties: {
-                qty: { type: "number" }
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
             },
             required: [ "qty" ]
         },
         avgHeartRate:  { 
             type: "object", 
             properties: {
-                qty: { type: "number" }
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
             },
             required: [ "qty" ]
         },
         maxHeartRate:  { 
             type: "object", 
             properties: {
-                qty: { type: "number" }
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
+            },
+            required: [ "qty" ]
+        },
+        totalEnergy: {
+            type: "object",
+            nullable: true,
+            properties: {
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
+            },
+            required: [ "qty" ]
+        },
+        stepCount: {
+            type: "object",
+            nullable: true,
+            properties: {
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
+            },
+            required: [ "qty" ]
+        },
+        flightsClimbed: {
+            type: "object",
+            nullable: true,
+            properties: {
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
+            },
+            required: [ "qty" ]
+        },
+        elevation: {
+            type: "object",
+            nullable: true,
+            properties: {
+                ascent: { type: "number", nullable: true },
+                descent: { type: "number", nullable: true },
+                units: { type: "string", nullable: true }
+            }
+        },
+        temperature: {
+            type: "object",
+            nullable: true,
+            properties: {
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
+            },
+            required: [ "qty" ]
+        },
+        humidity: {
+            type: "object",
+            nullable: true,
+            properties: {
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
+            },
+            required: [ "qty" ]
+        },
+        intensity: {
+            type: "object",
+            nullable: true,
+            properties: {
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
+            },
+            required: [ "qty" ]
+        },
+        swimCadence: {
+            type: "object",
+            nullable: true,
+            properties: {
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
             },
             required: [ "qty" ]
         },
+        totalSwimmingStrokeCount: {
+            type: "object",
+            nullable: true,
+            properties: {
+                qty: { type: "number" },
+                units: { type: "string", nullable: true }
+            },
+            required: [ "qty" ]
+        },
+        // Samples without a date or bpm are skipped rather than failing the 
+        // whole workout
+        heartRateData: {
+            type: "array",
+            nullable: true,
+            items: {
+                type: "object",
+                properties: {
+                    date: { type: "string", nullable: true },
+                    qty: { type: "number", nullable: true },
+                    Min: { type: "number", nullable: true },
+                    Avg: { type: "number", nullable: true },
+                    Max: { type: "number", nullable: true },
+                    units: { type: "string", nullable: true }
+                }
+            }
+        },
+        // Points without a lat and lon are skipped rather than failing the 
+        // whole workout, see getRoutePoints()
+        route: {
+            type: "array",
+            nullable: true,
+            items: {
+                type: "object",
+                properties: {
+                    lat: { type: "number", nullable: true },
+                    lon: { type: "number", nullable: true },
+                    altitude: { type: "number", nullable: true },
+                    timestamp: { type: "string", nullable: true }
+                }
+            }
+        },
     },
-    required: [ "name", "start", "end", "activeEnergy", "stepCadence", "distance", "speed", "avgHeartRate", "maxHeartRate" ],
+    required: [ "name", "start", "end", "activeEnergy", "avgHeartRate", "maxHeartRate" ],
     additionalProperties: true
 };
 
@@ -124,3 +316,71 @@ ajv.addFormat( "workout-timestamp", {
 ////////////////////////////////////////////////////////////////////////////////
 const isWorkoutData = ajv.compile( workoutDataSchema );
 export { isWorkoutData as isWorkoutData };
+
+////////////////////////////////////////////////////////////////////////////////
+// isExportData - whether aData has the structure of the data exported by the
+// Auto Export app (the data of a posted body, or an exported file): a workouts
+// array, and metrics and symptoms arrays if present
+////////////////////////////////////////////////////////////////////////////////
+export function isExportData( aData: any ): boolean {
+    return !!aData && Array.isArray( aData.workouts ) &&
+        ( aData.metrics === undefined || Array.isArray( aData.metrics ) ) &&
+        ( aData.symptoms === undefined || Array.isArray( aData.symptoms ) );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// parseWorkoutTimestamp - parse a timestamp from the Auto Export app (e.g.
+// "2023-06-06 20:38:38 -0500"), keeping the UTC offset it was recorded with so
+// that formatting gives the local time of the workout.
+////////////////////////////////////////////////////////////////////////////////
+export function parseWorkoutTimestamp( aTimestamp: string ): dayjs.Dayjs {
+    let ret = dayjs( aTimestamp );
+
+    let offsetMatch = /([+-])(\d{2}):?(\d{2})$/.exec( aTimestamp.trim() );
+    if( offsetMatch ) {
+        let offsetMinutes = Number( offsetMatch[2] ) * 60 + Number( offsetMatch[3] );
+        ret = ret.utcOffset( offsetMatch[1] === "-" ? -offsetMinutes : offsetMinutes );
+    }
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// getWorkoutDay - get the day (YYYY-MM-DD) a workout timestamp falls on, in
+// aTimezone if given, otherwise using the UTC offset in aTimestamp.
+////////////////////////////////////////////////////////////////////////////////
+export function getWorkoutDay( aTimestamp: string, aTimezone: string | null = null ): string {
+    if( aTimezone ) {
+        return dayjs( aTimestamp ).tz( aTimezone ).format( "YYYY-MM-DD" );
+    }
+
+    return parseWorkoutTimestamp( aTimestamp ).format( "YYYY-MM-DD" );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// getWorkoutIdentity - get the key that identifies aWorkout: its Auto Export id
+// if it has one (and aUseId), otherwise its start, end and name. Must match the
+// identity column in sql/migrations/003-workouts-identity.sql.
+////////////////////////////////////////////////////////////////////////////////
+export function getWorkoutIdentity( aWorkout: any, aUseId: boolean = true ): string {
+    if( aUseId && aWorkout.id !== undefined && aWorkout.id !== null ) {
+        return "id:" + aWorkout.id;
+    }
+
+    return aWorkout.start + "|" + aWorkout.end + "|" + aWorkout.name;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// getWorkoutUid - get the id of aWorkout used in calendar event UIDs and URLs,
+// a hash of its identity
+////////////////////////////////////////////////////////////////////////////////
+export function getWorkoutUid( aWorkout: any ): string {
+    return crypto.createHash( "sha1" ).update( getWorkoutIdentity( aWorkout ) ).digest( "hex" );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// getWorkoutMinutes - get the duration of aWorkout in minutes
+////////////////////////////////////////////////////////////////////////////////
+export function getWorkoutMinutes( aWorkout: any ): number {
+    return dayjs( aWorkout.end ).diff( aWorkout.start, "minute", true );
+}
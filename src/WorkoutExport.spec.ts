@@ -0,0 +1,135 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutExport.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+
+import { isExportFormat, renderWorkoutsCsv, renderWorkoutsExport, renderWorkoutsJson, renderWorkoutsTcx } from './WorkoutExport';
+import { parseWorkoutCsv } from './WorkoutCsv';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for WorkoutExport
+////////////////////////////////////////////////////////////////////////////////
+test( "WorkoutExport tests", async ( t ) => {
+    let workout = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) ).workouts[0];
+    let run: any = {
+        id: "run-1",
+        name: "Outdoor Run, \"easy\"",
+        start: "2024-03-01 10:00:00 -0500",
+        end: "2024-03-01 10:30:00 -0500",
+        isIndoor: false,
+        activeEnergy: { qty: 1255.2, units: "kJ" },
+        stepCadence: { qty: 160, units: "spm" },
+        distance: { qty: 5, units: "km" },
+        speed: { qty: 10, units: "km/hr" },
+        avgHeartRate: { qty: 150.4, units: "bpm" },
+        maxHeartRate: { qty: 171, units: "bpm" },
+        heartRateData: [ { date: "2024-03-01 10:00:10 -0500", Min: 90, Avg: 95.6, Max: 100 }, { date: "not a date", qty: 100 }, { date: "2024-03-01 10:01:00 -0500" } ]
+    };
+
+    await t.test( "formats should be csv, json and tcx", ( t ) => {
+        assert.strictEqual( isExportFormat( "tcx" ), true );
+        assert.strictEqual( isExportFormat( "xml" ), false );
+        assert.strictEqual( isExportFormat( undefined ), false );
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // renderWorkoutsCsv() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "renderWorkoutsCsv() tests", async ( t ) => {
+        let csv = renderWorkoutsCsv( [ workout, run ], "metric" );
+        let lines = csv.split( "\r\n" );
+
+        await t.test( "header should have the units of each quantity in the unit system", ( t ) => {
+            assert.match( lines[0], /^ID,Workout Type,Start,End,Duration \(min\),Location,Active Energy \(kcal\),Total Energy \(kcal\),Max Heart Rate \(bpm\),Avg Heart Rate \(bpm\),Distance \(km\),Speed \(km\/hr\),/ );
+            assert.match( lines[0], /,Elevation Ascended \(m\),Elevation Descended \(m\),Temperature \(degC\),/ );
+        });
+
+        await t.test( "there should be one row per workout with missing fields empty", ( t ) => {
+            assert.strictEqual( lines.length, 4 );
+            assert.strictEqual( lines[3], "" );
+            assert.match( lines[2], /^run-1,"Outdoor Run, ""easy""",2024-03-01 10:00:00 -0500,2024-03-01 10:30:00 -0500,30,Outdoor,300,,171,150.4,5,10,,160,/ );
+        });
+
+        await t.test( "exported CSV should import as the same quantities", ( t ) => {
+            let { workouts, errors } = parseWorkoutCsv( csv );
+            assert.deepStrictEqual( errors, [] );
+            assert.strictEqual( workouts[1].id, "run-1" );
+            assert.strictEqual( workouts[1].name, run.name );
+            assert.deepStrictEqual( workouts[1].distance, { qty: 5, units: "km" } );
+            assert.deepStrictEqual( workouts[1].activeEnergy, { qty: 300, units: "kcal" } );
+            assert.strictEqual( workouts[0].elevation.units, "m" );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // renderWorkoutsJson() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "renderWorkoutsJson() tests", async ( t ) => {
+        await t.test( "workouts should be in the posted structure with converted units", ( t ) => {
+            let json = JSON.parse( renderWorkoutsJson( [ run ], "imperial" ) );
+            assert.strictEqual( json.data.workouts.length, 1 );
+            assert.strictEqual( json.data.workouts[0].distance.units, "mi" );
+            assert.strictEqual( json.data.workouts[0].distance.qty.toFixed( 2 ), "3.11" );
+            assert.deepStrictEqual( json.data.workouts[0].activeEnergy, { qty: 300, units: "kcal" } );
+            assert.deepStrictEqual( json.data.workouts[0].heartRateData, run.heartRateData );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // renderWorkoutsTcx() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "renderWorkoutsTcx() tests", async ( t ) => {
+        let tcx = renderWorkoutsTcx( [ workout, run ] );
+
+        await t.test( "there should be an activity per workout with a lap of its totals", ( t ) => {
+            assert.match( tcx, /^<\?xml version="1.0" encoding="UTF-8"\?>\n<TrainingCenterDatabase xmlns="http:\/\/www.garmin.com\/xmlschemas\/TrainingCenterDatabase\/v2">/ );
+            assert.strictEqual( tcx.split( "<Activity " ).length - 1, 2 );
+            assert.match( tcx, /<Activity Sport="Running">\n<Id>2024-03-01T15:00:00.000Z<\/Id>\n<Lap StartTime="2024-03-01T15:00:00.000Z">\n<TotalTimeSeconds>1800<\/TotalTimeSeconds>\n<DistanceMeters>5000.0<\/DistanceMeters>\n<Calories>300<\/Calories>\n<AverageHeartRateBpm><Value>150<\/Value><\/AverageHeartRateBpm>/ );
+            assert.match( tcx, /<Notes>Outdoor Run, &quot;easy&quot;<\/Notes>/ );
+        });
+
+        await t.test( "distance and heart rate should be left out of the lap if the workout has none", ( t ) => {
+            let lap = renderWorkoutsTcx( [ { ...run, distance: undefined, avgHeartRate: undefined, maxHeartRate: undefined } ] );
+            assert.doesNotMatch( lap, /<DistanceMeters>|<AverageHeartRateBpm>|<MaximumHeartRateBpm>/ );
+            assert.match( lap, /<TotalTimeSeconds>1800<\/TotalTimeSeconds>\n<Calories>300<\/Calories>\n<Intensity>Active<\/Intensity>/ );
+        });
+
+        await t.test( "heart rate samples should be trackpoints", ( t ) => {
+            assert.strictEqual( tcx.split( "<Trackpoint>" ).length - 1, workout.heartRateData.length + 1 );
+            assert.match( tcx, /<Track>\n<Trackpoint><Time>2024-03-01T15:00:10.000Z<\/Time><HeartRateBpm><Value>96<\/Value><\/HeartRateBpm><\/Trackpoint>\n<\/Track>/ );
+        });
+
+        await t.test( "workout without heart rate samples should have no track", ( t ) => {
+            assert.doesNotMatch( renderWorkoutsTcx( [ { ...run, heartRateData: undefined } ] ), /<Track>/ );
+        });
+    });
+
+    await t.test( "renderWorkoutsExport() should render the given format", ( t ) => {
+        assert.strictEqual( renderWorkoutsExport( [ run ], "csv", "metric" ), renderWorkoutsCsv( [ run ], "metric" ) );
+        assert.strictEqual( renderWorkoutsExport( [ run ], "json", "metric" ), renderWorkoutsJson( [ run ], "metric" ) );
+        assert.strictEqual( renderWorkoutsExport( [ run ], "tcx", "metric" ), renderWorkoutsTcx( [ run ] ) );
+    });
+});
@@ -0,0 +1,202 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutExport.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import WorkoutData, { getWorkoutMinutes, parseWorkoutTimestamp } from './WorkoutData';
+import { UnitSystem, convertWorkoutUnits, getFieldUnits, getWorkoutValue } from './Units';
+
+////////////////////////////////////////////////////////////////////////////////
+// ExportFormat - formats stored workouts can be exported in
+////////////////////////////////////////////////////////////////////////////////
+export type ExportFormat = "csv" | "json" | "tcx";
+
+export const exportFormats: ExportFormat[] = [ "csv", "json", "tcx" ];
+
+// Content type of each format
+export const exportContentTypes: { [format: string]: string } = {
+    "csv": "text/csv",
+    "json": "application/json",
+    "tcx": "application/vnd.garmin.tcx+xml"
+};
+
+// Columns of CSV exports, each the header and the WorkoutData field it is 
+// from. Quantities are in the units in the header: those of the unit system 
+// for fields that are converted, else units. The headers are those the CSV 
+// import reads (see WorkoutCsv.ts), so exports can be imported again.
+const csvExportColumns: { header: string, field: string, units?: string }[] = [
+    { header: "ID", field: "id" },
+    { header: "Workout Type", field: "name" },
+    { header: "Start", field: "start" },
+    { header: "End", field: "end" },
+    { header: "Duration (min)", field: "duration" },
+    { header: "Location", field: "isIndoor" },
+    { header: "Active Energy", field: "activeEnergy" },
+    { header: "Total Energy", field: "totalEnergy" },
+    { header: "Max Heart Rate", field: "maxHeartRate", units: "bpm" },
+    { header: "Avg Heart Rate", field: "avgHeartRate", units: "bpm" },
+    { header: "Distance", field: "distance" },
+    { header: "Speed", field: "speed" },
+    { header: "Step Count", field: "stepCount", units: "count" },
+    { header: "Step Cadence", field: "stepCadence", units: "spm" },
+    { header: "Flights Climbed", field: "flightsClimbed", units: "count" },
+    { header: "Elevation Ascended", field: "elevation.ascent" },
+    { header: "Elevation Descended", field: "elevation.descent" },
+    { header: "Temperature", field: "temperature" },
+    { header: "Humidity", field: "humidity", units: "%" },
+    { header: "Intensity", field: "intensity", units: "kcal/hr·kg" },
+    { header: "Swim Cadence", field: "swimCadence", units: "spm" },
+    { header: "Swimming Stroke Count", field: "totalSwimmingStrokeCount", units: "count" }
+];
+
+////////////////////////////////////////////////////////////////////////////////
+// Whether aValue is an ExportFormat
+////////////////////////////////////////////////////////////////////////////////
+export function isExportFormat( aValue: any ): aValue is ExportFormat {
+    return exportFormats.indexOf( aValue ) !== -1;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Render aWorkouts in aFormat, with quantities in aUnitSystem for CSV and JSON
+////////////////////////////////////////////////////////////////////////////////
+export function renderWorkoutsExport( aWorkouts: WorkoutData[], aFormat: ExportFormat, aUnitSystem: UnitSystem ): string {
+    if( aFormat === "csv" ) {
+        return renderWorkoutsCsv( aWorkouts, aUnitSystem );
+    } else if( aFormat === "json" ) {
+        return renderWorkoutsJson( aWorkouts, aUnitSystem );
+    }
+
+    return renderWorkoutsTcx( aWorkouts );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Render aWorkouts as CSV, one row per workout with its quantities in 
+// aUnitSystem (see csvExportColumns)
+////////////////////////////////////////////////////////////////////////////////
+export function renderWorkoutsCsv( aWorkouts: WorkoutData[], aUnitSystem: UnitSystem ): string {
+    let headers = csvExportColumns.map( aColumn => {
+        let units = getFieldUnits( aColumn.field, aUnitSystem ) ?? aColumn.units;
+        return units !== undefined ? aColumn.header + " (" + units + ")" : aColumn.header;
+    });
+
+    let rows = aWorkouts.map( aWorkout => csvExportColumns.map( aColumn => {
+        let value: any;
+        if( aColumn.field === "duration" ) {
+            value = Math.round( getWorkoutMinutes( aWorkout ) * 100 ) / 100;
+        } else if( aColumn.field === "isIndoor" ) {
+            value = aWorkout.isIndoor === undefined ? undefined : aWorkout.isIndoor ? "Indoor" : "Outdoor";
+        } else {
+            value = getWorkoutValue( aWorkout, aColumn.field, aUnitSystem );
+        }
+
+        return value === undefined || value === null ? "" : escapeCsv( String( value ) );
+    }));
+
+    return [ headers.map( escapeCsv ) ].concat( rows ).map( aRow => aRow.join( "," ) + "\r\n" ).join( "" );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Render aWorkouts as JSON in the structure posted by the Auto Export app, 
+// with the fields that have units converted to aUnitSystem
+////////////////////////////////////////////////////////////////////////////////
+export function renderWorkoutsJson( aWorkouts: WorkoutData[], aUnitSystem: UnitSystem ): string {
+    return JSON.stringify( { data: { workouts: aWorkouts.map( aWorkout => convertWorkoutUnits( aWorkout, aUnitSystem ) ) } }, null, 4 ) + "\n";
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Render aWorkouts as a TCX (Garmin Training Center) file, one activity per 
+// workout with a single lap, and a trackpoint for each heart rate sample
+////////////////////////////////////////////////////////////////////////////////
+export function renderWorkoutsTcx( aWorkouts: WorkoutData[] ): string {
+    let activities = aWorkouts.map( aWorkout => {
+        let start = parseWorkoutTimestamp( aWorkout.start ).toISOString();
+        let lap = [ "<TotalTimeSeconds>" + Math.round( getWorkoutMinutes( aWorkout ) * 60 ) + "</TotalTimeSeconds>" ];
+        let distance = getWorkoutValue( aWorkout, "distance", "metric" );
+        if( typeof distance === "number" ) {
+            lap.push( "<DistanceMeters>" + ( distance * 1000 ).toFixed( 1 ) + "</DistanceMeters>" );
+        }
+        lap.push( "<Calories>" + Math.round( getWorkoutValue( aWorkout, "activeEnergy", "metric" ) ) + "</Calories>" );
+        if( typeof aWorkout.avgHeartRate?.qty === "number" ) {
+            lap.push( "<AverageHeartRateBpm><Value>" + Math.round( aWorkout.avgHeartRate.qty ) + "</Value></AverageHeartRateBpm>" );
+        }
+        if( typeof aWorkout.maxHeartRate?.qty === "number" ) {
+            lap.push( "<MaximumHeartRateBpm><Value>" + Math.round( aWorkout.maxHeartRate.qty ) + "</Value></MaximumHeartRateBpm>" );
+        }
+        lap.push( "<Intensity>Active</Intensity>", "<TriggerMethod>Manual</TriggerMethod>" );
+
+        let trackpoints: string[] = [];
+        ( aWorkout.heartRateData ?? [] ).forEach( aSample => {
+            let bpm = aSample?.qty ?? aSample?.Avg;
+            if( typeof aSample?.date === "string" && typeof bpm === "number" && parseWorkoutTimestamp( aSample.date ).isValid() ) {
+                trackpoints.push( "<Trackpoint><Time>" + parseWorkoutTimestamp( aSample.date ).toISOString() + "</Time>" +
+                    "<HeartRateBpm><Value>" + Math.round( bpm ) + "</Value></HeartRateBpm></Trackpoint>" );
+            }
+        });
+        if( trackpoints.length > 0 ) {
+            lap.push( "<Track>\n" + trackpoints.join( "\n" ) + "\n</Track>" );
+        }
+
+        return "<Activity Sport=\"" + getTcxSport( aWorkout.name ) + "\">\n" +
+            "<Id>" + start + "</Id>\n" +
+            "<Lap StartTime=\"" + start + "\">\n" + lap.join( "\n" ) + "\n</Lap>\n" +
+            "<Notes>" + escapeXml( aWorkout.name ) + "</Notes>\n" +
+            "</Activity>\n";
+    });
+
+    return "<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n" +
+        "<TrainingCenterDatabase xmlns=\"http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2\">\n" +
+        "<Activities>\n" + activities.join( "" ) + "</Activities>\n" +
+        "</TrainingCenterDatabase>\n";
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the TCX sport for a workout named aName, TCX only knows running and 
+// biking
+////////////////////////////////////////////////////////////////////////////////
+function getTcxSport( aName: string ): string {
+    if( /run/i.test( aName ) ) {
+        return "Running";
+    } else if( /cycl|bik/i.test( aName ) ) {
+        return "Biking";
+    }
+
+    return "Other";
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Escape aText for use as a CSV field, quoting it if needed
+////////////////////////////////////////////////////////////////////////////////
+function escapeCsv( aText: string ): string {
+    return /[",\r\n]/.test( aText ) ? "\"" + aText.replace( /"/g, "\"\"" ) + "\"" : aText;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Escape aText for use in XML
+////////////////////////////////////////////////////////////////////////////////
+function escapeXml( aText: string ): string {
+    return String( aText )
+        .replace( /&/g, "&amp;" )
+        .replace( /</g, "&lt;" )
+        .replace( />/g, "&gt;" )
+        .replace( /"/g, "&quot;" )
+        .replace( /'/g, "&apos;" );
+}
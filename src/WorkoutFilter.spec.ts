@@ -0,0 +1,122 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutFilter.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import test from "node:test";
+import assert from "node:assert";
+
+import { matchesWorkoutFilter, parseWorkoutFilter } from './WorkoutFilter';
+import { defaultWorkoutTypes } from './WorkoutTypes';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for WorkoutFilter
+////////////////////////////////////////////////////////////////////////////////
+test( "WorkoutFilter tests", async ( t ) => {
+    let workout = {
+        name: "Running",
+        start: "2024-03-01 23:30:00 -0500",
+        end: "2024-03-02 00:00:00 -0500",
+        isIndoor: false,
+        activeEnergy: { qty: 300 },
+        stepCadence: { qty: 160 },
+        distance: { qty: 3 },
+        speed: { qty: 6 },
+        avgHeartRate: { qty: 150 },
+        maxHeartRate: { qty: 170 }
+    };
+
+    ////////////////////////////////////////////////////////////////////////////
+    // parseWorkoutFilter() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "parseWorkoutFilter() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "invalid values should be reported", ( t ) => {
+            let { errors } = parseWorkoutFilter( { indoor: "maybe", since: "yesterday", until: "90d", minDuration: "20 minutes" } );
+            assert.strictEqual( errors.length, 4 );
+        });
+
+        await t.test( "params given more than once should be reported", ( t ) => {
+            let { errors } = parseWorkoutFilter( { types: [ "run", "walk" ] } );
+            assert.deepStrictEqual( errors, [ "types: must be given once" ] );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "all params should be parsed", ( t ) => {
+            let { filter, errors } = parseWorkoutFilter( { types: "run, walk", indoor: "false", since: "2024-01-01", until: "2024-01-31", minDuration: "20m", secret: "x" } );
+            assert.deepStrictEqual( errors, [] );
+            assert.deepStrictEqual( filter, { types: [ "run", "walk" ], indoor: false, since: "2024-01-01", until: "2024-01-31", minDuration: 20 } );
+        });
+
+        await t.test( "since should accept a number of days before today", ( t ) => {
+            assert.strictEqual( parseWorkoutFilter( { since: "90d" }, "2024-03-31" ).filter.since, "2024-01-01" );
+        });
+
+        await t.test( "minDuration should accept hours, minutes and seconds", ( t ) => {
+            assert.strictEqual( parseWorkoutFilter( { minDuration: "1h30m" } ).filter.minDuration, 90 );
+            assert.strictEqual( parseWorkoutFilter( { minDuration: "90s" } ).filter.minDuration, 1.5 );
+            assert.strictEqual( parseWorkoutFilter( { minDuration: "45" } ).filter.minDuration, 45 );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // matchesWorkoutFilter() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "matchesWorkoutFilter() tests", async ( t ) => {
+        let matches = ( aFilter, aTimezone: string | null = null ) => matchesWorkoutFilter( workout, aFilter, defaultWorkoutTypes, aTimezone );
+
+        await t.test( "empty filter should match", ( t ) => {
+            assert.strictEqual( matches( {} ), true );
+        });
+
+        await t.test( "types should match the workout name, title or type in the title", ( t ) => {
+            assert.strictEqual( matches( { types: [ "running" ] } ), true );
+            assert.strictEqual( matches( { types: [ "Cardio - run" ] } ), true );
+            assert.strictEqual( matches( { types: [ "walk", "run" ] } ), true );
+            assert.strictEqual( matches( { types: [ "walk" ] } ), false );
+        });
+
+        await t.test( "indoor should match isIndoor", ( t ) => {
+            assert.strictEqual( matches( { indoor: false } ), true );
+            assert.strictEqual( matches( { indoor: true } ), false );
+        });
+
+        await t.test( "since should match the workout's day in the timezone", ( t ) => {
+            assert.strictEqual( matches( { since: "2024-03-02" } ), false );
+            assert.strictEqual( matches( { since: "2024-03-02" }, "Europe/London" ), true );
+        });
+
+        await t.test( "until should match the workout's day in the timezone", ( t ) => {
+            assert.strictEqual( matches( { until: "2024-03-01" } ), true );
+            assert.strictEqual( matches( { until: "2024-03-01" }, "Europe/London" ), false );
+        });
+
+        await t.test( "minDuration should match the workout's duration", ( t ) => {
+            assert.strictEqual( matches( { minDuration: 30 } ), true );
+            assert.strictEqual( matches( { minDuration: 31 } ), false );
+        });
+    });
+});
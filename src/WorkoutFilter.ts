@@ -0,0 +1,170 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutFilter.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import dayjs from 'dayjs';
+import dayjsutc from 'dayjs/plugin/utc';
+dayjs.extend( dayjsutc );
+
+import WorkoutData, { getWorkoutDay, getWorkoutMinutes } from './WorkoutData';
+import { WorkoutTypeRule, findWorkoutTypeRule, getWorkoutTypeTitle } from './WorkoutTypes';
+import { getToday } from './Periods';
+
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutFilter - which workouts to show on a calendar, unset fields match any
+// workout
+////////////////////////////////////////////////////////////////////////////////
+export interface WorkoutFilter {
+    // Workout types, each matching the workout name (e.g. "Running"), its event
+    // title (e.g. "Cardio - run") or the part of the title after " - " (e.g. 
+    // "run"), ignoring case
+    types?: string[],
+
+    // Only indoor (true) or outdoor (false) workouts, missing isIndoor is 
+    // treated as false
+    indoor?: boolean,
+
+    // First and last day (YYYY-MM-DD) of workouts to show
+    since?: string,
+    until?: string,
+
+    // Minimum workout duration in minutes
+    minDuration?: number
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Querystring params that parseWorkoutFilter() reads
+////////////////////////////////////////////////////////////////////////////////
+export const workoutFilterParams = [ "types", "indoor", "since", "until", "minDuration" ];
+
+////////////////////////////////////////////////////////////////////////////////
+// Parse a WorkoutFilter from aQuery (e.g. the querystring of a calendar 
+// request): types=run,walk, indoor=true|false, since=YYYY-MM-DD or since=90d 
+// (the last 90 days up to aToday), until=YYYY-MM-DD, minDuration=20m (also 
+// 1h, 1h30m, 90s or a number of minutes). Returns the filter and a list of 
+// problems (empty if aQuery is valid).
+////////////////////////////////////////////////////////////////////////////////
+export function parseWorkoutFilter( aQuery: { [param: string]: any }, aToday: string = getToday( null ) ): { filter: WorkoutFilter, errors: string[] } {
+    let filter: WorkoutFilter = {};
+    let errors: string[] = [];
+
+    workoutFilterParams.filter( aParam => aQuery[aParam] !== undefined ).forEach( aParam => {
+        let value = aQuery[aParam];
+        if( typeof value !== "string" ) {
+            errors.push( aParam + ": must be given once" );
+            return;
+        }
+
+        if( aParam === "types" ) {
+            filter.types = value.split( "," ).map( aType => aType.trim() ).filter( aType => aType.length > 0 );
+        } else if( aParam === "indoor" ) {
+            if( value !== "true" && value !== "false" ) {
+                errors.push( "indoor: must be true or false" );
+            }
+            filter.indoor = value === "true";
+        } else if( aParam === "since" ) {
+            let relativeMatch = /^(\d+)d$/.exec( value );
+            if( relativeMatch ) {
+                filter.since = dayjs.utc( aToday ).subtract( Number( relativeMatch[1] ), "day" ).format( "YYYY-MM-DD" );
+            } else if( /^\d{4}-\d{2}-\d{2}$/.test( value ) && dayjs.utc( value ).isValid() ) {
+                filter.since = value;
+            } else {
+                errors.push( "since: must be a date (YYYY-MM-DD) or a number of days (e.g. 90d)" );
+            }
+        } else if( aParam === "until" ) {
+            if( /^\d{4}-\d{2}-\d{2}$/.test( value ) && dayjs.utc( value ).isValid() ) {
+                filter.until = value;
+            } else {
+                errors.push( "until: must be a date (YYYY-MM-DD)" );
+            }
+        } else if( aParam === "minDuration" ) {
+            let minutes = parseDurationMinutes( value );
+            if( minutes === null ) {
+                errors.push( "minDuration: must be a duration such as 20m, 1h30m or 90s" );
+            } else {
+                filter.minDuration = minutes;
+            }
+        }
+    });
+
+    return { filter: filter, errors: errors };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Check if aWorkout matches aFilter, using aWorkoutTypes to find event titles
+// and aTimezone (or the workout's UTC offset if null) to find its day
+////////////////////////////////////////////////////////////////////////////////
+export function matchesWorkoutFilter( 
+    aWorkout: WorkoutData, 
+    aFilter: WorkoutFilter, 
+    aWorkoutTypes: WorkoutTypeRule[], 
+    aTimezone: string | null 
+): boolean {
+    if( aFilter.types !== undefined ) {
+        let names = [ aWorkout.name.toLowerCase() ];
+        let rule = findWorkoutTypeRule( aWorkoutTypes, aWorkout );
+        if( rule !== null ) {
+            let title = getWorkoutTypeTitle( rule, aWorkout ).toLowerCase();
+            names.push( title, title.split( " - " ).pop() ?? title );
+        }
+
+        if( !aFilter.types.some( aType => names.indexOf( aType.toLowerCase() ) !== -1 ) ) {
+            return false;
+        }
+    }
+
+    if( aFilter.indoor !== undefined && ( aWorkout.isIndoor === true ) !== aFilter.indoor ) {
+        return false;
+    }
+
+    if( aFilter.since !== undefined && getWorkoutDay( aWorkout.start, aTimezone ) < aFilter.since ) {
+        return false;
+    }
+
+    if( aFilter.until !== undefined && getWorkoutDay( aWorkout.start, aTimezone ) > aFilter.until ) {
+        return false;
+    }
+
+    if( aFilter.minDuration !== undefined && getWorkoutMinutes( aWorkout ) < aFilter.minDuration ) {
+        return false;
+    }
+
+    return true;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Parse a duration such as 20m, 1h30m, 90s or 45 (minutes) into minutes, 
+// returns null if aDuration is not a duration
+////////////////////////////////////////////////////////////////////////////////
+function parseDurationMinutes( aDuration: string ): number | null {
+    if( /^\d+(\.\d+)?$/.test( aDuration ) ) {
+        return Number( aDuration );
+    }
+
+    let match = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/.exec( aDuration );
+    if( match === null || aDuration.length === 0 ) {
+        return null;
+    }
+
+    return Number( match[1] ?? 0 ) * 60 + Number( match[2] ?? 0 ) + Number( match[3] ?? 0 ) / 60;
+}
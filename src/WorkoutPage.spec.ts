@@ -0,0 +1,166 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutPage.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+
+import test from "node:test";
+import assert from "node:assert";
+import * as fs from "fs";
+
+import { calcSplits, getWorkoutPageToken, getWorkoutPageUrl, isWorkoutPageToken, renderWorkoutPage } from './WorkoutPage';
+import { getWorkoutUid } from './WorkoutData';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for WorkoutPage
+////////////////////////////////////////////////////////////////////////////////
+test( "WorkoutPage tests", async ( t ) => {
+    let workout = JSON.parse( fs.readFileSync( "test-data/workoutA.json", 'utf8' ) ).workouts[0];
+
+    // A route heading north from the equator, one point a minute, 0.01 
+    // degrees (about 1.11 km) apart
+    let route = [ 0, 1, 2, 3 ].map( aMinute => {
+        return { lat: aMinute * 0.01, lon: 0, timestamp: "2023-06-06 20:" + ( 40 + aMinute ) + ":00 -0500" };
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Token tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "token tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "tokens for another workout or secret should not be valid", ( t ) => {
+            let token = getWorkoutPageToken( "a", "secret" );
+            assert.strictEqual( isWorkoutPageToken( token, "b", "secret" ), false );
+            assert.strictEqual( isWorkoutPageToken( token, "a", "other-secret" ), false );
+            assert.strictEqual( isWorkoutPageToken( undefined, "a", "secret" ), false );
+            assert.strictEqual( isWorkoutPageToken( [ token ], "a", "secret" ), false );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "token should be valid for its workout and secret", ( t ) => {
+            assert.strictEqual( isWorkoutPageToken( getWorkoutPageToken( "a", "secret" ), "a", "secret" ), true );
+        });
+
+        await t.test( "token should not contain the secret", ( t ) => {
+            assert.strictEqual( getWorkoutPageToken( "a", "secret" ).indexOf( "secret" ), -1 );
+        });
+
+        await t.test( "URL should be under the base URL", ( t ) => {
+            let id = getWorkoutUid( workout );
+            assert.strictEqual( 
+                getWorkoutPageUrl( workout, { baseUrl: "https://example.com/workouts-to-ical/", secret: "secret" } ),
+                "https://example.com/workouts-to-ical/workouts/" + id + "?token=" + getWorkoutPageToken( id, "secret" )
+            );
+            assert.strictEqual( 
+                getWorkoutPageUrl( workout, { baseUrl: "https://example.com/workouts-to-ical", secret: "secret" } ),
+                "https://example.com/workouts-to-ical/workouts/" + id + "?token=" + getWorkoutPageToken( id, "secret" )
+            );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // calcSplits() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "calcSplits() tests", async ( t ) => {
+        await t.test( "workout without a route should have no splits", ( t ) => {
+            assert.deepStrictEqual( calcSplits( workout, "imperial" ), [] );
+        });
+
+        await t.test( "splits should be per km with metric units", ( t ) => {
+            let splits = calcSplits( { ...workout, route }, "metric" );
+            assert.strictEqual( splits.length, 4 );
+            assert.deepStrictEqual( splits.slice( 0, 3 ).map( aSplit => aSplit.distance ), [ 1, 1, 1 ] );
+            assert.strictEqual( Math.round( splits[0].seconds ), 54 );
+            assert.strictEqual( Math.round( splits[3].distance * 100 ), 34 );
+            assert.strictEqual( Math.round( splits.reduce( ( aTotal, aSplit ) => aTotal + aSplit.seconds, 0 ) ), 180 );
+        });
+
+        await t.test( "splits should be per mile with imperial units", ( t ) => {
+            let splits = calcSplits( { ...workout, route }, "imperial" );
+            assert.strictEqual( splits.length, 3 );
+            assert.strictEqual( Math.round( splits[0].seconds ), 87 );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // renderWorkoutPage() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "renderWorkoutPage() tests", async ( t ) => {
+        let page = renderWorkoutPage( workout, { unitSystem: "imperial", timezone: null, heartRateZones: null } );
+
+        await t.test( "page should show the workout's name, day and quantities", ( t ) => {
+            assert.match( page, /<h1>Walking<\/h1>/ );
+            assert.match( page, /Tuesday, June 6, 2023 8:38 PM/ );
+            assert.match( page, /<th>Distance<\/th><td>0\.59 miles<\/td>/ );
+            assert.match( page, /<th>Elevation<\/th><td>19 ft up · 0 ft down<\/td>/ );
+            assert.match( page, /<th>Temperature<\/th><td>80 °F<\/td>/ );
+            assert.match( page, /<th>Humidity<\/th><td>56%<\/td>/ );
+        });
+
+        await t.test( "page should chart heart rate and recovery", ( t ) => {
+            assert.match( page, /<h2>Heart rate<\/h2>\n<svg/ );
+            assert.match( page, /<h2>Heart rate recovery<\/h2>\n<svg/ );
+        });
+
+        await t.test( "page should show heart rate zones and recovery when configured", ( t ) => {
+            assert.doesNotMatch( page, /Heart rate zones/ );
+            let zonesPage = renderWorkoutPage( workout, { unitSystem: "imperial", timezone: null, heartRateZones: { bpm: [ 90, 100 ] } } );
+            assert.match( zonesPage, /<h2>Heart rate zones<\/h2>\n<table><tr><th>Z1 \(90-99 bpm\)<\/th><td>[0-9:]+<\/td><\/tr><tr><th>Z2 \(100\+ bpm\)<\/th>/ );
+            assert.match( zonesPage, /<p>29 bpm drop after 1 minute<\/p>/ );
+        });
+
+        await t.test( "page should show splits only for workouts with a route", ( t ) => {
+            assert.doesNotMatch( page, /Splits/ );
+            assert.match( renderWorkoutPage( { ...workout, route }, { unitSystem: "metric", timezone: null, heartRateZones: null } ), /<h2>Splits<\/h2>\n<table><tr><th>km 1<\/th><td>0:54<\/td>/ );
+        });
+
+        await t.test( "page should compare the route distance with the recorded distance", ( t ) => {
+            assert.doesNotMatch( page, /<h2>Route<\/h2>/ );
+            let routePage = renderWorkoutPage( { ...workout, route }, { unitSystem: "imperial", timezone: null, heartRateZones: null } );
+            assert.match( routePage, /<h2>Route<\/h2>\n<p>2\.07 mi from GPS, 0\.59 mi recorded \(250% difference\)<\/p>/ );
+            let matchingPage = renderWorkoutPage( { ...workout, route, distance: { qty: 2.1, units: "mi" } }, { unitSystem: "imperial", timezone: null, heartRateZones: null } );
+            assert.match( matchingPage, /<p>2\.07 mi from GPS, 2\.10 mi recorded<\/p>/ );
+        });
+
+        await t.test( "page should link to the GPX of the route when given", ( t ) => {
+            assert.doesNotMatch( renderWorkoutPage( { ...workout, route }, { unitSystem: "imperial", timezone: null, heartRateZones: null } ), /GPX/ );
+            assert.doesNotMatch( renderWorkoutPage( workout, { unitSystem: "imperial", timezone: null, heartRateZones: null }, "abc/route.gpx?token=t" ), /GPX/ );
+            let linkPage = renderWorkoutPage( { ...workout, route }, { unitSystem: "imperial", timezone: null, heartRateZones: null }, "abc/route.gpx?token=t&x" );
+            assert.match( linkPage, /<p><a href="abc\/route\.gpx\?token=t&amp;x">Download GPX<\/a><\/p>/ );
+        });
+
+        await t.test( "page should leave out missing fields and escape names", ( t ) => {
+            let otherPage = renderWorkoutPage( { ...workout, name: "<b>Walk</b>", humidity: undefined, heartRateData: [] }, { unitSystem: "imperial", timezone: null, heartRateZones: null } );
+            assert.match( otherPage, /<h1>&lt;b&gt;Walk&lt;\/b&gt;<\/h1>/ );
+            assert.doesNotMatch( otherPage, /Humidity/ );
+            assert.doesNotMatch( otherPage, /<h2>Heart rate<\/h2>/ );
+        });
+
+        await t.test( "page should show times in the configured timezone", ( t ) => {
+            assert.match( renderWorkoutPage( workout, { unitSystem: "imperial", timezone: "Europe/London", heartRateZones: null } ), /Wednesday, June 7, 2023 2:38 AM/ );
+        });
+    });
+});
@@ -0,0 +1,280 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutPage.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+
+import crypto from 'crypto';
+
+import dayjs from 'dayjs';
+import dayjsutc from 'dayjs/plugin/utc';
+import dayjstimezone from 'dayjs/plugin/timezone';
+dayjs.extend( dayjsutc );
+dayjs.extend( dayjstimezone );
+
+import { getWorkoutUid, parseWorkoutTimestamp } from './WorkoutData';
+import { renderBodyTemplate } from './BodyTemplate';
+import { UnitSystem, convertUnits, formatSeconds, getWorkoutValue } from './Units';
+import { HeartRateZones, calcHeartRateAnalysis, getZoneBounds } from './HeartRateZones';
+import { RoutePoint, calcDistanceMetres, checkRouteDistance, getRoutePoints } from './Routes';
+
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutPageLink - how calendar events link to the detail pages of their 
+// workouts: pages are served under baseUrl (the externalUrl of the app), with
+// a token per workout derived from secret so that the link does not reveal it
+////////////////////////////////////////////////////////////////////////////////
+export interface WorkoutPageLink {
+    baseUrl: string,
+    secret: string
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// IWorkoutPageConfig
+////////////////////////////////////////////////////////////////////////////////
+export interface IWorkoutPageConfig {
+    unitSystem: UnitSystem,
+    timezone: string | null,
+    heartRateZones: HeartRateZones | null
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Split - the time taken for one mile or km of a route, the last split may be
+// shorter
+////////////////////////////////////////////////////////////////////////////////
+export interface Split {
+    // Distance covered in the unit system's distance units
+    distance: number,
+    seconds: number
+}
+
+// Rows of the summary table, each a label and a body template; rows for a 
+// field the workout does not have are left out
+const summaryRows: { label: string, template: string, field?: string }[] = [
+    { label: "Duration", template: "{duration}" },
+    { label: "Distance", template: "{distance} {distanceUnit}" },
+    { label: "Pace", template: "{pace} {paceUnit}" },
+    { label: "Speed", template: "{speed:1} {speedUnit}" },
+    { label: "Active energy", template: "{activeEnergy} calories" },
+    { label: "Total energy", template: "{totalEnergy} calories", field: "totalEnergy" },
+    { label: "Heart rate", template: "{avgHeartRate} avg · {maxHeartRate} max bpm" },
+    { label: "Step cadence", template: "{stepCadence} spm" },
+    { label: "Steps", template: "{stepCount}", field: "stepCount" },
+    { label: "Elevation", template: "{elevation.ascent} {elevationUnit} up · {elevation.descent} {elevationUnit} down", field: "elevation.ascent" },
+    { label: "Temperature", template: "{temperature} {temperatureUnit}", field: "temperature" },
+    { label: "Humidity", template: "{humidity}%", field: "humidity" },
+    { label: "Intensity", template: "{intensity:1} MET", field: "intensity" }
+];
+
+// Size of heart rate charts in px
+const chartWidth = 600;
+const chartHeight = 150;
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the token for the page of the workout with id aId (see getWorkoutUid())
+// when links are made with aSecret
+////////////////////////////////////////////////////////////////////////////////
+export function getWorkoutPageToken( aId: string, aSecret: string ): string {
+    return crypto.createHmac( "sha256", aSecret ).update( aId ).digest( "hex" ).substring( 0, 32 );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Whether aToken is the token for the page of the workout with id aId when 
+// links are made with aSecret
+////////////////////////////////////////////////////////////////////////////////
+export function isWorkoutPageToken( aToken: any, aId: string, aSecret: string ): boolean {
+    let expected = getWorkoutPageToken( aId, aSecret );
+    if( typeof aToken !== "string" || aToken.length !== expected.length ) {
+        return false;
+    }
+
+    return crypto.timingSafeEqual( Buffer.from( aToken ), Buffer.from( expected ) );
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the URL of the detail page of aWorkout for aLink
+////////////////////////////////////////////////////////////////////////////////
+export function getWorkoutPageUrl( aWorkout: any, aLink: WorkoutPageLink ): string {
+    // Resolve relative to the base URL as a directory, even without a trailing /
+    let id = getWorkoutUid( aWorkout );
+    return new URL( "workouts/" + id + "?token=" + getWorkoutPageToken( id, aLink.secret ), aLink.baseUrl.replace( /\/?$/, "/" ) ).href;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Calculate the splits of aWorkout from its route (points with lat, lon and 
+// timestamp), per mile or km for aUnitSystem. Returns an empty list if the 
+// workout has no route.
+////////////////////////////////////////////////////////////////////////////////
+export function calcSplits( aWorkout: any, aUnitSystem: UnitSystem ): Split[] {
+    let points = getRoutePoints( aWorkout ).filter( ( aPoint ): aPoint is RoutePoint & { timestamp: string } => aPoint.timestamp !== null );
+    if( points.length < 2 ) {
+        return [];
+    }
+
+    let splitMetres = convertUnits( 1, aUnitSystem === "metric" ? "km" : "mi", "m" ) ?? 1000;
+    let ret: Split[] = [];
+    let metres = 0;
+    let splitStartSeconds = 0;
+    let startTime = parseWorkoutTimestamp( points[0].timestamp );
+
+    for( let i = 1; i < points.length; i++ ) {
+        let stepMetres = calcDistanceMetres( points[i - 1], points[i] );
+        let stepStartSeconds = parseWorkoutTimestamp( points[i - 1].timestamp ).diff( startTime, "second", true );
+        let stepEndSeconds = parseWorkoutTimestamp( points[i].timestamp ).diff( startTime, "second", true );
+
+        // Close each split this step crosses, at the time it was crossed
+        while( stepMetres > 0 && metres + stepMetres >= ( ret.length + 1 ) * splitMetres ) {
+            let fraction = ( ( ret.length + 1 ) * splitMetres - metres ) / stepMetres;
+            let splitEndSeconds = stepStartSeconds + fraction * ( stepEndSeconds - stepStartSeconds );
+            ret.push( { distance: 1, seconds: splitEndSeconds - splitStartSeconds } );
+            splitStartSeconds = splitEndSeconds;
+        }
+
+        metres += stepMetres;
+    }
+
+    let lastSeconds = parseWorkoutTimestamp( points[points.length - 1].timestamp ).diff( startTime, "second", true );
+    let remainingMetres = metres - ret.length * splitMetres;
+    if( remainingMetres > 0 && lastSeconds > splitStartSeconds ) {
+        ret.push( { distance: remainingMetres / splitMetres, seconds: lastSeconds - splitStartSeconds } );
+    }
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Render the HTML detail page of aWorkout: a summary of its quantities, 
+// splits, its route distance (linking to aRouteUrl, the GPX of the route, if
+// given), charts of its heart rate and heart rate recovery, and the time in
+// each heart rate zone if configured
+////////////////////////////////////////////////////////////////////////////////
+export function renderWorkoutPage( aWorkout: any, aConfig: IWorkoutPageConfig, aRouteUrl: string | null = null ): string {
+    let start = parseWorkoutTimestamp( aWorkout.start );
+    if( aConfig.timezone !== null ) {
+        start = start.tz( aConfig.timezone );
+    }
+
+    let rows = summaryRows
+        .filter( aRow => aRow.field === undefined || getWorkoutValue( aWorkout, aRow.field, aConfig.unitSystem ) !== undefined )
+        .map( aRow => "<tr><th>" + aRow.label + "</th><td>" + escapeHtml( renderBodyTemplate( aRow.template, aWorkout, aConfig.unitSystem ) ) + "</td></tr>" );
+
+    let sections = [
+        "<h1>" + escapeHtml( aWorkout.name ) + "</h1>",
+        "<p>" + start.format( "dddd, MMMM D, YYYY h:mm A" ) + ( aWorkout.isIndoor ? " · Indoor" : "" ) + "</p>",
+        "<table>" + rows.join( "" ) + "</table>"
+    ];
+
+    let splits = calcSplits( aWorkout, aConfig.unitSystem );
+    if( splits.length > 0 ) {
+        let unit = aConfig.unitSystem === "metric" ? "km" : "Mile";
+        sections.push( "<h2>Splits</h2>" );
+        sections.push( "<table>" + splits.map( ( aSplit, aIndex ) => {
+            let label = aSplit.distance < 1 ? aSplit.distance.toFixed( 2 ) : unit + " " + ( aIndex + 1 );
+            return "<tr><th>" + label + "</th><td>" + formatSeconds( aSplit.seconds / aSplit.distance ) + "</td></tr>";
+        }).join( "" ) + "</table>" );
+    }
+
+    let routeCheck = checkRouteDistance( aWorkout, aConfig.unitSystem );
+    if( getRoutePoints( aWorkout ).length > 0 ) {
+        sections.push( "<h2>Route</h2>" );
+        if( routeCheck !== null ) {
+            let unit = aConfig.unitSystem === "metric" ? "km" : "mi";
+            sections.push( "<p>" + routeCheck.routeDistance.toFixed( 2 ) + " " + unit + " from GPS, " + routeCheck.recordedDistance.toFixed( 2 ) + " " + unit + " recorded" +
+                ( routeCheck.isConsistent ? "" : " (" + Math.round( routeCheck.difference * 100 ) + "% difference)" ) + "</p>" );
+        }
+        if( aRouteUrl !== null ) {
+            sections.push( "<p><a href=\"" + escapeHtml( aRouteUrl ) + "\">Download GPX</a></p>" );
+        }
+    }
+
+    let heartRateChart = renderHeartRateChart( aWorkout.heartRateData, aWorkout.start, aWorkout.end );
+    if( heartRateChart !== null ) {
+        sections.push( "<h2>Heart rate</h2>", heartRateChart );
+    }
+
+    let heartRate = calcHeartRateAnalysis( aWorkout, aConfig.heartRateZones );
+    if( aConfig.heartRateZones !== null && heartRateChart !== null ) {
+        let bounds = getZoneBounds( aConfig.heartRateZones );
+        sections.push( "<h2>Heart rate zones</h2>" );
+        sections.push( "<table>" + heartRate.zoneSeconds.map( ( aSeconds, aIndex ) => 
+            "<tr><th>Z" + ( aIndex + 1 ) + " (" + bounds[aIndex] + ( aIndex + 1 < bounds.length ? "-" + ( bounds[aIndex + 1] - 1 ) : "+" ) + " bpm)</th><td>" + formatSeconds( aSeconds ) + "</td></tr>"
+        ).join( "" ) + "</table>" );
+    }
+
+    let recoveryChart = renderHeartRateChart( aWorkout.heartRateRecovery, aWorkout.end, null );
+    if( recoveryChart !== null ) {
+        sections.push( "<h2>Heart rate recovery</h2>", recoveryChart );
+        if( heartRate.recovery !== null ) {
+            sections.push( "<p>" + heartRate.recovery + " bpm drop after 1 minute</p>" );
+        }
+    }
+
+    return "<!DOCTYPE html>\n" +
+        "<html><head><meta charset=\"utf-8\"><meta name=\"viewport\" content=\"width=device-width, initial-scale=1\">" +
+        "<title>" + escapeHtml( aWorkout.name ) + " - " + start.format( "YYYY-MM-DD" ) + "</title>" +
+        "<style>body{font-family:sans-serif;max-width:640px;margin:auto;padding:1em}th{text-align:left;padding-right:1em}svg{width:100%;height:auto}</style>" +
+        "</head><body>\n" + sections.join( "\n" ) + "\n</body></html>\n";
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Render an SVG line chart of heart rate aSamples ({date, qty} or {date, Avg})
+// from aStart to aEnd (or the last sample if null), with the min and max bpm.
+// Returns null if there are fewer than two samples.
+////////////////////////////////////////////////////////////////////////////////
+function renderHeartRateChart( aSamples: any, aStart: string, aEnd: string | null ): string | null {
+    let start = parseWorkoutTimestamp( aStart );
+    let points = ( Array.isArray( aSamples ) ? aSamples : [] )
+        .filter( aSample => typeof aSample?.date === "string" )
+        .map( aSample => ({ seconds: parseWorkoutTimestamp( aSample.date ).diff( start, "second", true ), bpm: aSample.qty ?? aSample.Avg }) )
+        .filter( aPoint => !isNaN( aPoint.seconds ) && typeof aPoint.bpm === "number" );
+    if( points.length < 2 ) {
+        return null;
+    }
+
+    let seconds = points.map( aPoint => aPoint.seconds );
+    let bpms = points.map( aPoint => aPoint.bpm );
+    let firstSeconds = Math.min( ...seconds );
+    let lastSeconds = aEnd !== null ? parseWorkoutTimestamp( aEnd ).diff( start, "second", true ) : Math.max( ...seconds );
+    let minBpm = Math.min( ...bpms );
+    let maxBpm = Math.max( ...bpms );
+
+    let x = ( aSeconds: number ) => ( ( aSeconds - firstSeconds ) / Math.max( lastSeconds - firstSeconds, 1 ) * chartWidth ).toFixed( 1 );
+    let y = ( aBpm: number ) => ( chartHeight - ( aBpm - minBpm ) / Math.max( maxBpm - minBpm, 1 ) * chartHeight ).toFixed( 1 );
+
+    return "<svg viewBox=\"0 -15 " + chartWidth + " " + ( chartHeight + 30 ) + "\" xmlns=\"http://www.w3.org/2000/svg\">" +
+        "<polyline fill=\"none\" stroke=\"#d33\" stroke-width=\"2\" points=\"" + points.map( aPoint => x( aPoint.seconds ) + "," + y( aPoint.bpm ) ).join( " " ) + "\"/>" +
+        "<text x=\"0\" y=\"-3\" font-size=\"12\">" + Math.round( maxBpm ) + " bpm</text>" +
+        "<text x=\"0\" y=\"" + ( chartHeight + 14 ) + "\" font-size=\"12\">" + Math.round( minBpm ) + " bpm</text>" +
+        "<text x=\"" + chartWidth + "\" y=\"" + ( chartHeight + 14 ) + "\" font-size=\"12\" text-anchor=\"end\">" + formatSeconds( lastSeconds - firstSeconds ) + "</text>" +
+        "</svg>";
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Escape aText for use in HTML
+////////////////////////////////////////////////////////////////////////////////
+function escapeHtml( aText: string ): string {
+    return String( aText )
+        .replace( /&/g, "&amp;" )
+        .replace( /</g, "&lt;" )
+        .replace( />/g, "&gt;" )
+        .replace( /"/g, "&quot;" )
+        .replace( /'/g, "&#39;" );
+}
@@ -0,0 +1,93 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutTypes.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import WorkoutData from './WorkoutData';
+import { cadenceBodyTemplate, elevationBodyTemplate } from './BodyTemplate';
+
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutTypeRule - maps workouts posted by the Auto Export app to a calendar
+// event title
+////////////////////////////////////////////////////////////////////////////////
+export interface WorkoutTypeRule {
+    // Auto Export workout name to match, "*" matches any workout name
+    name: string,
+
+    // If set, only match workouts with this isIndoor value (missing isIndoor 
+    // is treated as false)
+    isIndoor?: boolean,
+
+    // Calendar event title, "{name}" is replaced with the workout name
+    title: string,
+
+    // Template for the calendar event body, see BodyTemplate.ts. If not set, 
+    // the configured default bodyTemplate is used.
+    bodyTemplate?: string
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// defaultWorkoutTypes - walking, running, elliptical and hiking workouts
+////////////////////////////////////////////////////////////////////////////////
+export const defaultWorkoutTypes: WorkoutTypeRule[] = [
+    // For legacy data collected from earlier version of Auto Export or iOS
+    { name: "Walking", isIndoor: true, title: "Cardio - treadmill" },
+    { name: "Walking", title: "Cardio - walk" },
+    { name: "Running", isIndoor: true, title: "Cardio - treadmill" },
+    { name: "Running", title: "Cardio - run" },
+
+    { name: "Outdoor Walk", title: "Cardio - walk" },
+    { name: "Indoor Walk", title: "Cardio - treadmill" },
+    { name: "Outdoor Run", title: "Cardio - run" },
+    { name: "Indoor Run", title: "Cardio - treadmill" },
+    { name: "Elliptical", title: "Cardio - elliptical", bodyTemplate: cadenceBodyTemplate },
+    { name: "Hiking", title: "Hiking", bodyTemplate: elevationBodyTemplate }
+];
+
+////////////////////////////////////////////////////////////////////////////////
+// Find the first rule in aRules that matches aWorkout, returns null if no 
+// rule matches
+////////////////////////////////////////////////////////////////////////////////
+export function findWorkoutTypeRule( aRules: WorkoutTypeRule[], aWorkout: WorkoutData ): WorkoutTypeRule | null {
+    let isIndoor = aWorkout.isIndoor === true;
+
+    for( let rule of aRules ) {
+        if( rule.name !== "*" && rule.name !== aWorkout.name ) {
+            continue;
+        }
+
+        if( rule.isIndoor !== undefined && rule.isIndoor !== isIndoor ) {
+            continue;
+        }
+
+        return rule;
+    }
+
+    return null;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the calendar event title for aWorkout using the given matching aRule
+////////////////////////////////////////////////////////////////////////////////
+export function getWorkoutTypeTitle( aRule: WorkoutTypeRule, aWorkout: WorkoutData ): string {
+    return aRule.title.split( "{name}" ).join( aWorkout.name );
+}
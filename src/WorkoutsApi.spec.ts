@@ -0,0 +1,127 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutsApi.spec.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+
+import test from "node:test";
+import assert from "node:assert";
+
+import { calcWorkoutStats, defaultApiPageLimit, getWorkoutListItem, parseApiPage } from './WorkoutsApi';
+import { getWorkoutUid } from './WorkoutData';
+
+////////////////////////////////////////////////////////////////////////////////
+// Tests for WorkoutsApi
+////////////////////////////////////////////////////////////////////////////////
+test( "WorkoutsApi tests", async ( t ) => {
+    let createWorkout = ( aName: string, aStart: string, aEnd: string ): any => {
+        return {
+            name: aName,
+            start: aStart,
+            end: aEnd,
+            activeEnergy: { qty: 200, units: "kcal" },
+            stepCadence: { qty: 150 },
+            distance: { qty: 2, units: "mi" },
+            speed: { qty: 5 },
+            avgHeartRate: { qty: 140 },
+            maxHeartRate: { qty: 160 },
+            heartRateData: [ { date: aStart, qty: 120 } ]
+        };
+    };
+
+    let workouts = [
+        createWorkout( "Running", "2024-03-01 07:00:00 -0500", "2024-03-01 07:30:00 -0500" ),
+        createWorkout( "Walking", "2024-03-02 19:00:00 -0500", "2024-03-02 20:00:00 -0500" ),
+        createWorkout( "Running", "2024-03-04 07:00:00 -0500", "2024-03-04 07:45:00 -0500" )
+    ];
+
+    ////////////////////////////////////////////////////////////////////////////
+    // parseApiPage() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "parseApiPage() tests", async ( t ) => {
+        ////////////////////////////////////////////////////////////////////////
+        // Rainy day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "invalid limit and offset should be reported", ( t ) => {
+            assert.strictEqual( parseApiPage( { limit: "0", offset: "-1" } ).errors.length, 2 );
+            assert.strictEqual( parseApiPage( { limit: "1000" } ).errors.length, 1 );
+            assert.strictEqual( parseApiPage( { limit: [ "1", "2" ] } ).errors.length, 1 );
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Sunny day
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "missing params should give the first page", ( t ) => {
+            assert.deepStrictEqual( parseApiPage( {} ), { page: { limit: defaultApiPageLimit, offset: 0 }, errors: [] } );
+        });
+
+        await t.test( "limit and offset should be parsed", ( t ) => {
+            assert.deepStrictEqual( parseApiPage( { limit: "10", offset: "20" } ).page, { limit: 10, offset: 20 } );
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // getWorkoutListItem() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "getWorkoutListItem() tests", async ( t ) => {
+        await t.test( "should summarize the workout without its samples", ( t ) => {
+            assert.deepStrictEqual( getWorkoutListItem( workouts[0] ), {
+                id: getWorkoutUid( workouts[0] ),
+                name: "Running",
+                start: "2024-03-01 07:00:00 -0500",
+                end: "2024-03-01 07:30:00 -0500",
+                isIndoor: false,
+                minutes: 30,
+                distance: { qty: 2, units: "mi" },
+                activeEnergy: { qty: 200, units: "kcal" }
+            });
+        });
+    });
+
+    ////////////////////////////////////////////////////////////////////////////
+    // calcWorkoutStats() tests
+    ////////////////////////////////////////////////////////////////////////////
+    await t.test( "calcWorkoutStats() tests", async ( t ) => {
+        await t.test( "no workouts should give empty stats", ( t ) => {
+            let stats = calcWorkoutStats( [], "imperial", null );
+            assert.strictEqual( stats.totals.workouts, 0 );
+            assert.deepStrictEqual( stats.byType, {} );
+            assert.strictEqual( stats.first, null );
+            assert.strictEqual( stats.last, null );
+        });
+
+        await t.test( "should total all workouts and each type", ( t ) => {
+            let stats = calcWorkoutStats( workouts, "imperial", null );
+            assert.deepStrictEqual( stats.totals, { workouts: 3, minutes: 135, distance: 6, activeEnergy: 600 } );
+            assert.deepStrictEqual( stats.byType["Running"], { workouts: 2, minutes: 75, distance: 4, activeEnergy: 400 } );
+            assert.strictEqual( stats.byType["Walking"].workouts, 1 );
+            assert.strictEqual( stats.first, "2024-03-01" );
+            assert.strictEqual( stats.last, "2024-03-04" );
+        });
+
+        await t.test( "should give totals in the unit system", ( t ) => {
+            let stats = calcWorkoutStats( workouts, "metric", null );
+            assert.strictEqual( stats.units.distance, "km" );
+            assert.strictEqual( Math.round( stats.totals.distance * 100 ) / 100, 9.66 );
+        });
+    });
+});
@@ -0,0 +1,204 @@
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutsApi.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+
+import WorkoutData, { getWorkoutDay, getWorkoutMinutes, getWorkoutUid } from './WorkoutData';
+import { MergeCounts, MergeReport } from './DataFile';
+import { SummaryTotals, calcTotals } from './Summaries';
+import { UnitSystem, getUnitLabel } from './Units';
+
+////////////////////////////////////////////////////////////////////////////////
+// ApiPage - which page of a list the JSON API responds with
+////////////////////////////////////////////////////////////////////////////////
+export interface ApiPage {
+    limit: number,
+    offset: number
+}
+
+export const defaultApiPageLimit = 50;
+export const maxApiPageLimit = 500;
+
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutListItem - a workout in the list of /api/workouts, the full stored 
+// workout is at /api/workouts/:id
+////////////////////////////////////////////////////////////////////////////////
+export interface WorkoutListItem {
+    id: string,
+    name: string,
+    start: string,
+    end: string,
+    isIndoor: boolean,
+    minutes: number,
+
+    // Quantities as stored, distance is null for workouts without one (e.g.
+    // strength training)
+    distance: { qty: number, units?: string } | null,
+    activeEnergy: { qty: number, units?: string }
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// MergeResponse - response to a POST to /workoutData, which of the posted 
+// workouts were new, updated, unchanged, invalid (stored but not shown on 
+// calendars) or could not be stored
+////////////////////////////////////////////////////////////////////////////////
+export interface MergeResponse {
+    new: WorkoutRef[],
+    updated: WorkoutRef[],
+    unchanged: WorkoutRef[],
+    invalid: ( WorkoutRef & { errors: string[] } )[],
+    failed: ( WorkoutRef & { error: string } )[],
+    metrics: MergeCounts,
+    symptoms: MergeCounts
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutRef - a posted workout in a MergeResponse
+////////////////////////////////////////////////////////////////////////////////
+export interface WorkoutRef {
+    id: string,
+    name: string,
+    start: string
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// WorkoutStats - aggregates of a set of workouts for /api/stats
+////////////////////////////////////////////////////////////////////////////////
+export interface WorkoutStats {
+    // Units that distance and activeEnergy of the totals are in
+    units: { distance: string, activeEnergy: string },
+
+    // Totals of all workouts, and by workout name
+    totals: SummaryTotals,
+    byType: { [name: string]: SummaryTotals },
+
+    // Days (YYYY-MM-DD) of the first and last workout, null if there are none
+    first: string | null,
+    last: string | null
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Parse an ApiPage from aQuery: limit (1 to maxApiPageLimit, default 
+// defaultApiPageLimit) and offset (default 0). Returns the page and a list of
+// problems (empty if aQuery is valid).
+////////////////////////////////////////////////////////////////////////////////
+export function parseApiPage( aQuery: { [param: string]: any } ): { page: ApiPage, errors: string[] } {
+    let page: ApiPage = { limit: defaultApiPageLimit, offset: 0 };
+    let errors: string[] = [];
+
+    if( aQuery.limit !== undefined ) {
+        let limit = parseCount( aQuery.limit );
+        if( limit === null || limit < 1 || limit > maxApiPageLimit ) {
+            errors.push( "limit: must be a number from 1 to " + maxApiPageLimit );
+        } else {
+            page.limit = limit;
+        }
+    }
+
+    if( aQuery.offset !== undefined ) {
+        let offset = parseCount( aQuery.offset );
+        if( offset === null ) {
+            errors.push( "offset: must be a number of workouts to skip" );
+        } else {
+            page.offset = offset;
+        }
+    }
+
+    return { page, errors };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the list item for aWorkout
+////////////////////////////////////////////////////////////////////////////////
+export function getWorkoutListItem( aWorkout: WorkoutData ): WorkoutListItem {
+    return {
+        id: getWorkoutUid( aWorkout ),
+        name: aWorkout.name,
+        start: aWorkout.start,
+        end: aWorkout.end,
+        isIndoor: aWorkout.isIndoor === true,
+        minutes: getWorkoutMinutes( aWorkout ),
+        distance: aWorkout.distance ?? null,
+        activeEnergy: aWorkout.activeEnergy
+    };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the MergeResponse for aReport
+////////////////////////////////////////////////////////////////////////////////
+export function getMergeResponse( aReport: MergeReport ): MergeResponse {
+    return {
+        new: aReport.new.map( getWorkoutRef ),
+        updated: aReport.updated.map( getWorkoutRef ),
+        unchanged: aReport.unchanged.map( getWorkoutRef ),
+        invalid: aReport.invalid.map( aInvalid => ({ ...getWorkoutRef( aInvalid.workout ), errors: aInvalid.errors }) ),
+        failed: aReport.failed.map( aFailed => ({ ...getWorkoutRef( aFailed.workout ), error: aFailed.error }) ),
+        metrics: aReport.metrics,
+        symptoms: aReport.symptoms
+    };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the WorkoutRef for posted aWorkout
+////////////////////////////////////////////////////////////////////////////////
+function getWorkoutRef( aWorkout: any ): WorkoutRef {
+    return { id: getWorkoutUid( aWorkout ), name: aWorkout?.name, start: aWorkout?.start };
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Calculate the stats of aWorkouts (oldest first) in aUnitSystem, with days in
+// aTimezone
+////////////////////////////////////////////////////////////////////////////////
+export function calcWorkoutStats( aWorkouts: WorkoutData[], aUnitSystem: UnitSystem, aTimezone: string | null ): WorkoutStats {
+    let byType: { [name: string]: WorkoutData[] } = {};
+    aWorkouts.forEach( aWorkout => {
+        byType[aWorkout.name] = byType[aWorkout.name] ?? [];
+        byType[aWorkout.name].push( aWorkout );
+    });
+
+    let ret: WorkoutStats = {
+        units: { distance: getUnitLabel( "distance", aUnitSystem ), activeEnergy: getUnitLabel( "activeEnergy", aUnitSystem ) },
+        totals: calcTotals( aWorkouts, aUnitSystem ),
+        byType: {},
+        first: aWorkouts.length > 0 ? getWorkoutDay( aWorkouts[0].start, aTimezone ) : null,
+        last: aWorkouts.length > 0 ? getWorkoutDay( aWorkouts[aWorkouts.length - 1].start, aTimezone ) : null
+    };
+
+    Object.keys( byType ).forEach( aName => {
+        ret.byType[aName] = calcTotals( byType[aName], aUnitSystem );
+    });
+
+    return ret;
+}
+
+////////////////////////////////////////////////////////////////////////////////
+// Parse a whole number of at least 0 from querystring aValue, or null if it 
+// is not one
+////////////////////////////////////////////////////////////////////////////////
+function parseCount( aValue: any ): number | null {
+    if( typeof aValue !== "string" || !/^\d+$/.test( aValue ) ) {
+        return null;
+    }
+
+    return parseInt( aValue, 10 );
+}
@@ -30,8 +30,11 @@ import express from "express";
 import ical, { ICalCalendar } from 'ical-generator';
 
 import Config from "../Config";
-import DataFile from "./DataFile";
+import DataFile, { defaultUser } from "./DataFile";
 import WorkoutsToIcalApp from "./WorkoutsToIcalApp";
+import { defaultStreakGoal } from "./Streaks";
+import { getWorkoutUid } from "./WorkoutData";
+import { getWorkoutPageToken } from "./WorkoutPage";
 
 ////////////////////////////////////////////////////////////////////////////////
 // Tests for WorkoutsToIcalApp
@@ -76,6 +79,13 @@ test( "WorkoutsToIcalApp tests", async ( t ) => {
     });
 
     let config = new Config();
+    let secondUser = {
+        name: "second",
+        headerSecretVal: "second-header-secret",
+        querystringSecretVal: "second-querystring-secret",
+        calendarName: "second ical"
+    };
+    config.users = [ secondUser ];
     let app = new WorkoutsToIcalApp( dataFile, calendar, config );
 
     ////////////////////////////////////////////////////////////////////////////
@@ -154,6 +164,624 @@ test( "WorkoutsToIcalApp tests", async ( t ) => {
             });
         });
 
+        ////////////////////////////////////////////////////////////////////////
+        // onGetWorkoutCalendar() filter tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "onGetWorkoutCalendar() filter tests", async ( t ) => {
+            await dataFile.mergeData( { workouts: [
+                { ...JSON.parse( sampleData ), start: "2019-05-01 07:00:00 -0500", end: "2019-05-01 07:15:00 -0500" },
+                { ...JSON.parse( sampleData ), name: "Running", start: "2019-05-02 07:00:00 -0500", end: "2019-05-02 07:45:00 -0500" }
+            ]});
+
+            ////////////////////////////////////////////////////////////////////
+            // Rainy day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should set response status to 400 if a filter is not valid", async ( t ) => {
+                const mockRequest = {
+                    query: { minDuration: "long" }
+                } as any as express.Request;
+                mockRequest.query[config.querystringSecretKey] = config.querystringSecretVal;
+
+                const statusMock = mock.fn( () => { return { send: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await app.onGetWorkoutCalendar( mockRequest, mockResponse );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [400] );
+            });
+
+            ////////////////////////////////////////////////////////////////////
+            // Sunny day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should serve only the matching workouts from the DataFile", async ( t ) => {
+                const mockRequest = {
+                    query: { types: "run", since: "2019-01-01" }
+                } as any as express.Request;
+                mockRequest.query[config.querystringSecretKey] = config.querystringSecretVal;
+
+                const endMock = mock.fn( ( aBody: string ) => {} );
+                const mockResponse = {
+                    writeHead: mock.fn( () => {} ),
+                    end: endMock
+                } as any as express.Response;
+
+                await app.onGetWorkoutCalendar( mockRequest, mockResponse, calendar, dataFile );
+                let served = endMock.mock.calls[0].arguments[0];
+                assert.strictEqual( served.split( "BEGIN:VEVENT" ).length - 1, 1 );
+                assert.match( served, /SUMMARY:Cardio - run/ );
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // onGetCalendarProfile() tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "onGetCalendarProfile() tests", async ( t ) => {
+            let profileApp = new WorkoutsToIcalApp( dataFile, calendar, { ...config, calendars: [
+                { name: "Running", querystringSecretVal: "running-secret", color: "#ff2d55", filter: { types: [ "Running" ] }, workoutTypes: [ { name: "*", title: "Run - {name}" } ] }
+            ]});
+
+            ////////////////////////////////////////////////////////////////////
+            // Rainy day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should set response status to 404 for an unknown calendar", async ( t ) => {
+                const mockRequest = {
+                    params: { name: "Cycling" },
+                    query: {}
+                } as any as express.Request;
+                mockRequest.query[config.querystringSecretKey] = "running-secret";
+
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await profileApp.onGetCalendarProfile( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [404] );
+            });
+
+            await t.test( "should set response status to 403 for another calendar's secret", async ( t ) => {
+                const mockRequest = {
+                    params: { name: "Running" },
+                    query: {}
+                } as any as express.Request;
+                mockRequest.query[config.querystringSecretKey] = config.querystringSecretVal;
+
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await profileApp.onGetCalendarProfile( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [403] );
+            });
+
+            ////////////////////////////////////////////////////////////////////
+            // Sunny day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should serve the calendar's workouts with its naming and color", async ( t ) => {
+                const mockRequest = {
+                    params: { name: "Running" },
+                    query: {}
+                } as any as express.Request;
+                mockRequest.query[config.querystringSecretKey] = "running-secret";
+
+                const endMock = mock.fn( ( aBody: string ) => {} );
+                const mockResponse = {
+                    writeHead: mock.fn( () => {} ),
+                    end: endMock
+                } as any as express.Response;
+
+                await profileApp.onGetCalendarProfile( mockRequest, mockResponse, dataFile );
+                let served = endMock.mock.calls[0].arguments[0];
+                assert.match( served, /X-WR-CALNAME:Running/ );
+                assert.match( served, /X-APPLE-CALENDAR-COLOR:#ff2d55/ );
+                assert.match( served, /SUMMARY:Run - Running/ );
+                assert.doesNotMatch( served, /SUMMARY:Run - Walking/ );
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // onGetHealthCalendar() tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "onGetHealthCalendar() tests", async ( t ) => {
+            ////////////////////////////////////////////////////////////////////
+            // Rainy day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should set response status to 403 if querystring secret value is incorrect", async ( t ) => {
+                const mockRequest = {
+                    query: {}
+                } as express.Request;
+                mockRequest.query[config.querystringSecretKey] = "not the correct value";
+    
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await app.onGetHealthCalendar( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [403] );
+            });
+
+            ////////////////////////////////////////////////////////////////////
+            // Sunny day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should serve the user's daily metrics if querystring secret value is correct", async ( t ) => {
+                await dataFile.mergeData( { workouts: [], metrics: [
+                    { name: "step_count", units: "count", data: [ { date: "2024-03-02 00:00:00 -0500", qty: 10432 } ] }
+                ]});
+
+                const mockRequest = {
+                    query: {}
+                } as express.Request;
+                mockRequest.query[config.querystringSecretKey] = config.querystringSecretVal;
+
+                const endMock = mock.fn( ( aBody: string ) => {} );
+                const mockResponse = {
+                    writeHead: mock.fn( () => {} ),
+                    end: endMock
+                } as any as express.Response;
+
+                await app.onGetHealthCalendar( mockRequest, mockResponse, dataFile );
+                assert.strictEqual( endMock.mock.calls.length, 1 );
+                assert.match( endMock.mock.calls[0].arguments[0], /SUMMARY:10\\,432 steps/ );
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // onGetStreak() tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "onGetStreak() tests", async ( t ) => {
+            const mockRequest = {
+                query: {}
+            } as express.Request;
+            mockRequest.query[config.querystringSecretKey] = config.querystringSecretVal;
+
+            ////////////////////////////////////////////////////////////////////
+            // Rainy day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should set response status to 404 if streaks are not configured", async ( t ) => {
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await app.onGetStreak( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [404] );
+            });
+
+            ////////////////////////////////////////////////////////////////////
+            // Sunny day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should respond with the current and record streaks", async ( t ) => {
+                let streakApp = new WorkoutsToIcalApp( dataFile, calendar, { ...config, streakGoal: defaultStreakGoal } );
+                let streakWorkouts = [ "2020-01-01", "2020-01-02" ].map( aDay => {
+                    return { ...JSON.parse( sampleData ), start: aDay + " 07:00:00 -0500", end: aDay + " 07:45:00 -0500" };
+                });
+                await dataFile.mergeData( { workouts: streakWorkouts } );
+
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const mockResponse = {
+                    json: jsonMock
+                } as any as express.Response;
+
+                await streakApp.onGetStreak( mockRequest, mockResponse, dataFile );
+                assert.strictEqual( jsonMock.mock.calls.length, 1 );
+                assert.deepStrictEqual( jsonMock.mock.calls[0].arguments[0].goal, defaultStreakGoal );
+                assert.strictEqual( jsonMock.mock.calls[0].arguments[0].current, null );
+                assert.deepStrictEqual( jsonMock.mock.calls[0].arguments[0].record, { start: "2020-01-01", end: "2020-01-02", length: 2 } );
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // onGetWorkoutPage() tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "onGetWorkoutPage() tests", async ( t ) => {
+            let pageWorkout = { ...JSON.parse( sampleData ), start: "2022-02-01 07:00:00 -0500", end: "2022-02-01 07:30:00 -0500" };
+            await dataFile.mergeData( { workouts: [ pageWorkout ] } );
+            let id = getWorkoutUid( pageWorkout );
+
+            ////////////////////////////////////////////////////////////////////
+            // Rainy day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should set response status to 403 for a token not made with a user's secret", async ( t ) => {
+                const mockRequest = {
+                    query: { token: getWorkoutPageToken( id, "not-a-secret" ) },
+                    params: { id }
+                } as any as express.Request;
+
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await app.onGetWorkoutPage( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [403] );
+            });
+
+            await t.test( "should set response status to 404 if the workout is not stored for the user", async ( t ) => {
+                const mockRequest = {
+                    query: { token: getWorkoutPageToken( id, secondUser.querystringSecretVal ) },
+                    params: { id }
+                } as any as express.Request;
+
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await app.onGetWorkoutPage( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [404] );
+            });
+
+            ////////////////////////////////////////////////////////////////////
+            // Sunny day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should send the page of the workout", async ( t ) => {
+                const mockRequest = {
+                    query: { token: getWorkoutPageToken( id, config.querystringSecretVal ) },
+                    params: { id }
+                } as any as express.Request;
+
+                const sendMock = mock.fn( ( aBody: string ) => {} );
+                const mockResponse = {
+                    send: sendMock
+                } as any as express.Response;
+
+                await app.onGetWorkoutPage( mockRequest, mockResponse, dataFile );
+                assert.match( sendMock.mock.calls[0].arguments[0], /<h1>Walking<\/h1>/ );
+            });
+
+            await t.test( "events should link to the page of their workout", async ( t ) => {
+                let events = await dataFile.getCalendarWorkoutEvents( app.getEventConfig( defaultUser ) );
+                let event = events.find( aEvent => aEvent.getId() === id );
+                assert.ok( event );
+                assert.ok( event.getBody().indexOf( "https://example.com/workouts-to-ical/workouts/" + id + "?token=" + getWorkoutPageToken( id, config.querystringSecretVal ) ) !== -1 );
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // onGetWorkoutRoute() tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "onGetWorkoutRoute() tests", async ( t ) => {
+            let route = [ { lat: 41.87, lon: -87.62, altitude: 180 }, { lat: 41.88, lon: -87.63, altitude: 181 } ];
+            let routeWorkout = { ...JSON.parse( sampleData ), start: "2022-02-02 07:00:00 -0500", end: "2022-02-02 07:30:00 -0500", route };
+            let noRouteWorkout = { ...JSON.parse( sampleData ), start: "2022-02-03 07:00:00 -0500", end: "2022-02-03 07:30:00 -0500" };
+            await dataFile.mergeData( { workouts: [ routeWorkout, noRouteWorkout ] } );
+            let id = getWorkoutUid( routeWorkout );
+
+            ////////////////////////////////////////////////////////////////////
+            // Rainy day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should set response status to 403 for a token not made with a user's secret", async ( t ) => {
+                const mockRequest = {
+                    query: { token: getWorkoutPageToken( id, "not-a-secret" ) },
+                    params: { id }
+                } as any as express.Request;
+
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await app.onGetWorkoutRoute( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [403] );
+            });
+
+            await t.test( "should set response status to 404 if the workout has no route", async ( t ) => {
+                let noRouteId = getWorkoutUid( noRouteWorkout );
+                const mockRequest = {
+                    query: { token: getWorkoutPageToken( noRouteId, config.querystringSecretVal ) },
+                    params: { id: noRouteId }
+                } as any as express.Request;
+
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await app.onGetWorkoutRoute( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [404] );
+            });
+
+            ////////////////////////////////////////////////////////////////////
+            // Sunny day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should send the route of the workout as GPX", async ( t ) => {
+                const mockRequest = {
+                    query: { token: getWorkoutPageToken( id, config.querystringSecretVal ) },
+                    params: { id }
+                } as any as express.Request;
+
+                const typeMock = mock.fn( ( aType: string ) => {} );
+                const attachmentMock = mock.fn( ( aFilename: string ) => {} );
+                const sendMock = mock.fn( ( aBody: string ) => {} );
+                const mockResponse = {
+                    type: typeMock,
+                    attachment: attachmentMock,
+                    send: sendMock
+                } as any as express.Response;
+
+                await app.onGetWorkoutRoute( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( typeMock.mock.calls[0].arguments, [ "application/gpx+xml" ] );
+                assert.deepStrictEqual( attachmentMock.mock.calls[0].arguments, [ "workout-" + id + ".gpx" ] );
+                assert.match( sendMock.mock.calls[0].arguments[0], /<trkpt lat="41.87" lon="-87.62"><ele>180<\/ele><\/trkpt>\n<trkpt lat="41.88" lon="-87.63"><ele>181<\/ele><\/trkpt>/ );
+            });
+
+            await t.test( "workout page should link to the GPX", async ( t ) => {
+                let token = getWorkoutPageToken( id, config.querystringSecretVal );
+                const mockRequest = {
+                    query: { token },
+                    params: { id }
+                } as any as express.Request;
+
+                const sendMock = mock.fn( ( aBody: string ) => {} );
+                const mockResponse = {
+                    send: sendMock
+                } as any as express.Response;
+
+                await app.onGetWorkoutPage( mockRequest, mockResponse, dataFile );
+                assert.ok( sendMock.mock.calls[0].arguments[0].indexOf( "<a href=\"" + id + "/route.gpx?token=" + token + "\">" ) !== -1 );
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // JSON API tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "JSON API tests", async ( t ) => {
+            let apiUser = { ...secondUser, name: "api", headerSecretVal: "api-header-secret", querystringSecretVal: "api-querystring-secret" };
+            let apiApp = new WorkoutsToIcalApp( dataFile, calendar, { ...config, users: [ apiUser ] } );
+            let apiWorkouts = [ "2022-03-01", "2022-03-02", "2022-03-03" ].map( aDay => {
+                return { ...JSON.parse( sampleData ), start: aDay + " 07:00:00 -0500", end: aDay + " 07:30:00 -0500" };
+            });
+            apiWorkouts[2].name = "Running";
+            await dataFile.mergeData( { workouts: apiWorkouts }, undefined, undefined, apiUser.name );
+            await apiApp.updateHeartRates( apiUser, dataFile, apiWorkouts.slice( 0, 2 ) );
+
+            let createRequest = ( aQuery: any, aParams: any = {} ) => {
+                let ret = { headers: {}, query: aQuery, params: aParams } as any as express.Request;
+                ret.headers[config.headerSecretKey] = apiUser.headerSecretVal;
+                return ret;
+            };
+
+            ////////////////////////////////////////////////////////////////////
+            // Rainy day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should set response status to 403 without a secret", async ( t ) => {
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+                const mockRequest = { headers: {}, query: {}, params: {} } as express.Request;
+
+                await apiApp.onGetApiWorkouts( mockRequest, mockResponse, dataFile );
+                await apiApp.onGetApiWorkout( mockRequest, mockResponse, dataFile );
+                await apiApp.onGetApiStats( mockRequest, mockResponse, dataFile );
+                await apiApp.onGetApiExport( { ...mockRequest, params: { format: "csv" } } as any as express.Request, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls.map( aCall => aCall.arguments ), [ [403], [403], [403], [403] ] );
+            });
+
+            await t.test( "should set response status to 400 with errors for an invalid querystring", async ( t ) => {
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const statusMock = mock.fn( ( aStatus: number ) => { return { json: jsonMock }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await apiApp.onGetApiWorkouts( createRequest( { since: "yesterday", limit: "0" } ), mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [400] );
+                assert.strictEqual( jsonMock.mock.calls[0].arguments[0].errors.length, 2 );
+            });
+
+            await t.test( "should set response status to 400 with errors for an unknown export format", async ( t ) => {
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const statusMock = mock.fn( ( aStatus: number ) => { return { json: jsonMock }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await apiApp.onGetApiExport( createRequest( {}, { format: "gpx" } ), mockResponse, dataFile );
+                await apiApp.onGetApiExport( createRequest( { since: "yesterday" }, { format: "csv" } ), mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls.map( aCall => aCall.arguments ), [ [400], [400] ] );
+                assert.deepStrictEqual( jsonMock.mock.calls[0].arguments[0], { errors: [ "format: must be one of csv, json, tcx" ] } );
+                assert.strictEqual( jsonMock.mock.calls[1].arguments[0].errors.length, 1 );
+            });
+
+            await t.test( "should set response status to 404 for an unknown workout id", async ( t ) => {
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await apiApp.onGetApiWorkout( createRequest( {}, { id: "missing" } ), mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [404] );
+            });
+
+            ////////////////////////////////////////////////////////////////////
+            // Sunny day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "/api/workouts should respond with a page of workouts, newest first", async ( t ) => {
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const mockResponse = {
+                    json: jsonMock
+                } as any as express.Response;
+
+                await apiApp.onGetApiWorkouts( createRequest( { limit: "1", offset: "1" } ), mockResponse, dataFile );
+                let body = jsonMock.mock.calls[0].arguments[0];
+                assert.strictEqual( body.total, 3 );
+                assert.strictEqual( body.workouts.length, 1 );
+                assert.strictEqual( body.workouts[0].start, "2022-03-02 07:00:00 -0500" );
+                assert.strictEqual( body.workouts[0].minutes, 30 );
+                assert.strictEqual( body.workouts[0].id, getWorkoutUid( apiWorkouts[1] ) );
+            });
+
+            await t.test( "/api/workouts should filter by date range and type", async ( t ) => {
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const mockResponse = {
+                    json: jsonMock
+                } as any as express.Response;
+
+                await apiApp.onGetApiWorkouts( createRequest( { since: "2022-03-02", until: "2022-03-03", types: "walking" } ), mockResponse, dataFile );
+                let body = jsonMock.mock.calls[0].arguments[0];
+                assert.strictEqual( body.total, 1 );
+                assert.strictEqual( body.workouts[0].start, "2022-03-02 07:00:00 -0500" );
+            });
+
+            await t.test( "/api/workouts/:id should respond with the stored workout and its heart rate analysis", async ( t ) => {
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const mockResponse = {
+                    json: jsonMock
+                } as any as express.Response;
+
+                let id = getWorkoutUid( apiWorkouts[2] );
+                await apiApp.onGetApiWorkout( createRequest( {}, { id } ), mockResponse, dataFile );
+                assert.deepStrictEqual( jsonMock.mock.calls[0].arguments[0], { id, workout: apiWorkouts[2], heartRate: null } );
+
+                id = getWorkoutUid( apiWorkouts[1] );
+                await apiApp.onGetApiWorkout( createRequest( {}, { id } ), mockResponse, dataFile );
+                assert.deepStrictEqual( jsonMock.mock.calls[1].arguments[0].heartRate, { zoneSeconds: [], recovery: null } );
+            });
+
+            await t.test( "/api/export/:format should respond with a file of workouts in the date range", async ( t ) => {
+                const typeMock = mock.fn( ( aType: string ) => {} );
+                const attachmentMock = mock.fn( ( aFilename: string ) => {} );
+                const sendMock = mock.fn( ( aBody: string ) => {} );
+                const mockResponse = {
+                    type: typeMock,
+                    attachment: attachmentMock,
+                    send: sendMock
+                } as any as express.Response;
+
+                await apiApp.onGetApiExport( createRequest( { since: "2022-03-02", until: "2022-03-03" }, { format: "csv" } ), mockResponse, dataFile );
+                await apiApp.onGetApiExport( createRequest( {}, { format: "json" } ), mockResponse, dataFile );
+                await apiApp.onGetApiExport( createRequest( { types: "running" }, { format: "tcx" } ), mockResponse, dataFile );
+                assert.deepStrictEqual( typeMock.mock.calls.map( aCall => aCall.arguments[0] ), [ "text/csv", "application/json", "application/vnd.garmin.tcx+xml" ] );
+                assert.deepStrictEqual( attachmentMock.mock.calls.map( aCall => aCall.arguments[0] ), [ "workouts.csv", "workouts.json", "workouts.tcx" ] );
+
+                let csvLines = sendMock.mock.calls[0].arguments[0].split( "\r\n" );
+                assert.strictEqual( csvLines.length, 4 );
+                assert.ok( csvLines[1].indexOf( "2022-03-02 07:00:00 -0500" ) !== -1 );
+                assert.ok( csvLines[2].indexOf( "2022-03-03 07:00:00 -0500" ) !== -1 );
+
+                let json = JSON.parse( sendMock.mock.calls[1].arguments[0] );
+                assert.deepStrictEqual( json.data.workouts.map( aWorkout => aWorkout.start ), apiWorkouts.map( aWorkout => aWorkout.start ) );
+
+                let tcx = sendMock.mock.calls[2].arguments[0];
+                assert.strictEqual( tcx.split( "<Activity " ).length - 1, 1 );
+                assert.ok( tcx.indexOf( "<Notes>Running</Notes>" ) !== -1 );
+            });
+
+            await t.test( "/api/stats should respond with totals by type", async ( t ) => {
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const mockResponse = {
+                    json: jsonMock
+                } as any as express.Response;
+
+                let mockRequest = { headers: {}, query: {} } as express.Request;
+                mockRequest.query[config.querystringSecretKey] = apiUser.querystringSecretVal;
+                await apiApp.onGetApiStats( mockRequest, mockResponse, dataFile );
+                let stats = jsonMock.mock.calls[0].arguments[0];
+                assert.strictEqual( stats.totals.workouts, 3 );
+                assert.strictEqual( stats.totals.minutes, 90 );
+                assert.strictEqual( stats.byType["Walking"].workouts, 2 );
+                assert.strictEqual( stats.byType["Running"].workouts, 1 );
+                assert.strictEqual( stats.first, "2022-03-01" );
+                assert.strictEqual( stats.last, "2022-03-03" );
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Personal record tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "personal record tests", async ( t ) => {
+            let recordsUser = { ...secondUser, name: "records", headerSecretVal: "records-header-secret", querystringSecretVal: "records-querystring-secret" };
+            let recordsCalendar = ical({ name: "records ical" });
+            let recordsApp = new WorkoutsToIcalApp( dataFile, calendar, { ...config, users: [ recordsUser ], personalRecords: { paceDistances: [ 1 ] } } );
+            let recordsWorkouts = [ "2022-04-01", "2022-04-02" ].map( ( aDay, aIndex ) => {
+                return { ...JSON.parse( sampleData ), start: aDay + " 07:00:00 -0500", end: aDay + " 07:30:00 -0500", distance: { qty: 2 + aIndex } };
+            });
+
+            let createRequest = () => {
+                let ret = { headers: {}, query: {} } as express.Request;
+                ret.query[config.querystringSecretKey] = recordsUser.querystringSecretVal;
+                return ret;
+            };
+
+            let post = async ( aWorkouts: any[] ) => {
+                const mockRequest = {
+                    headers: {},
+                    body: { data: { workouts: aWorkouts } }
+                } as express.Request;
+                mockRequest.headers[config.headerSecretKey] = recordsUser.headerSecretVal;
+                const mockResponse = {
+                    status: mock.fn( () => { return { end: function() {}, json: function() {} }})
+                } as any as express.Response;
+
+                await recordsApp.onPostWorkoutData( mockRequest, mockResponse, dataFile, recordsCalendar );
+            };
+
+            ////////////////////////////////////////////////////////////////////
+            // Rainy day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "/api/records should set response status to 404 if records are not configured", async ( t ) => {
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+                let otherApp = new WorkoutsToIcalApp( dataFile, calendar, { ...config, users: [ recordsUser ] } );
+
+                await otherApp.onGetApiRecords( createRequest(), mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [404] );
+            });
+
+            ////////////////////////////////////////////////////////////////////
+            // Sunny day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "posted workout that beats a record should be marked on the calendar", async ( t ) => {
+                await post( [ recordsWorkouts[0] ] );
+                await post( [ recordsWorkouts[1] ] );
+                let names = recordsCalendar.events().map( aEvent => aEvent.summary() ).sort();
+                assert.deepStrictEqual( names, [ "Cardio - walk", "🏆 Cardio - walk" ] );
+            });
+
+            await t.test( "record beaten by an older workout posted late should move to it", async ( t ) => {
+                let olderWorkout = { ...recordsWorkouts[0], start: "2022-03-31 07:00:00 -0500", end: "2022-03-31 07:30:00 -0500", distance: { qty: 10 } };
+                await post( [ olderWorkout ] );
+                let countsBySummary = {};
+                recordsCalendar.events().forEach( aEvent => countsBySummary[aEvent.summary()] = ( countsBySummary[aEvent.summary()] ?? 0 ) + 1 );
+                assert.deepStrictEqual( countsBySummary, { "Cardio - walk": 3 } );
+            });
+
+            await t.test( "/api/records should respond with the records of each type", async ( t ) => {
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const mockResponse = {
+                    json: jsonMock
+                } as any as express.Response;
+
+                await recordsApp.onGetApiRecords( createRequest(), mockResponse, dataFile );
+                let records = jsonMock.mock.calls[0].arguments[0].records;
+                let distance = records.find( aRecord => aRecord.record === "distance" );
+                assert.strictEqual( distance.type, "Cardio - walk" );
+                assert.strictEqual( distance.value, 10 );
+                assert.strictEqual( distance.workoutId, getWorkoutUid( { ...recordsWorkouts[0], start: "2022-03-31 07:00:00 -0500", end: "2022-03-31 07:30:00 -0500" } ) );
+            });
+
+            await t.test( "record lost by an updated workout should move back to the workouts it no longer beats", async ( t ) => {
+                let olderWorkout = { ...recordsWorkouts[0], start: "2022-03-31 07:00:00 -0500", end: "2022-03-31 07:30:00 -0500", distance: { qty: 1 } };
+                await post( [ olderWorkout ] );
+                let countsBySummary = {};
+                recordsCalendar.events().forEach( aEvent => countsBySummary[aEvent.summary()] = ( countsBySummary[aEvent.summary()] ?? 0 ) + 1 );
+                assert.deepStrictEqual( countsBySummary, { "Cardio - walk": 1, "🏆 Cardio - walk": 2 } );
+            });
+
+            await t.test( "posted workout should read the stored workouts once", async ( t ) => {
+                let getWorkoutsMock = mock.method( dataFile, "getWorkouts" );
+                await post( [ { ...recordsWorkouts[0], start: "2022-04-03 07:00:00 -0500", end: "2022-04-03 07:30:00 -0500" } ] );
+                getWorkoutsMock.mock.restore();
+                assert.strictEqual( getWorkoutsMock.mock.calls.length, 1 );
+            });
+        });
+
         ////////////////////////////////////////////////////////////////////////
         // onPostWorkoutData() tests
         ////////////////////////////////////////////////////////////////////////
@@ -194,6 +822,74 @@ test( "WorkoutsToIcalApp tests", async ( t ) => {
                 assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [400] );
             });
             
+            await t.test( "CSV request without the columns identifying workouts should set response status to 400", async ( t ) => {
+                const mockRequest = {
+                    headers: { "content-type": "text/csv" },
+                    body: "Distance (mi)\n1"
+                } as any as express.Request;
+                mockRequest.headers[config.headerSecretKey] = config.headerSecretVal;
+    
+                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await app.onPostWorkoutData( mockRequest, mockResponse, dataFile, calendar );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [400] );
+            });
+
+            await t.test( "request with a workout that cannot be stored should set response status to 500 and report it", async ( t ) => {
+                let workout = { ...JSON.parse( sampleData ), start: "2022-10-25 20:00:00 -0500", end: "2022-10-25 20:15:00 -0500" };
+                const mockRequest = {
+                    headers: {},
+                    body: { data: { workouts: [ workout ] } }
+                } as express.Request;
+                mockRequest.headers[config.headerSecretKey] = config.headerSecretVal;
+    
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const statusMock = mock.fn( () => { return { json: jsonMock }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                let noCounts = { new: 0, updated: 0, unchanged: 0 };
+                let mergeMock = mock.method( dataFile, "mergeData", async () => {
+                    return { new: [], updated: [], unchanged: [], invalid: [], failed: [ { workout, error: "Error: SQLITE_FULL: database or disk is full" } ], metrics: noCounts, symptoms: noCounts };
+                });
+                try {
+                    await app.onPostWorkoutData( mockRequest, mockResponse, dataFile, calendar );
+                } finally {
+                    mergeMock.mock.restore();
+                }
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [500] );
+                assert.deepStrictEqual( jsonMock.mock.calls[0].arguments[0].failed, [ 
+                    { id: getWorkoutUid( workout ), name: workout.name, start: workout.start, error: "Error: SQLITE_FULL: database or disk is full" } 
+                ]);
+            });
+
+            await t.test( "request with workouts without a valid end should store them and respond with the merge report", async ( t ) => {
+                let workout = { ...JSON.parse( sampleData ), start: "2022-10-24 20:00:00 -0500", end: "2022-10-24 20:15:00 -0500" };
+                let numericEnd = { ...workout, start: "2022-10-24 21:00:00 -0500", end: 5 };
+                let noEnd = { name: "Outdoor Run", start: "2022-10-24 22:00:00 -0500" };
+                const mockRequest = {
+                    headers: {},
+                    body: { data: { workouts: [ workout, numericEnd, noEnd ] } }
+                } as express.Request;
+                mockRequest.headers[config.headerSecretKey] = config.headerSecretVal;
+    
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const statusMock = mock.fn( () => { return { json: jsonMock }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await app.onPostWorkoutData( mockRequest, mockResponse, dataFile, calendar );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [200] );
+                let body = jsonMock.mock.calls[0].arguments[0];
+                assert.strictEqual( body.new.length, 3 );
+                assert.deepStrictEqual( body.invalid.map( aWorkout => aWorkout.start ), [ numericEnd.start, noEnd.start ] );
+            });
+
             ////////////////////////////////////////////////////////////////////
             // Sunny day
             ////////////////////////////////////////////////////////////////////
@@ -205,7 +901,8 @@ test( "WorkoutsToIcalApp tests", async ( t ) => {
                 mockRequest.headers[config.headerSecretKey] = config.headerSecretVal;
                 mockRequest.body.data.workouts[0].start = "2022-10-26 20:00:00 -0500"
     
-                const statusMock = mock.fn( () => { return { end: function() {} }});
+                const jsonMock = mock.fn( ( aBody: any ) => {} );
+                const statusMock = mock.fn( () => { return { json: jsonMock }});
                 const mockResponse = {
                     status: statusMock
                 } as any as express.Response;
@@ -219,10 +916,125 @@ test( "WorkoutsToIcalApp tests", async ( t ) => {
                     assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [200] );
                 });
 
+                await t.test( "should respond with the merge report", ( t ) => { 
+                    let body = jsonMock.mock.calls[0].arguments[0];
+                    let workout = mockRequest.body.data.workouts[0];
+                    assert.deepStrictEqual( body.new, [ { id: getWorkoutUid( workout ), name: workout.name, start: workout.start } ] );
+                    assert.deepStrictEqual( [ body.updated, body.unchanged, body.invalid, body.failed ], [ [], [], [], [] ] );
+                });
+
                 await t.test( "should add new workout to calendar", ( t ) => { 
                     assert.strictEqual( calendarEventsAfter, calendarEventsBefore + 1 );
                 });
             });
+
+            await t.test( "workout posted again with an id should replace the event of the workout stored without one", async ( t ) => {
+                let workout = { ...JSON.parse( sampleData ), start: "2022-10-27 20:00:00 -0500", end: "2022-10-27 20:15:00 -0500" };
+                let withId = { ...workout, id: "2F7C1A" };
+                let createRequest = ( aWorkout: any ) => {
+                    let ret = { headers: {}, body: { data: { workouts: [ aWorkout ] } } } as express.Request;
+                    ret.headers[config.headerSecretKey] = config.headerSecretVal;
+                    return ret;
+                };
+                const statusMock = mock.fn( () => { return { end: function() {}, json: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await app.onPostWorkoutData( createRequest( workout ), mockResponse, dataFile, calendar );
+                let calendarEventsBefore = calendar.length();
+                await app.onPostWorkoutData( createRequest( withId ), mockResponse, dataFile, calendar );
+
+                let ids = calendar.events().map( aEvent => aEvent.id() );
+                assert.strictEqual( ids.indexOf( getWorkoutUid( workout ) ), -1 );
+                assert.notStrictEqual( ids.indexOf( getWorkoutUid( withId ) ), -1 );
+                assert.strictEqual( calendar.length(), calendarEventsBefore );
+            });
+
+            await t.test( "request with workout CSV", async ( t ) => {
+                const mockRequest = {
+                    headers: { "content-type": "text/csv; charset=utf-8" },
+                    body: fs.readFileSync( "test-data/workouts.csv", 'utf8' ).replace( /2023-06-0/g, "2022-11-0" )
+                } as any as express.Request;
+                mockRequest.headers[config.headerSecretKey] = config.headerSecretVal;
+    
+                const statusMock = mock.fn( () => { return { end: function() {}, json: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                let calendarEventsBefore = calendar.length();
+                await app.onPostWorkoutData( mockRequest, mockResponse, dataFile, calendar );
+
+                await t.test( "should set response status to 200", ( t ) => { 
+                    assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [200] );
+                });
+
+                await t.test( "should store the workouts and add the valid one to calendar", async ( t ) => { 
+                    let stored = ( await dataFile.getWorkouts() ).filter( aWorkout => /^2022-11-0/.test( aWorkout.start ) );
+                    assert.deepStrictEqual( stored.map( aWorkout => aWorkout.name ), [ "Outdoor Walk", "Traditional Strength Training, Upper Body" ] );
+                    assert.deepStrictEqual( stored[0].distance, { qty: 0.59, units: "mi" } );
+                    assert.strictEqual( calendar.length(), calendarEventsBefore + 1 );
+                });
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // start() tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "start() tests", async ( t ) => {
+            ////////////////////////////////////////////////////////////////////
+            // Rainy day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should start with a stored workout without an end", async ( t ) => {
+                let startDbName = "workoutstoicalapp-start-test-db.db";
+                if( fs.existsSync( startDbName ) ) {
+                    console.warn( "Removing " + startDbName + " for test, should not be present." );
+                    fs.unlinkSync( startDbName );
+                }
+
+                let startDataFile = await DataFile.open( startDbName );
+                await startDataFile.mergeData( { workouts: [ { name: "Outdoor Run", start: "2024-01-01 10:00:00 -0500" } ] } );
+                let startApp = new WorkoutsToIcalApp( startDataFile, ical({ name: "start ical" }), { ...config, host: "127.0.0.1", port: 0 } );
+
+                try {
+                    await assert.doesNotReject( startApp.start() );
+                } finally {
+                    await startApp.stop();
+                    await startDataFile.close();
+                    fs.unlinkSync( startDbName );
+                }
+            });
+
+            ////////////////////////////////////////////////////////////////////
+            // Sunny day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should keep the SEQUENCE and LAST-MODIFIED of updated workouts", async ( t ) => {
+                let startDbName = "workoutstoicalapp-start-test-db.db";
+                if( fs.existsSync( startDbName ) ) {
+                    console.warn( "Removing " + startDbName + " for test, should not be present." );
+                    fs.unlinkSync( startDbName );
+                }
+
+                let startDataFile = await DataFile.open( startDbName );
+                let workout = JSON.parse( sampleData );
+                await startDataFile.mergeData( { workouts: [ workout ] } );
+                await startDataFile.mergeData( { workouts: [ { ...workout, activeEnergy: { ...workout.activeEnergy, qty: 250 } } ] } );
+                let lastModified = ( await startDataFile.getWorkoutRevisions() )[getWorkoutUid( workout )].lastModified;
+                let startCalendar = ical({ name: "start ical" });
+                let startApp = new WorkoutsToIcalApp( startDataFile, startCalendar, { ...config, host: "127.0.0.1", port: 0 } );
+
+                try {
+                    await startApp.start();
+                    let event = startCalendar.events().find( aEvent => aEvent.id() === getWorkoutUid( workout ) );
+                    assert.strictEqual( event?.sequence(), 1 );
+                    assert.deepStrictEqual( event?.lastModified(), lastModified );
+                } finally {
+                    await startApp.stop();
+                    await startDataFile.close();
+                    fs.unlinkSync( startDbName );
+                }
+            });
         });
 
         ////////////////////////////////////////////////////////////////////////
@@ -312,6 +1124,11 @@ test( "WorkoutsToIcalApp tests", async ( t ) => {
                 assert.strictEqual( false, result );
             });
 
+            await t.test( "should return false when body.data.metrics or body.data.symptoms is not an array", ( t ) => {
+                assert.strictEqual( false, app.validatePostedWorkoutDataBody( { data: { workouts: [], metrics: {} } } ) );
+                assert.strictEqual( false, app.validatePostedWorkoutDataBody( { data: { workouts: [], symptoms: "" } } ) );
+            });
+
             ////////////////////////////////////////////////////////////////////
             // Sunny day
             ////////////////////////////////////////////////////////////////////
@@ -325,6 +1142,11 @@ test( "WorkoutsToIcalApp tests", async ( t ) => {
                 let result = app.validatePostedWorkoutDataBody( body );
                 assert.strictEqual( true, result );
             });
+
+            await t.test( "should return true when body.data.metrics and body.data.symptoms are arrays", ( t ) => {
+                let result = app.validatePostedWorkoutDataBody( { data: { workouts: [], metrics: [], symptoms: [] } } );
+                assert.strictEqual( true, result );
+            });
         });
 
         ////////////////////////////////////////////////////////////////////////
@@ -356,6 +1178,189 @@ test( "WorkoutsToIcalApp tests", async ( t ) => {
                 assert.strictEqual( beforeCount + 1, afterCount );
             });
         });
+
+        ////////////////////////////////////////////////////////////////////////
+        // onUpdatedWorkout() tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "onUpdatedWorkout() tests", async ( t ) => {
+            await t.test( "should replace the existing event for the workout", ( t ) => {
+                let workoutData = JSON.parse( sampleData );
+                workoutData.activeEnergy.qty = 250;
+                
+                let beforeCount = calendar.length();
+                app.onUpdatedWorkout( workoutData, calendar );
+                let afterCount = calendar.length();
+                assert.strictEqual( beforeCount, afterCount );
+                assert.match( calendar.toString(), /250 calories/ );
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // updateSummaryEvents() tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "updateSummaryEvents() tests", async ( t ) => {
+            await t.test( "should add a summary event for the week of posted workouts", async ( t ) => {
+                let summaryCalendar = ical();
+                let summaryApp = new WorkoutsToIcalApp( dataFile, summaryCalendar, { ...config, summaryPeriods: [ "week" ] } );
+
+                const mockRequest = {
+                    headers: {},
+                    body: { data: { workouts: [ { ...JSON.parse( sampleData ), start: "2023-01-04 20:00:00 -0500", end: "2023-01-04 20:15:00 -0500" } ] } }
+                } as express.Request;
+                mockRequest.headers[config.headerSecretKey] = config.headerSecretVal;
+
+                const mockResponse = {
+                    status: mock.fn( () => { return { end: function() {}, json: function() {} }})
+                } as any as express.Response;
+
+                await summaryApp.onPostWorkoutData( mockRequest, mockResponse, dataFile );
+                assert.strictEqual( summaryCalendar.length(), 2 );
+                assert.match( summaryCalendar.toString(), /SUMMARY:📊 Week of Jan 2: 1 workout/ );
+            });
+
+            await t.test( "should update the summary of the week an updated workout moved out of", async ( t ) => {
+                let summaryCalendar = ical();
+                let summaryApp = new WorkoutsToIcalApp( dataFile, summaryCalendar, { ...config, summaryPeriods: [ "week" ] } );
+                let workout = { ...JSON.parse( sampleData ), id: "8E5B23", start: "2020-05-06 20:00:00 -0500", end: "2020-05-06 20:15:00 -0500" };
+                let createRequest = ( aWorkout: any ) => {
+                    let ret = { headers: {}, body: { data: { workouts: [ aWorkout ] } } } as express.Request;
+                    ret.headers[config.headerSecretKey] = config.headerSecretVal;
+                    return ret;
+                };
+
+                const mockResponse = {
+                    status: mock.fn( () => { return { end: function() {}, json: function() {} }})
+                } as any as express.Response;
+
+                await summaryApp.onPostWorkoutData( createRequest( workout ), mockResponse, dataFile );
+                await summaryApp.onPostWorkoutData( createRequest( { ...workout, start: "2020-06-10 20:00:00 -0500", end: "2020-06-10 20:15:00 -0500" } ), mockResponse, dataFile );
+                let summaries = summaryCalendar.events().map( aEvent => aEvent.summary() ).filter( aSummary => /^📊/.test( aSummary ) );
+                assert.deepStrictEqual( summaries.map( aSummary => aSummary.split( ":" )[0] ), [ "📊 Week of Jun 8" ] );
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // updateDayEvents() tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "updateDayEvents() tests", async ( t ) => {
+            await t.test( "should show posted workouts of the same day as one event", async ( t ) => {
+                let dayCalendar = ical();
+                let dayApp = new WorkoutsToIcalApp( dataFile, dayCalendar, { ...config, collapseSameDayWorkouts: true } );
+
+                const mockRequest = {
+                    headers: {},
+                    body: { data: { workouts: [ 
+                        { ...JSON.parse( sampleData ), start: "2023-02-04 07:00:00 -0500", end: "2023-02-04 07:15:00 -0500" },
+                        { ...JSON.parse( sampleData ), name: "Running", start: "2023-02-04 07:20:00 -0500", end: "2023-02-04 07:45:00 -0500" }
+                    ] } }
+                } as express.Request;
+                mockRequest.headers[config.headerSecretKey] = config.headerSecretVal;
+
+                const mockResponse = {
+                    status: mock.fn( () => { return { end: function() {}, json: function() {} }})
+                } as any as express.Response;
+
+                await dayApp.onPostWorkoutData( mockRequest, mockResponse, dataFile );
+                assert.strictEqual( dayCalendar.length(), 1 );
+                assert.strictEqual( dayCalendar.events()[0].summary(), "Cardio - walk + run" );
+            });
+
+            await t.test( "should skip posted workouts without a valid start", async ( t ) => {
+                let dayCalendar = ical();
+                let dayApp = new WorkoutsToIcalApp( dataFile, dayCalendar, { ...config, collapseSameDayWorkouts: true } );
+                let noStart = { ...JSON.parse( sampleData ), name: "Running", end: "2023-02-05 07:45:00 -0500" };
+                delete noStart.start;
+
+                const mockRequest = {
+                    headers: {},
+                    body: { data: { workouts: [ 
+                        { ...JSON.parse( sampleData ), start: "2023-02-05 07:00:00 -0500", end: "2023-02-05 07:15:00 -0500" },
+                        noStart,
+                        { ...JSON.parse( sampleData ), name: "Running", start: 5, end: "2023-02-05 07:45:00 -0500" }
+                    ] } }
+                } as express.Request;
+                mockRequest.headers[config.headerSecretKey] = config.headerSecretVal;
+
+                const statusMock = mock.fn( () => { return { end: function() {}, json: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                await dayApp.onPostWorkoutData( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [200] );
+                assert.strictEqual( dayCalendar.length(), 1 );
+                assert.strictEqual( dayCalendar.events()[0].summary(), "Cardio - walk" );
+            });
+        });
+
+        ////////////////////////////////////////////////////////////////////////
+        // Multiple user tests
+        ////////////////////////////////////////////////////////////////////////
+        await t.test( "multiple user tests", async ( t ) => {
+            ////////////////////////////////////////////////////////////////////
+            // Rainy day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "validateUsers() should report users with the same name or secrets", ( t ) => {
+                let otherApp = new WorkoutsToIcalApp( dataFile, calendar, { 
+                    ...config, 
+                    users: [ secondUser, { ...secondUser, name: "third" }, { ...secondUser, name: "" } ]
+                });
+                let errors = otherApp.validateUsers();
+                assert.strictEqual( errors.length, 5 );
+                assert.match( errors[0], /"third" has the same headerSecretVal/ );
+                assert.match( errors[2], /"" has no name/ );
+                assert.strictEqual( app.validateUsers().length, 0 );
+            });
+
+            ////////////////////////////////////////////////////////////////////
+            // Sunny day
+            ////////////////////////////////////////////////////////////////////
+            await t.test( "should add posted workouts to the calendar of the user matching the header secret", async ( t ) => {
+                const mockRequest = {
+                    headers: {},
+                    body: { data: { workouts: [ JSON.parse( sampleData ) ] } }
+                } as express.Request;
+                mockRequest.headers[config.headerSecretKey] = secondUser.headerSecretVal;
+
+                const statusMock = mock.fn( () => { return { end: function() {}, json: function() {} }});
+                const mockResponse = {
+                    status: statusMock
+                } as any as express.Response;
+
+                let defaultEventsBefore = calendar.length();
+                await app.onPostWorkoutData( mockRequest, mockResponse, dataFile );
+                assert.deepStrictEqual( statusMock.mock.calls[0].arguments, [200] );
+                assert.strictEqual( calendar.length(), defaultEventsBefore );
+                assert.strictEqual( app.getCalendar( secondUser ).length(), 1 );
+
+                let secondUserEvents = await dataFile.getCalendarWorkoutEvents( config, secondUser.name );
+                assert.strictEqual( secondUserEvents.length, 1 );
+            });
+
+            await t.test( "should serve the calendar of the user matching the querystring secret", ( t ) => {
+                const mockRequest = {
+                    query: {}
+                } as express.Request;
+                mockRequest.query[config.querystringSecretKey] = secondUser.querystringSecretVal;
+
+                const serveMock = mock.fn( ( aRes: express.Response ) => {} );
+                const mockResponse = {} as express.Response;
+                mock.method( app.getCalendar( secondUser ), "serve", serveMock );
+
+                app.onGetWorkoutCalendar( mockRequest, mockResponse );
+                assert.strictEqual( serveMock.mock.calls.length, 1 );
+                assert.strictEqual( serveMock.mock.calls[0].arguments[0], mockResponse );
+            });
+
+            await t.test( "validatePostedWorkoutDataHeaders() should return true for another user's header secret", ( t ) => {
+                const mockRequest = {
+                    headers: {}
+                } as express.Request;
+                mockRequest.headers[config.headerSecretKey] = secondUser.headerSecretVal;
+
+                assert.strictEqual( app.validatePostedWorkoutDataHeaders( mockRequest ), true );
+            });
+        });
     });
 
     ////////////////////////////////////////////////////////////////////////////
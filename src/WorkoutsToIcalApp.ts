@@ -27,23 +27,54 @@ import http from "http";
 import express from "express";
 import bodyParser from "body-parser";
 
-import { ICalCalendar } from 'ical-generator';
+import ical, { ICalCalendar, ICalCalendarData } from 'ical-generator';
 
-import DataFile from './DataFile';
-import CalendarWorkoutEvent from "./CalendarWorkoutEvent";
+import DataFile, { MetricDataPoint, WorkoutRevision, defaultUser } from './DataFile';
+import CalendarWorkoutEvent, { ICalendarWorkoutEventConfig } from "./CalendarWorkoutEvent";
+import CalendarWorkoutDayEvent from "./CalendarWorkoutDayEvent";
+import DailyMetricsEvent, { IDailyMetricsEventConfig } from "./DailyMetricsEvent";
+import { StreakGoal, calcStreaks, getStreakEvents, validateStreakGoal } from "./Streaks";
+import { ISummaryConfig, getEmptySummaryEventIds, getSummaryEvents, validateSummaryConfig } from "./Summaries";
+import { removeCalendarEvent, replaceCalendarEvents, upsertCalendarEvent } from "./CalendarEvents";
+import WorkoutData, { getWorkoutDay, getWorkoutUid, isExportData, isWorkoutData } from "./WorkoutData";
+import { WorkoutFilter, matchesWorkoutFilter, parseWorkoutFilter, workoutFilterParams } from "./WorkoutFilter";
+import { getToday } from "./Periods";
+import { isWorkoutPageToken, renderWorkoutPage } from "./WorkoutPage";
+import { checkRouteDistance, renderGpx } from "./Routes";
+import { isCsvContentType, parseWorkoutCsv } from "./WorkoutCsv";
+import { exportContentTypes, exportFormats, isExportFormat, renderWorkoutsExport } from "./WorkoutExport";
+import { calcHeartRateAnalysis, validateHeartRateZones } from "./HeartRateZones";
+import { PersonalRecord, calcPersonalRecords, validatePersonalRecordsConfig } from "./PersonalRecords";
+import { calcWorkoutStats, getMergeResponse, getWorkoutListItem, parseApiPage } from "./WorkoutsApi";
+import { CalendarProfile, getCalendarProfileConfig, getCalendarProfileData, validateCalendarProfiles } from "./CalendarProfiles";
 
 ////////////////////////////////////////////////////////////////////////////////
 // IWorkoutsToIcalAppConfig
 ////////////////////////////////////////////////////////////////////////////////
-export interface IWorkoutsToIcalAppConfig {
-    // Header that is checked before accepting POSTed workout data
+export interface IWorkoutsToIcalAppConfig extends ICalendarWorkoutEventConfig, IDailyMetricsEventConfig, ISummaryConfig {
+    // Calendar name of the default user, shown by some calendar clients
+    calendarName: string,
+
+    // Header that is checked before accepting POSTed workout data, the value is
+    // that of the default user
     headerSecretKey: string,
     headerSecretVal: string,
 
-    // Querystring param that is checked before serving calendar
+    // Querystring param that is checked before serving calendar, the value is 
+    // that of the default user
     querystringSecretKey: string,
     querystringSecretVal: string,
 
+    // Users in addition to the default user
+    users: IWorkoutsToIcalUser[],
+
+    // Named calendars served at /calendars/{name}.ics
+    calendars: CalendarProfile[],
+
+    // Goal for streaks shown on the calendar and served at /streak, null to 
+    // not track streaks
+    streakGoal: StreakGoal | null,
+
     // Port for this app server
     port: number,
 
@@ -54,53 +85,160 @@ export interface IWorkoutsToIcalAppConfig {
     externalUrl: URL
 }
 
+////////////////////////////////////////////////////////////////////////////////
+// IWorkoutsToIcalUser - a user with their own workouts and calendar
+////////////////////////////////////////////////////////////////////////////////
+export interface IWorkoutsToIcalUser {
+    // Name of the user, their workouts are stored under this name
+    name: string,
+
+    // Value of the headerSecretKey header for POSTing this user's workout data
+    headerSecretVal: string,
+
+    // Value of the querystringSecretKey param for this user's calendar
+    querystringSecretVal: string,
+
+    // Calendar name, shown by some calendar clients
+    calendarName: string
+}
+
 ////////////////////////////////////////////////////////////////////////////////
 // WorkoutsToIcalApp
 ////////////////////////////////////////////////////////////////////////////////
 export default class WorkoutsToIcalApp {
     private dataFile: DataFile;
-    private calendar: ICalCalendar;
+    private calendars: { [userName: string]: ICalCalendar };
     private config: IWorkoutsToIcalAppConfig;
     private instance?: http.Server<typeof http.IncomingMessage, typeof http.ServerResponse>;
 
     ////////////////////////////////////////////////////////////////////////////
-    // Constructor 
+    // Constructor - aCalendar is the calendar of the default user, calendars 
+    // for other users are created from the config
     ////////////////////////////////////////////////////////////////////////////
     constructor( aDataFile: DataFile, aCalendar: ICalCalendar, aConfig: IWorkoutsToIcalAppConfig ) {
         this.dataFile = aDataFile;
-        this.calendar = aCalendar;
         this.config = aConfig;
         this.instance = undefined;
+
+        this.calendars = {};
+        this.getUsers().forEach( aUser => {
+            this.calendars[aUser.name] = aUser.name === defaultUser ? aCalendar : ical({
+                name: aUser.calendarName,
+                timezone: aConfig.timezone
+            });
+        });
     }
 
     ////////////////////////////////////////////////////////////////////////////
     // Start the app
     ////////////////////////////////////////////////////////////////////////////
     async start() {
-        console.log( new Date() + " - Creating calendar events... " );
-        let calendarWorkoutEvents = await this.dataFile.getCalendarWorkoutEvents();
-        calendarWorkoutEvents.forEach( aEvent => aEvent.addToCalendar( this.calendar ) );
-        console.log( "Created " + calendarWorkoutEvents.length + " calendar events from DB" );
-        console.log( "" );
+        let configErrors = CalendarWorkoutEvent.validateConfig( this.config )
+            .concat( DailyMetricsEvent.validateConfig( this.config ) )
+            .concat( this.config.heartRateZones ? validateHeartRateZones( this.config.heartRateZones ) : [] )
+            .concat( this.config.personalRecords ? validatePersonalRecordsConfig( this.config.personalRecords ) : [] )
+            .concat( this.config.streakGoal ? validateStreakGoal( this.config.streakGoal ) : [] )
+            .concat( validateSummaryConfig( this.config ) )
+            .concat( validateCalendarProfiles( this.config.calendars, this.getUsers().map( aUser => aUser.name ), this.config ) )
+            .concat( this.validateUsers() );
+        if( configErrors.length > 0 ) {
+            configErrors.forEach( aError => console.error( new Date() + " - Invalid config: " + aError ) );
+            throw new Error( "Invalid config" );
+        }
+
+        for( let user of this.getUsers() ) {
+            console.log( new Date() + " - Creating calendar events for " + user.name + "... " );
+            let workouts = await this.dataFile.getWorkouts( user.name );
+            let calendarWorkoutEvents = CalendarWorkoutEvent.createFromWorkouts( workouts, this.getEventConfig( user.name ), await this.dataFile.getWorkoutRevisions( user.name ) );
+            if( this.isCollapsingSameDayWorkouts() ) {
+                CalendarWorkoutDayEvent.createFromEvents( calendarWorkoutEvents, this.config.unitSystem, user.name ).forEach( aEvent => aEvent.addToCalendar( this.calendars[user.name] ) );
+            } else {
+                calendarWorkoutEvents.forEach( aEvent => aEvent.addToCalendar( this.calendars[user.name] ) );
+            }
+            await this.updateHeartRates( user, this.dataFile, workouts );
+            this.updateStreakEvents( user, workouts, this.calendars[user.name] );
+            this.updateSummaryEvents( user, workouts, this.calendars[user.name], null );
+            console.log( "Created " + calendarWorkoutEvents.length + " calendar events from DB" );
+            console.log( "" );
+        }
 
         let app = express();
         app.use( bodyParser.json({ limit: '200mb' }) );
+        app.use( bodyParser.text({ type: [ "text/csv", "application/csv" ], limit: '200mb' }) );
         app.set( 'port', this.config.port );
         app.set( 'trust proxy', 'loopback' );
 
         ////////////////////////////////////////////////////////////////////////
         // Routes
         ////////////////////////////////////////////////////////////////////////
+        // Handlers are async, their errors are passed to the error handler 
+        // below so that the request fails with a 500 instead of hanging
+
         // Set up route for Health Auto Export app to POST to
-        app.post( "/workoutData", function( aReq, aRes ) {
+        app.post( "/workoutData", ( aReq, aRes, aNext ) => {
             console.log( new Date() + " - " + aReq.ip + " - POST /workoutData" );
-            this.onPostWorkoutData( aReq, aRes, this.dataFile, this.calendar );
+            this.onPostWorkoutData( aReq, aRes, this.dataFile ).catch( aNext );
         });
 
         // Set up route for calendar requests
-        app.get( "/workoutCalendar", function( aReq, aRes ) {
+        app.get( "/workoutCalendar", ( aReq, aRes, aNext ) => {
             console.log( new Date() + " - " + aReq.ip + " - GET /workoutCalendar, " + aReq.get( "user-agent" ) );
-            this.onGetWorkoutCalendar( aReq, aRes, this.calendar );
+            this.onGetWorkoutCalendar( aReq, aRes ).catch( aNext );
+        });
+
+        // Set up route for named calendar requests
+        app.get( "/calendars/:name.ics", ( aReq, aRes, aNext ) => {
+            console.log( new Date() + " - " + aReq.ip + " - GET /calendars/" + aReq.params.name + ".ics, " + aReq.get( "user-agent" ) );
+            this.onGetCalendarProfile( aReq, aRes, this.dataFile ).catch( aNext );
+        });
+
+        // Set up route for daily health metrics calendar requests
+        app.get( "/healthCalendar", ( aReq, aRes, aNext ) => {
+            console.log( new Date() + " - " + aReq.ip + " - GET /healthCalendar, " + aReq.get( "user-agent" ) );
+            this.onGetHealthCalendar( aReq, aRes, this.dataFile ).catch( aNext );
+        });
+
+        // Set up route for the current streak
+        app.get( "/streak", ( aReq, aRes, aNext ) => {
+            console.log( new Date() + " - " + aReq.ip + " - GET /streak" );
+            this.onGetStreak( aReq, aRes, this.dataFile ).catch( aNext );
+        });
+
+        // Set up routes for the page and route of a workout
+        app.get( "/workouts/:id", ( aReq, aRes, aNext ) => {
+            console.log( new Date() + " - " + aReq.ip + " - GET /workouts/" + aReq.params.id );
+            this.onGetWorkoutPage( aReq, aRes, this.dataFile ).catch( aNext );
+        });
+
+        app.get( "/workouts/:id/route.gpx", ( aReq, aRes, aNext ) => {
+            console.log( new Date() + " - " + aReq.ip + " - GET /workouts/" + aReq.params.id + "/route.gpx" );
+            this.onGetWorkoutRoute( aReq, aRes, this.dataFile ).catch( aNext );
+        });
+
+        // Set up routes for the JSON API
+        app.get( "/api/workouts", ( aReq, aRes, aNext ) => {
+            console.log( new Date() + " - " + aReq.ip + " - GET /api/workouts" );
+            this.onGetApiWorkouts( aReq, aRes, this.dataFile ).catch( aNext );
+        });
+
+        app.get( "/api/workouts/:id", ( aReq, aRes, aNext ) => {
+            console.log( new Date() + " - " + aReq.ip + " - GET /api/workouts/" + aReq.params.id );
+            this.onGetApiWorkout( aReq, aRes, this.dataFile ).catch( aNext );
+        });
+
+        app.get( "/api/stats", ( aReq, aRes, aNext ) => {
+            console.log( new Date() + " - " + aReq.ip + " - GET /api/stats" );
+            this.onGetApiStats( aReq, aRes, this.dataFile ).catch( aNext );
+        });
+
+        app.get( "/api/records", ( aReq, aRes, aNext ) => {
+            console.log( new Date() + " - " + aReq.ip + " - GET /api/records" );
+            this.onGetApiRecords( aReq, aRes, this.dataFile ).catch( aNext );
+        });
+
+        app.get( "/api/export/:format", ( aReq, aRes, aNext ) => {
+            console.log( new Date() + " - " + aReq.ip + " - GET /api/export/" + aReq.params.format );
+            this.onGetApiExport( aReq, aRes, this.dataFile ).catch( aNext );
         });
         ////////////////////////////////////////////////////////////////////////
         // /Routes
@@ -118,8 +256,17 @@ export default class WorkoutsToIcalApp {
         // Start the server
         this.instance = http.createServer( app ).listen( app.get( 'port' ), this.config.host, () => {
             console.log( new Date() + ' - Listening on port ' + app.get( 'port' ) );
-            console.log( new Date() + ' - internal calendar at ' + 'http://' + this.config.host + ':' + app.get( 'port' ) + '/workoutCalendar?' + this.config.querystringSecretKey + '=' + this.config.querystringSecretVal );
-            console.log( new Date() + ' - external calendar at ' + new URL( 'workoutCalendar?' + this.config.querystringSecretKey + '=' + this.config.querystringSecretVal, this.config.externalUrl.href ) );
+            this.getUsers().forEach( aUser => {
+                [ 'workoutCalendar', 'healthCalendar' ].forEach( aCalendarRoute => {
+                    let calendarPath = aCalendarRoute + '?' + this.config.querystringSecretKey + '=' + aUser.querystringSecretVal;
+                    console.log( new Date() + ' - ' + aUser.name + ' internal ' + aCalendarRoute + ' at ' + 'http://' + this.config.host + ':' + app.get( 'port' ) + '/' + calendarPath );
+                    console.log( new Date() + ' - ' + aUser.name + ' external ' + aCalendarRoute + ' at ' + new URL( calendarPath, this.config.externalUrl.href ) );
+                });
+            });
+            this.config.calendars.forEach( aProfile => {
+                let calendarPath = 'calendars/' + aProfile.name + '.ics?' + this.config.querystringSecretKey + '=' + aProfile.querystringSecretVal;
+                console.log( new Date() + ' - ' + aProfile.name + ' external calendar at ' + new URL( calendarPath, this.config.externalUrl.href ) );
+            });
         });
     }
 
@@ -131,54 +278,465 @@ export default class WorkoutsToIcalApp {
     }
 
     ////////////////////////////////////////////////////////////////////////////
-    // Handle GET for /workoutCalendar by serving the iCal calendar
+    // Get all users: the default user from the top level of the config, then 
+    // the configured users
+    ////////////////////////////////////////////////////////////////////////////
+    getUsers(): IWorkoutsToIcalUser[] {
+        let ret: IWorkoutsToIcalUser[] = [{
+            name: defaultUser,
+            headerSecretVal: this.config.headerSecretVal,
+            querystringSecretVal: this.config.querystringSecretVal,
+            calendarName: this.config.calendarName
+        }];
+
+        return ret.concat( this.config.users );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Check that users can be told apart by name and secrets, returns a list of
+    // problems (empty if the users are valid)
+    ////////////////////////////////////////////////////////////////////////////
+    validateUsers(): string[] {
+        let ret: string[] = [];
+        let seen: { [key: string]: boolean } = {};
+
+        this.getUsers().forEach( aUser => {
+            [
+                [ "name", aUser.name ], 
+                [ "headerSecretVal", aUser.headerSecretVal ], 
+                [ "querystringSecretVal", aUser.querystringSecretVal ]
+            ].forEach( ( [ aField, aValue ] ) => {
+                if( !aValue ) {
+                    ret.push( "users: user \"" + aUser.name + "\" has no " + aField );
+                } else if( seen[aField + ":" + aValue] ) {
+                    ret.push( "users: user \"" + aUser.name + "\" has the same " + aField + " as another user" );
+                }
+                seen[aField + ":" + aValue] = true;
+            });
+        });
+
+        return ret;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the user whose querystring secret is in aReq, or null if there is none
+    ////////////////////////////////////////////////////////////////////////////
+    getUserForQuerystring( aReq: express.Request ): IWorkoutsToIcalUser | null {
+        let secret = aReq.query[this.config.querystringSecretKey];
+        if( secret === undefined ) {
+            return null;
+        }
+
+        return this.getUsers().find( aUser => aUser.querystringSecretVal === secret ) ?? null;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the user whose header secret is in aReq, or null if there is none
+    ////////////////////////////////////////////////////////////////////////////
+    getUserForHeaders( aReq: express.Request ): IWorkoutsToIcalUser | null {
+        let secret = aReq.headers[this.config.headerSecretKey];
+        if( secret === undefined ) {
+            return null;
+        }
+
+        return this.getUsers().find( aUser => aUser.headerSecretVal === secret ) ?? null;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the user for a request to the JSON API, whose secret is in the 
+    // headers or the querystring of aReq, or null if there is none
+    ////////////////////////////////////////////////////////////////////////////
+    getUserForApiRequest( aReq: express.Request ): IWorkoutsToIcalUser | null {
+        return this.getUserForHeaders( aReq ) ?? this.getUserForQuerystring( aReq );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get aConfig (the app config by default) for the calendar events of the 
+    // user named aUserName, which link to the detail pages of their workouts
+    ////////////////////////////////////////////////////////////////////////////
+    getEventConfig( aUserName: string, aConfig: ICalendarWorkoutEventConfig = this.config ): ICalendarWorkoutEventConfig {
+        let user = this.getUsers().find( aUser => aUser.name === aUserName );
+        if( user === undefined ) {
+            return aConfig;
+        }
+
+        return { ...aConfig, workoutPageLink: { baseUrl: this.config.externalUrl.href, secret: user.querystringSecretVal } };
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the calendar of aUser
+    ////////////////////////////////////////////////////////////////////////////
+    getCalendar( aUser: IWorkoutsToIcalUser ): ICalCalendar {
+        return this.calendars[aUser.name];
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle GET for /workoutCalendar by serving the iCal calendar of the user
+    // whose secret is in the querystring, or aCalendar if given. If the 
+    // querystring has filters (see WorkoutFilter.ts), a calendar of the 
+    // matching workouts is generated from aDataFile instead.
     ////////////////////////////////////////////////////////////////////////////
-    onGetWorkoutCalendar( aReq: express.Request, aRes: express.Response, aCalendar: ICalCalendar ) {
+    async onGetWorkoutCalendar( aReq: express.Request, aRes: express.Response, aCalendar?: ICalCalendar, aDataFile: DataFile = this.dataFile ) {
         // Validate secret in querystring to prevent unwanted access
-        if( aReq.query[this.config.querystringSecretKey] === undefined || aReq.query[this.config.querystringSecretKey] !== this.config.querystringSecretVal ) {
+        let user = this.getUserForQuerystring( aReq );
+        if( user === null ) {
             console.log( "onGetWorkoutCalendar() - querystring not valid" );
             return aRes.status( 403 ).end();
         }
 
-        return aCalendar.serve( aRes );
+        if( workoutFilterParams.some( aParam => aReq.query[aParam] !== undefined ) ) {
+            let { filter, errors } = parseWorkoutFilter( aReq.query, getToday( this.config.timezone ) );
+            if( errors.length > 0 ) {
+                console.log( "onGetWorkoutCalendar() - filter not valid: " + errors.join( ", " ) );
+                return aRes.status( 400 ).send( errors.join( "\n" ) );
+            }
+
+            let calendar = await this.createCalendar( user.name, aDataFile, this.config, filter, { name: user.calendarName } );
+            return calendar.serve( aRes );
+        }
+
+        return ( aCalendar ?? this.getCalendar( user ) ).serve( aRes );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle GET for /calendars/:name.ics by serving the named calendar from
+    // the config, generated from aDataFile
+    ////////////////////////////////////////////////////////////////////////////
+    async onGetCalendarProfile( aReq: express.Request, aRes: express.Response, aDataFile: DataFile ) {
+        let profile = this.config.calendars.find( aProfile => aProfile.name === aReq.params.name );
+        if( profile === undefined ) {
+            console.log( "onGetCalendarProfile() - no calendar named " + aReq.params.name );
+            return aRes.status( 404 ).end();
+        }
+
+        // Validate secret in querystring to prevent unwanted access
+        if( aReq.query[this.config.querystringSecretKey] === undefined || aReq.query[this.config.querystringSecretKey] !== profile.querystringSecretVal ) {
+            console.log( "onGetCalendarProfile() - querystring not valid" );
+            return aRes.status( 403 ).end();
+        }
+
+        let calendar = await this.createCalendar( 
+            profile.user ?? defaultUser, 
+            aDataFile, 
+            getCalendarProfileConfig( profile, this.config ), 
+            profile.filter ?? {}, 
+            getCalendarProfileData( profile, this.config ),
+            "calendars/" + profile.name
+        );
+
+        return calendar.serve( aRes, profile.name + ".ics" );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle GET for /healthCalendar by serving an iCal calendar with one 
+    // all-day event per day summarizing the configured health metrics of the
+    // user whose secret is in the querystring
+    ////////////////////////////////////////////////////////////////////////////
+    async onGetHealthCalendar( aReq: express.Request, aRes: express.Response, aDataFile: DataFile ) {
+        // Validate secret in querystring to prevent unwanted access
+        let user = this.getUserForQuerystring( aReq );
+        if( user === null ) {
+            console.log( "onGetHealthCalendar() - querystring not valid" );
+            return aRes.status( 403 ).end();
+        }
+
+        let calendar = ical({
+            name: user.calendarName + " - Health",
+            timezone: this.config.timezone
+        });
+
+        let metricNames = this.config.healthMetrics
+            .map( aRule => aRule.name )
+            .filter( ( aName, aIndex, aNames ) => aNames.indexOf( aName ) === aIndex );
+
+        let dataPoints: MetricDataPoint[] = [];
+        for( let metricName of metricNames ) {
+            dataPoints = dataPoints.concat( await aDataFile.getMetrics( metricName, user.name ) );
+        }
+        DailyMetricsEvent.createFromMetrics( dataPoints, this.config, user.name ).forEach( aEvent => aEvent.addToCalendar( calendar ) );
+
+        return calendar.serve( aRes );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle GET for /streak by serving the current and record streaks of the
+    // user whose secret is in the querystring as JSON
+    ////////////////////////////////////////////////////////////////////////////
+    async onGetStreak( aReq: express.Request, aRes: express.Response, aDataFile: DataFile ) {
+        // Validate secret in querystring to prevent unwanted access
+        let user = this.getUserForQuerystring( aReq );
+        if( user === null ) {
+            console.log( "onGetStreak() - querystring not valid" );
+            return aRes.status( 403 ).end();
+        }
+
+        if( this.config.streakGoal === null ) {
+            console.log( "onGetStreak() - streaks are not configured" );
+            return aRes.status( 404 ).end();
+        }
+
+        let report = calcStreaks( await aDataFile.getWorkouts( user.name ), this.config.streakGoal, this.config.timezone );
+
+        return aRes.json({
+            goal: this.config.streakGoal,
+            current: report.current,
+            record: report.record
+        });
     }
 
     ////////////////////////////////////////////////////////////////////////////
-    // Handle POST to /workoutData from the Health Auto Export iOS app
+    // Handle GET for /workouts/:id by serving the HTML detail page of the 
+    // workout, for the user whose querystring secret the token was made with
     ////////////////////////////////////////////////////////////////////////////
-    async onPostWorkoutData( aReq: express.Request, aRes: express.Response, aDataFile: DataFile, aCalendar: ICalCalendar ) {
-        if( !this.validatePostedWorkoutDataHeaders( aReq ) ) {
+    async onGetWorkoutPage( aReq: express.Request, aRes: express.Response, aDataFile: DataFile ) {
+        let user = this.getUsers().find( aUser => isWorkoutPageToken( aReq.query.token, aReq.params.id, aUser.querystringSecretVal ) );
+        if( user === undefined ) {
+            console.log( "onGetWorkoutPage() - token not valid" );
+            return aRes.status( 403 ).end();
+        }
+
+        let workout = await aDataFile.getWorkout( aReq.params.id, user.name );
+        if( workout === null ) {
+            console.log( "onGetWorkoutPage() - no workout " + aReq.params.id );
+            return aRes.status( 404 ).end();
+        }
+
+        // Relative to the page, so the token is checked the same way for the GPX
+        let routeUrl = encodeURIComponent( aReq.params.id ) + "/route.gpx?token=" + encodeURIComponent( String( aReq.query.token ) );
+        return aRes.send( renderWorkoutPage( workout, this.config, routeUrl ) );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle GET for /workouts/:id/route.gpx by serving the stored route of the
+    // workout as GPX, with the same token as its detail page
+    ////////////////////////////////////////////////////////////////////////////
+    async onGetWorkoutRoute( aReq: express.Request, aRes: express.Response, aDataFile: DataFile ) {
+        let user = this.getUsers().find( aUser => isWorkoutPageToken( aReq.query.token, aReq.params.id, aUser.querystringSecretVal ) );
+        if( user === undefined ) {
+            console.log( "onGetWorkoutRoute() - token not valid" );
+            return aRes.status( 403 ).end();
+        }
+
+        let workout = await aDataFile.getWorkout( aReq.params.id, user.name );
+        let points = workout !== null ? await aDataFile.getWorkoutRoute( workout, user.name ) : [];
+        if( workout === null || points.length === 0 ) {
+            console.log( "onGetWorkoutRoute() - no route for workout " + aReq.params.id );
+            return aRes.status( 404 ).end();
+        }
+
+        aRes.type( "application/gpx+xml" );
+        aRes.attachment( "workout-" + aReq.params.id + ".gpx" );
+        return aRes.send( renderGpx( workout, points ) );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle GET for /api/workouts by responding with a page of the stored 
+    // workouts of the user, newest first, that match the filters in the 
+    // querystring (see WorkoutFilter.ts). limit and offset select the page.
+    ////////////////////////////////////////////////////////////////////////////
+    async onGetApiWorkouts( aReq: express.Request, aRes: express.Response, aDataFile: DataFile ) {
+        let user = this.getUserForApiRequest( aReq );
+        if( user === null ) {
+            console.log( "onGetApiWorkouts() - secret not valid" );
+            return aRes.status( 403 ).end();
+        }
+
+        let { filter, errors: filterErrors } = parseWorkoutFilter( aReq.query, getToday( this.config.timezone ) );
+        let { page, errors: pageErrors } = parseApiPage( aReq.query );
+        let errors = filterErrors.concat( pageErrors );
+        if( errors.length > 0 ) {
+            console.log( "onGetApiWorkouts() - querystring not valid: " + errors.join( ", " ) );
+            return aRes.status( 400 ).json( { errors } );
+        }
+
+        let workouts = ( await this.getApiWorkouts( user, aDataFile, filter ) ).reverse();
+
+        return aRes.json({
+            total: workouts.length,
+            limit: page.limit,
+            offset: page.offset,
+            workouts: workouts.slice( page.offset, page.offset + page.limit ).map( getWorkoutListItem )
+        });
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle GET for /api/workouts/:id by responding with the stored workout of
+    // the user with that id
+    ////////////////////////////////////////////////////////////////////////////
+    async onGetApiWorkout( aReq: express.Request, aRes: express.Response, aDataFile: DataFile ) {
+        let user = this.getUserForApiRequest( aReq );
+        if( user === null ) {
+            console.log( "onGetApiWorkout() - secret not valid" );
+            return aRes.status( 403 ).end();
+        }
+
+        let workout = await aDataFile.getWorkout( aReq.params.id, user.name );
+        if( workout === null ) {
+            console.log( "onGetApiWorkout() - no workout " + aReq.params.id );
+            return aRes.status( 404 ).end();
+        }
+
+        return aRes.json( { id: aReq.params.id, workout, heartRate: await aDataFile.getWorkoutHeartRate( workout, user.name ) } );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle GET for /api/stats by responding with the totals of the stored 
+    // workouts of the user that match the filters in the querystring
+    ////////////////////////////////////////////////////////////////////////////
+    async onGetApiStats( aReq: express.Request, aRes: express.Response, aDataFile: DataFile ) {
+        let user = this.getUserForApiRequest( aReq );
+        if( user === null ) {
+            console.log( "onGetApiStats() - secret not valid" );
+            return aRes.status( 403 ).end();
+        }
+
+        let { filter, errors } = parseWorkoutFilter( aReq.query, getToday( this.config.timezone ) );
+        if( errors.length > 0 ) {
+            console.log( "onGetApiStats() - querystring not valid: " + errors.join( ", " ) );
+            return aRes.status( 400 ).json( { errors } );
+        }
+
+        let workouts = await this.getApiWorkouts( user, aDataFile, filter );
+
+        return aRes.json( calcWorkoutStats( workouts, this.config.unitSystem, this.config.timezone ) );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle GET for /api/export/:format by sending the stored workouts of the
+    // user that match the filters in the querystring (e.g. since and until for
+    // a date range) as a csv, json or tcx file
+    ////////////////////////////////////////////////////////////////////////////
+    async onGetApiExport( aReq: express.Request, aRes: express.Response, aDataFile: DataFile ) {
+        let user = this.getUserForApiRequest( aReq );
+        if( user === null ) {
+            console.log( "onGetApiExport() - secret not valid" );
+            return aRes.status( 403 ).end();
+        }
+
+        let format = aReq.params.format;
+        if( !isExportFormat( format ) ) {
+            console.log( "onGetApiExport() - unknown format " + format );
+            return aRes.status( 400 ).json( { errors: [ "format: must be one of " + exportFormats.join( ", " ) ] } );
+        }
+
+        let { filter, errors } = parseWorkoutFilter( aReq.query, getToday( this.config.timezone ) );
+        if( errors.length > 0 ) {
+            console.log( "onGetApiExport() - querystring not valid: " + errors.join( ", " ) );
+            return aRes.status( 400 ).json( { errors } );
+        }
+
+        let workouts = await this.getApiWorkouts( user, aDataFile, filter );
+
+        aRes.type( exportContentTypes[format] );
+        aRes.attachment( "workouts." + format );
+        return aRes.send( renderWorkoutsExport( workouts, format, this.config.unitSystem ) );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle GET for /api/records by responding with the current personal 
+    // records of the user for each workout type
+    ////////////////////////////////////////////////////////////////////////////
+    async onGetApiRecords( aReq: express.Request, aRes: express.Response, aDataFile: DataFile ) {
+        let user = this.getUserForApiRequest( aReq );
+        if( user === null ) {
+            console.log( "onGetApiRecords() - secret not valid" );
+            return aRes.status( 403 ).end();
+        }
+
+        if( this.config.personalRecords === null ) {
+            console.log( "onGetApiRecords() - personal records are not configured" );
+            return aRes.status( 404 ).end();
+        }
+
+        let report = calcPersonalRecords( await aDataFile.getWorkouts( user.name ), this.config );
+
+        return aRes.json( { records: report.records } );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the valid stored workouts of aUser that match aFilter, oldest first
+    ////////////////////////////////////////////////////////////////////////////
+    async getApiWorkouts( aUser: IWorkoutsToIcalUser, aDataFile: DataFile, aFilter: WorkoutFilter ): Promise<WorkoutData[]> {
+        return ( await aDataFile.getWorkouts( aUser.name ) )
+            .filter( aWorkout => isWorkoutData( aWorkout ) )
+            .filter( aWorkout => matchesWorkoutFilter( aWorkout, aFilter, this.config.workoutTypes, this.config.timezone ) );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle POST to /workoutData from the Health Auto Export iOS app, merging
+    // the workouts of the user whose secret is in the headers and adding them 
+    // to their calendar (or aCalendar if given). The body is JSON, or a 
+    // workout CSV export if the Content-Type is text/csv.
+    ////////////////////////////////////////////////////////////////////////////
+    async onPostWorkoutData( aReq: express.Request, aRes: express.Response, aDataFile: DataFile, aCalendar?: ICalCalendar ) {
+        let user = this.getUserForHeaders( aReq );
+        if( user === null ) {
             console.log( "onPostWorkoutData() - posted headers not valid" );
             return aRes.status( 403 ).end();
         }
+        let calendar = aCalendar ?? this.getCalendar( user );
         fs.writeFileSync( 'latest-posted-body.json', JSON.stringify( aReq.body, null, 4 ) );
 
-        if( !this.validatePostedWorkoutDataBody( aReq.body ) ) {
+        // Workout CSV exports are parsed into the same structure as JSON ones
+        let body = aReq.body;
+        if( isCsvContentType( aReq.headers["content-type"] ) ) {
+            let csv = parseWorkoutCsv( typeof aReq.body === "string" ? aReq.body : "" );
+            if( csv.errors.length > 0 ) {
+                console.log( "onPostWorkoutData() - posted CSV not valid: " + csv.errors.join( ", " ) );
+                return aRes.status( 400 ).end();
+            }
+            body = { data: { workouts: csv.workouts } };
+        }
+
+        if( !this.validatePostedWorkoutDataBody( body ) ) {
             console.log( "onPostWorkoutData() - posted data not valid" );
             return aRes.status( 400 ).end();
         }
-        console.log( new Date() + " - Got " + aReq.body.data.workouts.length + " workouts in POST" );
+        console.log( new Date() + " - Got " + body.data.workouts.length + " workouts in POST for " + user.name );
         
         // merge received workouts into existing db of workouts
-        await aDataFile.mergeData( aReq.body.data, aWorkout => {
+        let userName = user.name;
+        let previousVersions: { [workoutId: string]: any } = {};
+        let report = await aDataFile.mergeData( body.data, aWorkout => {
             // add events to calendar for newly seen workouts
-            this.onNewWorkout( aWorkout, aCalendar );
-        });
+            this.onNewWorkout( aWorkout, calendar, userName );
+        }, ( aWorkout, aPrevious, aRevision ) => {
+            // replace events on calendar for changed workouts
+            previousVersions[getWorkoutUid( aWorkout )] = aPrevious;
+            this.onUpdatedWorkout( aWorkout, calendar, userName, aPrevious, aRevision );
+        }, userName );
+        console.log( new Date() + " - Merged workouts: " + report.new.length + " new, " + report.updated.length + " updated, " + report.unchanged.length + " unchanged, " + 
+            report.invalid.length + " invalid, " + report.failed.length + " failed" );
+        console.log( new Date() + " - Merged metrics: " + report.metrics.new + " new, " + report.metrics.updated + " updated, " + report.metrics.unchanged + " unchanged" );
+        console.log( new Date() + " - Merged symptoms: " + report.symptoms.new + " new, " + report.symptoms.updated + " updated, " + report.symptoms.unchanged + " unchanged" );
+
+        let changedWorkouts = report.new.concat( report.updated );
+        if( changedWorkouts.length > 0 ) {
+            // All workouts of the user after the merge, read once for the updates below
+            let workouts = await aDataFile.getWorkouts( userName );
+            let recordsBefore = this.getNewPersonalRecords( getWorkoutsBeforeMerge( workouts, report.new, previousVersions ) );
+
+            this.checkRouteDistances( changedWorkouts );
+            await this.updateHeartRates( user, aDataFile, changedWorkouts );
+            this.updateDayEvents( user, workouts, calendar, changedWorkouts );
+            this.updatePersonalRecordEvents( user, workouts, calendar, recordsBefore, changedWorkouts, await aDataFile.getWorkoutRevisions( userName ) );
+            this.updateStreakEvents( user, workouts, calendar );
+            this.updateSummaryEvents( user, workouts, calendar, changedWorkouts.concat( Object.keys( previousVersions ).map( aId => previousVersions[aId] ) ) );
+        }
 
         console.log(  new Date() + " - Finished handling request" );
         console.log( "" );
-        return aRes.status( 200 ).end();
+
+        // Fail the request if a workout could not be stored so that it is 
+        // posted again, merging the rest again leaves them unchanged
+        return aRes.status( report.failed.length > 0 ? 500 : 200 ).json( getMergeResponse( report ) );
     }
 
     ////////////////////////////////////////////////////////////////////////////
     // Check that the posted headers are valid to prevent unwanted posts
     ////////////////////////////////////////////////////////////////////////////
     validatePostedWorkoutDataHeaders( aReq: express.Request ) {
-        if( aReq.headers[this.config.headerSecretKey] === undefined || aReq.headers[this.config.headerSecretKey] !== this.config.headerSecretVal ) {
-            return false;
-        }
-
-        return true;
+        return this.getUserForHeaders( aReq ) !== null;
     }
 
     ////////////////////////////////////////////////////////////////////////////
@@ -192,7 +750,7 @@ export default class WorkoutsToIcalApp {
     // considered "invalid" data.
     ////////////////////////////////////////////////////////////////////////////
     validatePostedWorkoutDataBody( aBody: any ) {
-        if( !aBody || !aBody.data || aBody.data.workouts === undefined || !Array.isArray( aBody.data.workouts ) ) {
+        if( !aBody || !isExportData( aBody.data ) ) {
             console.log( "validatePostedWorkoutDataBody() - invalid posted body:" );
             console.log( JSON.stringify( aBody, null, 4 ) );
             return false;
@@ -204,10 +762,203 @@ export default class WorkoutsToIcalApp {
     ////////////////////////////////////////////////////////////////////////////
     // Handle a newly seen workout
     ////////////////////////////////////////////////////////////////////////////
-    onNewWorkout( aWorkout: any, aCalendar: ICalCalendar ) {
+    onNewWorkout( aWorkout: any, aCalendar: ICalCalendar, aUserName: string = defaultUser ) {
         console.log( "Got a new workout!" );
+        this.addWorkoutToCalendar( aWorkout, aCalendar, aUserName );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Handle a previously seen workout whose data has changed from aPrevious, 
+    // aRevision is its stored revision after the change
+    ////////////////////////////////////////////////////////////////////////////
+    onUpdatedWorkout( aWorkout: any, aCalendar: ICalCalendar, aUserName: string = defaultUser, aPrevious: any = aWorkout, aRevision: WorkoutRevision | null = null ) {
+        console.log( "Got an updated workout!" );
+
+        // A workout stored without an Auto Export id gets a new uid when it is
+        // posted with one, remove the event under the old uid
+        let previousUid = getWorkoutUid( aPrevious );
+        if( previousUid !== getWorkoutUid( aWorkout ) ) {
+            removeCalendarEvent( aCalendar, previousUid );
+        }
 
-        let calendarWorkoutEvent = CalendarWorkoutEvent.createFromWorkoutData( aWorkout );
+        this.addWorkoutToCalendar( aWorkout, aCalendar, aUserName, aRevision );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Whether workouts are shown as one event per day instead of one event per
+    // workout with aConfig
+    ////////////////////////////////////////////////////////////////////////////
+    isCollapsingSameDayWorkouts( aConfig: ICalendarWorkoutEventConfig = this.config ): boolean {
+        return aConfig.collapseSameDayWorkouts && !aConfig.timedEvents;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Create a calendar with aCalendarData (e.g. name) of the workouts of 
+    // aUserName in aDataFile that match aFilter, with events created using 
+    // aConfig. aCalendarId is part of the UIDs of same-day events, which 
+    // differ between calendars of the same workouts.
+    ////////////////////////////////////////////////////////////////////////////
+    async createCalendar( 
+        aUserName: string, 
+        aDataFile: DataFile, 
+        aConfig: ICalendarWorkoutEventConfig, 
+        aFilter: WorkoutFilter, 
+        aCalendarData: ICalCalendarData,
+        aCalendarId: string = aUserName
+    ): Promise<ICalCalendar> {
+        let calendar = ical({ timezone: aConfig.timezone, ...aCalendarData });
+
+        let calendarWorkoutEvents = ( await aDataFile.getCalendarWorkoutEvents( this.getEventConfig( aUserName, aConfig ), aUserName ) )
+            .filter( aEvent => matchesWorkoutFilter( aEvent.getWorkout(), aFilter, aConfig.workoutTypes, aConfig.timezone ) );
+
+        if( this.isCollapsingSameDayWorkouts( aConfig ) ) {
+            CalendarWorkoutDayEvent.createFromEvents( calendarWorkoutEvents, aConfig.unitSystem, aCalendarId ).forEach( aEvent => aEvent.addToCalendar( calendar ) );
+        } else {
+            calendarWorkoutEvents.forEach( aEvent => aEvent.addToCalendar( calendar ) );
+        }
+
+        return calendar;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Log aWorkouts whose distance calculated from their route does not match
+    // their recorded distance, which usually means a gap in the GPS data
+    ////////////////////////////////////////////////////////////////////////////
+    checkRouteDistances( aWorkouts: any[] ) {
+        aWorkouts.forEach( aWorkout => {
+            let check = checkRouteDistance( aWorkout, this.config.unitSystem );
+            if( check !== null && !check.isConsistent ) {
+                console.log( new Date() + " - Route of \"" + aWorkout.name + "\" at " + aWorkout.start + " is " + check.routeDistance.toFixed( 2 ) + 
+                    ", recorded distance is " + check.recordedDistance.toFixed( 2 ) + " (" + Math.round( check.difference * 100 ) + "% difference)" );
+            }
+        });
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Calculate and store the heart rate analysis (time in the configured 
+    // zones and recovery) of the valid ones of aWorkouts of aUser
+    ////////////////////////////////////////////////////////////////////////////
+    async updateHeartRates( aUser: IWorkoutsToIcalUser, aDataFile: DataFile, aWorkouts: any[] ) {
+        let analyses = aWorkouts.filter( aWorkout => isWorkoutData( aWorkout ) ).map( aWorkout => ({ workout: aWorkout, analysis: calcHeartRateAnalysis( aWorkout, this.config.heartRateZones ) }) );
+        let count = await aDataFile.setWorkoutHeartRates( analyses, aUser.name );
+        console.log( new Date() + " - Updated heart rate analysis of " + count + " workouts for " + aUser.name );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // When collapsing same-day workouts, regenerate the events in aCalendar of
+    // the days that the valid ones of aChangedWorkouts of aUser are on, from 
+    // all of the user's aWorkouts
+    ////////////////////////////////////////////////////////////////////////////
+    updateDayEvents( aUser: IWorkoutsToIcalUser, aWorkouts: any[], aCalendar: ICalCalendar, aChangedWorkouts: any[] ) {
+        if( !this.isCollapsingSameDayWorkouts() ) {
+            return;
+        }
+
+        let days = aChangedWorkouts.filter( aWorkout => isWorkoutData( aWorkout ) ).map( aWorkout => getWorkoutDay( aWorkout.start, this.config.timezone ) );
+        let calendarWorkoutEvents = CalendarWorkoutEvent.createFromWorkouts( aWorkouts, this.getEventConfig( aUser.name ) ).filter( aEvent => days.indexOf( aEvent.getDay() ) !== -1 );
+        CalendarWorkoutDayEvent.createFromEvents( calendarWorkoutEvents, this.config.unitSystem, aUser.name ).forEach( aEvent => {
+            console.log( "Updated CalendarWorkoutDayEvent: " + aEvent.getName() );
+            aEvent.addToCalendar( aCalendar );
+        });
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Get the personal records set by each of aWorkouts (oldest first), by 
+    // workout id (none if personal records are not configured)
+    ////////////////////////////////////////////////////////////////////////////
+    getNewPersonalRecords( aWorkouts: any[] ): { [workoutId: string]: PersonalRecord[] } {
+        if( this.config.personalRecords === null ) {
+            return {};
+        }
+
+        return calcPersonalRecords( aWorkouts, this.config ).newRecords;
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Recalculate the personal records of aUser from all of their aWorkouts 
+    // and update the events in aCalendar of aChangedWorkouts, and of workouts 
+    // whose records changed from aRecordsBefore (e.g. a record beaten by an 
+    // older workout posted late). The events of aChangedWorkouts keep their 
+    // stored revision from aRevisions, the others are counted as updated.
+    ////////////////////////////////////////////////////////////////////////////
+    updatePersonalRecordEvents( 
+        aUser: IWorkoutsToIcalUser, 
+        aWorkouts: any[], 
+        aCalendar: ICalCalendar, 
+        aRecordsBefore: { [workoutId: string]: PersonalRecord[] }, 
+        aChangedWorkouts: any[],
+        aRevisions: { [workoutId: string]: WorkoutRevision } = {}
+    ) {
+        if( this.config.personalRecords === null ) {
+            return;
+        }
+
+        let recordsAfter = calcPersonalRecords( aWorkouts, this.config ).newRecords;
+        let changedIds = aChangedWorkouts.map( aWorkout => getWorkoutUid( aWorkout ) );
+        let affectedWorkouts = aWorkouts.filter( aWorkout => {
+            let id = getWorkoutUid( aWorkout );
+            return changedIds.indexOf( id ) !== -1 || JSON.stringify( aRecordsBefore[id] ?? [] ) !== JSON.stringify( recordsAfter[id] ?? [] );
+        });
+
+        if( this.isCollapsingSameDayWorkouts() ) {
+            this.updateDayEvents( aUser, aWorkouts, aCalendar, affectedWorkouts );
+        } else {
+            affectedWorkouts.forEach( aWorkout => {
+                let id = getWorkoutUid( aWorkout );
+                let revision = changedIds.indexOf( id ) !== -1 ? aRevisions[id] ?? null : null;
+                CalendarWorkoutEvent.createFromWorkoutData( aWorkout, this.getEventConfig( aUser.name ), recordsAfter[id] ?? [], revision )?.addToCalendar( aCalendar );
+            });
+        }
+
+        let newRecordCount = changedIds.reduce( ( aCount, aId ) => aCount + ( recordsAfter[aId]?.length ?? 0 ), 0 );
+        console.log( new Date() + " - " + newRecordCount + " new personal records for " + aUser.name );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Recalculate the streaks of aUser from all of their aWorkouts and replace
+    // the streak events in aCalendar
+    ////////////////////////////////////////////////////////////////////////////
+    updateStreakEvents( aUser: IWorkoutsToIcalUser, aWorkouts: any[], aCalendar: ICalCalendar ) {
+        if( this.config.streakGoal === null ) {
+            return;
+        }
+
+        let report = calcStreaks( aWorkouts, this.config.streakGoal, this.config.timezone );
+        replaceCalendarEvents( aCalendar, "streak", getStreakEvents( aCalendar, report, this.config.streakGoal, aUser.name ) );
+        console.log( new Date() + " - Current streak for " + aUser.name + ": " + ( report.current?.length ?? 0 ) + ", record: " + ( report.record?.length ?? 0 ) );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Regenerate the summary events in aCalendar of the periods that 
+    // aChangedWorkouts of aUser are in (all periods if null), from all of the
+    // user's aWorkouts. aChangedWorkouts should include the previous versions 
+    // of updated workouts, the events of periods left without workouts are 
+    // removed.
+    ////////////////////////////////////////////////////////////////////////////
+    updateSummaryEvents( aUser: IWorkoutsToIcalUser, aWorkouts: any[], aCalendar: ICalCalendar, aChangedWorkouts: any[] | null ) {
+        if( this.config.summaryPeriods.length === 0 ) {
+            return;
+        }
+
+        let summaryEvents = getSummaryEvents( aCalendar, aWorkouts, aChangedWorkouts, this.config, aUser.name );
+        summaryEvents.forEach( aEventData => upsertCalendarEvent( aCalendar, aEventData ) );
+        if( aChangedWorkouts !== null ) {
+            getEmptySummaryEventIds( aWorkouts, aChangedWorkouts, this.config, aUser.name ).forEach( aId => removeCalendarEvent( aCalendar, aId ) );
+        }
+        console.log( new Date() + " - Updated " + summaryEvents.length + " summary events for " + aUser.name );
+    }
+
+    ////////////////////////////////////////////////////////////////////////////
+    // Add (or replace) the calendar event for aWorkout of the user named 
+    // aUserName in aCalendar, with the stored aRevision of aWorkout if any
+    ////////////////////////////////////////////////////////////////////////////
+    private addWorkoutToCalendar( aWorkout: any, aCalendar: ICalCalendar, aUserName: string, aRevision: WorkoutRevision | null = null ) {
+        // Day events are updated by updateDayEvents() once all posted workouts are merged
+        if( this.isCollapsingSameDayWorkouts() ) {
+            return;
+        }
+
+        let calendarWorkoutEvent = CalendarWorkoutEvent.createFromWorkoutData( aWorkout, this.getEventConfig( aUserName ), [], aRevision );
         if( calendarWorkoutEvent ) {
             console.log( "Created CalendarWorkoutEvent: " + calendarWorkoutEvent.getName() );
             console.log( calendarWorkoutEvent.getBody() );
@@ -222,3 +973,17 @@ export default class WorkoutsToIcalApp {
         console.log( "" );
     }
 }
+
+////////////////////////////////////////////////////////////////////////////////
+// Get the workouts stored before a merge from aWorkouts, all workouts after 
+// it: without aNewWorkouts, and with the aPreviousVersions (by workout id) of 
+// updated workouts. Ordered by start like DataFile.getWorkouts().
+////////////////////////////////////////////////////////////////////////////////
+function getWorkoutsBeforeMerge( aWorkouts: any[], aNewWorkouts: any[], aPreviousVersions: { [workoutId: string]: any } ): any[] {
+    let newIds = aNewWorkouts.map( aWorkout => getWorkoutUid( aWorkout ) );
+
+    return aWorkouts
+        .filter( aWorkout => newIds.indexOf( getWorkoutUid( aWorkout ) ) === -1 )
+        .map( aWorkout => aPreviousVersions[getWorkoutUid( aWorkout )] ?? aWorkout )
+        .sort( ( aLeft, aRight ) => aLeft.start < aRight.start ? -1 : aLeft.start > aRight.start ? 1 : 0 );
+}
@@ -0,0 +1,88 @@
+////////////////////////////////////////////////////////////////////////////////
+// export.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import * as fs from "fs";
+
+import Config from '../Config';
+import DataFile, { defaultUser } from './DataFile';
+import { isWorkoutData } from './WorkoutData';
+import { getToday } from './Periods';
+import { matchesWorkoutFilter, parseWorkoutFilter, workoutFilterParams } from './WorkoutFilter';
+import { exportFormats, isExportFormat, renderWorkoutsExport } from './WorkoutExport';
+
+const usage = "Usage: npm run export -- --format <" + exportFormats.join( "|" ) + "> [--since YYYY-MM-DD] [--until YYYY-MM-DD] [--user <name>] [--out <file>]";
+
+////////////////////////////////////////////////////////////////////////////////
+// export - command line entry point to export stored workouts to a CSV, JSON
+// or TCX file, like /api/export. Workouts can be filtered with the calendar
+// filters (e.g. --since and --until for a date range, see WorkoutFilter.ts).
+// The file is workouts.<format> unless --out is given.
+////////////////////////////////////////////////////////////////////////////////
+async function main( aArgs: string[] ) {
+    let config = new Config();
+    let options: { [option: string]: string } = {};
+
+    for( let i = 0; i < aArgs.length; i += 2 ) {
+        let match = /^--(.+)$/.exec( aArgs[i] );
+        let known = match !== null && ( [ "format", "user", "out" ].indexOf( match[1] ) !== -1 || workoutFilterParams.indexOf( match[1] ) !== -1 );
+        if( match === null || !known || i + 1 >= aArgs.length ) {
+            console.error( "Unexpected argument " + aArgs[i] + "\n" + usage );
+            process.exitCode = 1;
+            return;
+        }
+        options[match[1]] = aArgs[i + 1];
+    }
+
+    let format = options.format;
+    let user = options.user ?? defaultUser;
+    let userNames = [ defaultUser ].concat( config.users.map( aUser => aUser.name ) );
+    let { filter, errors } = parseWorkoutFilter( options, getToday( config.timezone ) );
+    if( !isExportFormat( format ) ) {
+        errors.push( "format: must be one of " + exportFormats.join( ", " ) );
+    }
+    if( userNames.indexOf( user ) === -1 ) {
+        errors.push( "user: expected one of " + userNames.join( ", " ) );
+    }
+    if( errors.length > 0 || !isExportFormat( format ) ) {
+        console.error( errors.join( "\n" ) + "\n" + usage );
+        process.exitCode = 1;
+        return;
+    }
+
+    let dataFile = await DataFile.open( config.dbFilename );
+    try {
+        let workouts = ( await dataFile.getWorkouts( user ) )
+            .filter( aWorkout => isWorkoutData( aWorkout ) )
+            .filter( aWorkout => matchesWorkoutFilter( aWorkout, filter, config.workoutTypes, config.timezone ) );
+
+        let filename = options.out ?? "workouts." + format;
+        fs.writeFileSync( filename, renderWorkoutsExport( workouts, format, config.unitSystem ) );
+        console.log( "Exported " + workouts.length + " workouts for " + user + " to " + filename );
+    } finally {
+        await dataFile.close();
+    }
+}
+
+// Call entry point!
+main( process.argv.slice( 2 ) );
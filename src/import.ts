@@ -0,0 +1,95 @@
+////////////////////////////////////////////////////////////////////////////////
+// import.ts
+//
+// Copyright (c) 2024 Ben Murrell
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to deal
+// in the Software without restriction, including without limitation the rights
+// to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+// copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in all
+// copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+// OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+// SOFTWARE.
+////////////////////////////////////////////////////////////////////////////////
+
+import * as fs from "fs";
+
+import Config from '../Config';
+import DataFile, { defaultUser } from './DataFile';
+import { findImportFiles, formatImportReport, importFiles } from './Importer';
+
+const usage = "Usage: npm run import -- [--dry-run] [--user <name>] <JSON or CSV file, or directory>...";
+
+////////////////////////////////////////////////////////////////////////////////
+// import - command line entry point to import Health Auto Export JSON or CSV
+// files into the db, e.g. to backfill history. With --dry-run the import is made 
+// into a copy of the db, reporting what would change without changing it.
+// Calendars are created from the db when the app starts, so restart it to see
+// imported workouts.
+////////////////////////////////////////////////////////////////////////////////
+async function main( aArgs: string[] ) {
+    let config = new Config();
+    let dryRun = false;
+    let user = defaultUser;
+    let paths: string[] = [];
+
+    for( let i = 0; i < aArgs.length; i++ ) {
+        if( aArgs[i] === "--dry-run" ) {
+            dryRun = true;
+        } else if( aArgs[i] === "--user" && i + 1 < aArgs.length ) {
+            user = aArgs[++i];
+        } else if( /^--/.test( aArgs[i] ) ) {
+            console.error( "Unknown option " + aArgs[i] + "\n" + usage );
+            process.exitCode = 1;
+            return;
+        } else {
+            paths.push( aArgs[i] );
+        }
+    }
+
+    let userNames = [ defaultUser ].concat( config.users.map( aUser => aUser.name ) );
+    if( paths.length === 0 || userNames.indexOf( user ) === -1 ) {
+        console.error( ( paths.length === 0 ? "No files to import" : "Unknown user \"" + user + "\", expected one of " + userNames.join( ", " ) ) + "\n" + usage );
+        process.exitCode = 1;
+        return;
+    }
+
+    // Leave the db untouched for a dry run, including migrations on open
+    let dbFilename = config.dbFilename;
+    if( dryRun ) {
+        dbFilename = config.dbFilename + ".dry-run";
+        if( fs.existsSync( config.dbFilename ) ) {
+            fs.copyFileSync( config.dbFilename, dbFilename );
+        }
+    }
+
+    let { files, errors } = findImportFiles( paths );
+    let dataFile = await DataFile.open( dbFilename );
+    try {
+        console.log( new Date() + " - Importing " + files.length + " files for " + user + ( dryRun ? " (dry run)" : "" ) + " ..." );
+        let report = await importFiles( dataFile, files, user );
+        report.errors = errors.concat( report.errors );
+        formatImportReport( report ).forEach( aLine => console.log( aLine ) );
+        if( report.errors.length > 0 ) {
+            process.exitCode = 1;
+        }
+    } finally {
+        await dataFile.close();
+        if( dryRun ) {
+            fs.unlinkSync( dbFilename );
+        }
+    }
+}
+
+// Call entry point!
+main( process.argv.slice( 2 ) );
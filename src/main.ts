@@ -43,11 +43,17 @@ async function main() {
     let dataFile: DataFile = await DataFile.open( config.dbFilename );
 
     let calendar = ical({
-        name: config.calendarName
+        name: config.calendarName,
+        timezone: config.timezone
     });
 
+    // start() throws if the config is invalid, after logging what is wrong
     let app = new WorkoutsToIcalApp( dataFile, calendar, config );
-    app.start();
+    app.start().catch( async ( aError ) => {
+        console.error( new Date() + " - Could not start: " + aError.message );
+        await dataFile.close();
+        process.exitCode = 1;
+    });
 }
 
 // Call entry point!